@@ -16,6 +16,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/map" element={<Index />} />
+          <Route path="/zip" element={<Index />} />
+          <Route path="/zip/:zip" element={<Index />} />
+          <Route path="/rankings" element={<Index />} />
+          <Route path="/compare" element={<Index />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
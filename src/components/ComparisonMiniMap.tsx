@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { ZoneFeature } from '@/types/zones';
+
+interface ComparisonMiniMapProps {
+  features: ZoneFeature[];
+  color: string;
+  /** Zoom shared by all mini-maps; null fits each map to its own ZIP */
+  zoom: number | null;
+  onZoomChange: (zoom: number) => void;
+}
+
+const ComparisonMiniMap: React.FC<ComparisonMiniMapProps> = ({ features, color, zoom, onZoomChange }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.GeoJSON | null>(null);
+  // Set while the map zooms to follow another map, so that zoom is not echoed back
+  const isSyncingRef = useRef(false);
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const map = L.map(mapRef.current, {
+      center: [31.0, -100.0], // Texas center
+      zoom: 6,
+      zoomControl: true,
+      attributionControl: false,
+    });
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 18,
+    }).addTo(map);
+
+    map.on('zoomend', () => {
+      if (isSyncingRef.current) {
+        isSyncingRef.current = false;
+        return;
+      }
+      onZoomChangeRef.current(map.getZoom());
+    });
+
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (layerRef.current) {
+      map.removeLayer(layerRef.current);
+    }
+    layerRef.current = L.geoJSON(features, {
+      style: {
+        color,
+        weight: 3,
+        opacity: 0.9,
+        fillColor: color,
+        fillOpacity: 0.35,
+      },
+    }).addTo(map);
+  }, [features, color]);
+
+  // Center on the ZIP at the shared zoom, or fit it when maps are not linked yet
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const bounds = layerRef.current?.getBounds();
+    if (!map || !bounds?.isValid()) return;
+
+    const targetZoom = zoom ?? map.getBoundsZoom(bounds, false, L.point(10, 10));
+    if (map.getZoom() !== targetZoom) {
+      isSyncingRef.current = true;
+    }
+    map.setView(bounds.getCenter(), targetZoom, { animate: false });
+  }, [zoom, features]);
+
+  return <div ref={mapRef} className="h-48 w-full rounded-md border" />;
+};
+
+export default ComparisonMiniMap;
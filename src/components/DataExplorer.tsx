@@ -5,32 +5,85 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Database, Search, Eye } from 'lucide-react';
+import { Database, Search, Eye, Sigma, Layers, Download } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import OverviewMap from './OverviewMap';
+import DerivedFieldsDialog from './DerivedFieldsDialog';
+import GradeBandsDialog from './GradeBandsDialog';
+import TerritoryPanel from './TerritoryPanel';
+import ExportDialog from './ExportDialog';
+import { formatDerivedValue } from '@/utils/derivedFields';
+import type { ZoneCollection, ZoneFeature } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+import type { GradeBand } from '@/types/gradeBands';
+import type { Territory, TerritoryDraft } from '@/types/territories';
+import type { MapView } from '@/types/viewState';
 
 interface DataExplorerProps {
-  geoJsonData?: any;
+  geoJsonData?: ZoneCollection | null;
+  /** Unfiltered dataset, used for territory summaries */
+  statewideData?: ZoneCollection | null;
+  derivedFields?: DerivedField[];
+  onDerivedFieldsChange?: (fields: DerivedField[]) => void;
+  gradeBands?: GradeBand[];
+  onGradeBandsChange?: (bands: GradeBand[]) => void;
+  onCompareZips?: (zips: string[]) => void;
+  selectedZips?: string[];
+  onSelectionChange?: (zips: string[]) => void;
+  /** Overview map center and zoom, kept in the URL */
+  mapView?: MapView | null;
+  onMapViewChange?: (view: MapView) => void;
+  territories?: Territory[];
+  onTerritorySave?: (territory: TerritoryDraft) => void;
+  onTerritoryDelete?: (id: string) => void;
   onZipSelect?: (zipCode: string) => void;
 }
 
-const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect }) => {
+interface ColumnInfo {
+  name: string;
+  type: string;
+  uniqueValues: number;
+  sampleValues: unknown[];
+  /** Set for computed columns, whose values live in feature.derived */
+  derivedField?: DerivedField;
+}
+
+const DataExplorer: React.FC<DataExplorerProps> = ({
+  geoJsonData,
+  statewideData,
+  derivedFields = [],
+  onDerivedFieldsChange,
+  gradeBands = [],
+  onGradeBandsChange,
+  onZipSelect,
+  onCompareZips,
+  selectedZips,
+  onSelectionChange,
+  mapView,
+  onMapViewChange,
+  territories = [],
+  onTerritorySave,
+  onTerritoryDelete,
+}) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(10);
   const [showAllColumnDetails, setShowAllColumnDetails] = useState(false);
+  const [isDerivedDialogOpen, setIsDerivedDialogOpen] = useState(false);
+  const [isBandsDialogOpen, setIsBandsDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
 
   // Extract and analyze data structure
   const dataAnalysis = useMemo(() => {
     if (!geoJsonData?.features) return null;
 
     const features = geoJsonData.features;
-    const allProperties = new Map<string, Set<any>>();
+    const allProperties = new Map<string, Set<unknown>>();
     const propertyTypes = new Map<string, string>();
 
     // Analyze all properties across features
-    features.forEach((feature: any) => {
-      const props = feature.properties || {};
+    features.forEach(feature => {
+      const props = feature.properties;
       Object.entries(props).forEach(([key, value]) => {
         if (!allProperties.has(key)) {
           allProperties.set(key, new Set());
@@ -52,20 +105,32 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
       });
     });
 
-    const columns = Array.from(allProperties.keys()).map(key => ({
+    const columns: ColumnInfo[] = Array.from(allProperties.keys()).map(key => ({
       name: key,
       type: propertyTypes.get(key) || 'unknown',
       uniqueValues: allProperties.get(key)!.size,
       sampleValues: Array.from(allProperties.get(key)!).slice(0, 3),
     }));
 
+    // Derived fields follow the source columns
+    derivedFields.forEach(field => {
+      const values = new Set(features.map(feature => feature.derived?.[field.id] ?? null));
+      columns.push({
+        name: field.label,
+        type: 'derived',
+        uniqueValues: values.size,
+        sampleValues: Array.from(values).slice(0, 3),
+        derivedField: field,
+      });
+    });
+
     return {
       totalFeatures: features.length,
       totalColumns: columns.length,
       columns,
       features,
     };
-  }, [geoJsonData]);
+  }, [geoJsonData, derivedFields]);
 
   // Filter and paginate data
   const filteredData = useMemo(() => {
@@ -75,8 +140,8 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
 
     if (searchTerm.trim()) {
       const searchLower = searchTerm.toLowerCase();
-      filtered = filtered.filter((feature: any) => {
-        const props = feature.properties || {};
+      filtered = filtered.filter(feature => {
+        const props = feature.properties;
         return Object.values(props).some(value =>
           String(value).toLowerCase().includes(searchLower)
         );
@@ -119,9 +184,29 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
       {/* Data Summary */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Database className="h-5 w-5" />
-            Data Overview
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Data Overview
+            </span>
+            <span className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+              {onGradeBandsChange && (
+                <Button variant="outline" size="sm" onClick={() => setIsBandsDialogOpen(true)}>
+                  <Layers className="h-4 w-4 mr-2" />
+                  Grade Bands
+                </Button>
+              )}
+              {onDerivedFieldsChange && (
+                <Button variant="outline" size="sm" onClick={() => setIsDerivedDialogOpen(true)}>
+                  <Sigma className="h-4 w-4 mr-2" />
+                  Derived Fields
+                </Button>
+              )}
+            </span>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -143,8 +228,9 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
               {dataAnalysis.columns.map(col => (
                 <Badge
                   key={col.name}
-                  variant="secondary"
+                  variant={col.derivedField ? 'outline' : 'secondary'}
                   className="text-xs"
+                  title={col.derivedField?.expression}
                 >
                   {col.name} ({col.type})
                 </Badge>
@@ -157,9 +243,29 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
       {/* Overview Map */}
       <OverviewMap 
         geoJsonData={geoJsonData}
+        derivedFields={derivedFields}
+        gradeBands={gradeBands}
         onZipSelect={onZipSelect}
+        onCompareZips={onCompareZips}
+        initialSelectedZips={selectedZips}
+        onSelectionChange={onSelectionChange}
+        mapView={mapView}
+        onViewChange={onMapViewChange}
+        territories={territories}
       />
 
+      {onTerritorySave && onTerritoryDelete && (
+        <TerritoryPanel
+          geoJsonData={statewideData || geoJsonData}
+          territories={territories}
+          gradeBands={gradeBands}
+          selectedZips={selectedZips || []}
+          onSelectZips={(zips) => onSelectionChange?.(zips)}
+          onSave={onTerritorySave}
+          onDelete={onTerritoryDelete}
+        />
+      )}
+
       {/* Data Table */}
       <Card>
         <CardHeader>
@@ -207,8 +313,8 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredData.features.map((feature: any, index: number) => {
-                    const props = feature.properties || {};
+                  {filteredData.features.map((feature: ZoneFeature, index: number) => {
+                    const props = feature.properties;
                     const globalIndex = (currentPage - 1) * itemsPerPage + index + 1;
 
                     return (
@@ -218,7 +324,7 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
                         </TableCell>
                         <TableCell className="text-center">
                           {(() => {
-                            const zipCode = props.Zip || props.ZIP || props.zipcode;
+                            const zipCode = props.Zip;
                             return zipCode ? (
                               <Button
                                 variant="outline"
@@ -236,9 +342,15 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
                         </TableCell>
                         {dataAnalysis.columns.map(col => (
                           <TableCell key={col.name} className="px-4 text-center min-w-36 whitespace-nowrap">
-                            <div title={String(props[col.name] || '')}>
-                              {props[col.name] != null ? String(props[col.name]) : '-'}
-                            </div>
+                            {col.derivedField ? (
+                              <div title={col.derivedField.expression}>
+                                {formatDerivedValue(feature.derived?.[col.derivedField.id] ?? null, col.derivedField)}
+                              </div>
+                            ) : (
+                              <div title={String(props[col.name] || '')}>
+                                {props[col.name] != null ? String(props[col.name]) : '-'}
+                              </div>
+                            )}
                           </TableCell>
                         ))}
                       </TableRow>
@@ -319,6 +431,41 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ geoJsonData, onZipSelect })
           )}
         </CardContent>
       </Card>
+
+      {onDerivedFieldsChange && (
+        <DerivedFieldsDialog
+          open={isDerivedDialogOpen}
+          fields={derivedFields}
+          sampleProperties={geoJsonData?.features[0]?.properties}
+          onSave={(fields) => {
+            onDerivedFieldsChange(fields);
+            setIsDerivedDialogOpen(false);
+          }}
+          onCancel={() => setIsDerivedDialogOpen(false)}
+        />
+      )}
+
+      <ExportDialog
+        open={isExportDialogOpen}
+        geoJsonData={geoJsonData}
+        statewideData={statewideData}
+        selectedZips={selectedZips || []}
+        territories={territories}
+        derivedFields={derivedFields}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
+
+      {onGradeBandsChange && (
+        <GradeBandsDialog
+          open={isBandsDialogOpen}
+          bands={gradeBands}
+          onSave={(bands) => {
+            onGradeBandsChange(bands);
+            setIsBandsDialogOpen(false);
+          }}
+          onCancel={() => setIsBandsDialogOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ChevronDown, Database, HardDrive, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { DatasetMetadata } from '@/types/datasets';
+
+interface DatasetSwitcherProps {
+  datasets: DatasetMetadata[];
+  activeDatasetId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  storageEstimate?: { usage: number; quota: number } | null;
+  onCheckPublicData?: () => void;
+  isCheckingPublicData?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
+const DatasetSwitcher: React.FC<DatasetSwitcherProps> = ({
+  datasets,
+  activeDatasetId,
+  onSelect,
+  onDelete,
+  storageEstimate,
+  onCheckPublicData,
+  isCheckingPublicData = false,
+}) => {
+  const active = datasets.find(dataset => dataset.id === activeDatasetId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9 max-w-64">
+          <Database className="h-4 w-4 mr-2 shrink-0" />
+          <span className="truncate">{active?.name || 'No dataset'}</span>
+          <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Dataset Library</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {datasets.length === 0 && (
+          <div className="px-2 py-3 text-sm text-muted-foreground">No saved datasets yet</div>
+        )}
+        {datasets.map(dataset => (
+          <DropdownMenuItem
+            key={dataset.id}
+            onSelect={() => onSelect(dataset.id)}
+            className={`flex items-start justify-between gap-2 ${dataset.id === activeDatasetId ? 'bg-accent' : ''}`}
+          >
+            <div className="min-w-0">
+              <div className="font-medium truncate">{dataset.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {dataset.featureCount.toLocaleString()} features · {new Date(dataset.loadedAt).toLocaleDateString()}
+                {dataset.attributeOnly && ' · attributes only'}
+              </div>
+              {dataset.sourceFiles.length > 0 && (
+                <div className="text-xs text-muted-foreground truncate" title={dataset.sourceFiles.join(', ')}>
+                  {dataset.sourceFiles.join(', ')}
+                </div>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 shrink-0"
+              title={`Delete ${dataset.name}`}
+              onClick={(e) => {
+                // Keep the click from also switching to the dataset being deleted
+                e.stopPropagation();
+                e.preventDefault();
+                onDelete(dataset.id);
+              }}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {onCheckPublicData && (
+          <DropdownMenuItem onSelect={onCheckPublicData} disabled={isCheckingPublicData}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isCheckingPublicData ? 'animate-spin' : ''}`} />
+            Check for newer public data
+          </DropdownMenuItem>
+        )}
+        {storageEstimate && (
+          <div className="flex items-center gap-2 px-2 py-1.5 text-xs text-muted-foreground">
+            <HardDrive className="h-3 w-3" />
+            {formatBytes(storageEstimate.usage)} used of {formatBytes(storageEstimate.quota)} available
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DatasetSwitcher;
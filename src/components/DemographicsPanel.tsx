@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Users } from 'lucide-react';
+import { describeDiversityIndex, getRaceComposition } from '@/utils/demographics';
+import type { ZoneNumericField } from '@/types/zones';
+
+interface DemographicsPanelProps {
+  title: string;
+  /** Rolled-up numeric values of the ZIP or selection */
+  totals: Map<ZoneNumericField, number>;
+  /** Smaller header, for panels nested in another card */
+  compact?: boolean;
+}
+
+const DemographicsPanel: React.FC<DemographicsPanelProps> = ({ title, totals, compact = false }) => {
+  const composition = useMemo(() => getRaceComposition(Object.fromEntries(totals)), [totals]);
+
+  // Donut segments as cumulative angles
+  const gradient = useMemo(() => {
+    let start = 0;
+    const stops = composition.groups.map(group => {
+      const end = start + group.share * 360;
+      const stop = `${group.color} ${start}deg ${end}deg`;
+      start = end;
+      return stop;
+    });
+    return stops.length > 0 ? `conic-gradient(${stops.join(', ')})` : '#e5e7eb';
+  }, [composition]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={compact ? 'text-sm' : 'flex items-center gap-2'}>
+          {!compact && <Users className="h-5 w-5" />}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {composition.total === 0 ? (
+          <p className="text-sm text-muted-foreground">No race/ethnicity counts in this data</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[8rem_1fr] gap-6 items-center">
+            <div className="relative w-32 h-32 mx-auto">
+              <div className="w-full h-full rounded-full" style={{ background: gradient }}></div>
+              <div className="absolute inset-4 bg-white rounded-full flex items-center justify-center">
+                <div className="text-center">
+                  <div className="text-lg font-bold">{composition.diversityIndex?.toFixed(2)}</div>
+                  <div className="text-xs text-muted-foreground">Diversity</div>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {/* Stacked share bar */}
+              <div className="flex w-full h-3 rounded-full overflow-hidden bg-gray-200">
+                {composition.groups.map(group => (
+                  <div
+                    key={group.label}
+                    className="h-3 transition-all duration-300"
+                    style={{ width: `${group.share * 100}%`, backgroundColor: group.color }}
+                    title={`${group.label}: ${(group.share * 100).toFixed(1)}%`}
+                  ></div>
+                ))}
+              </div>
+
+              <div className="space-y-2 text-sm">
+                {composition.groups.map(group => (
+                  <div key={group.label} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: group.color }}></div>
+                      <span>{group.label}</span>
+                    </div>
+                    <span className="font-medium">
+                      {group.count.toLocaleString()} ({(group.share * 100).toFixed(1)}%)
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="pt-2 border-t text-xs text-muted-foreground flex justify-between">
+                <span>Simpson diversity index (chance two students differ in group):</span>
+                <span className="font-medium">
+                  {composition.diversityIndex?.toFixed(3)} · {describeDiversityIndex(composition.diversityIndex)}
+                </span>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DemographicsPanel;
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, RotateCcw, Sigma, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { compileExpression } from '@/utils/expression';
+import { DEFAULT_DERIVED_FIELDS, createDerivedFieldId, formatDerivedValue } from '@/utils/derivedFields';
+import { ZONE_NUMERIC_FIELDS, type ZoneProperties } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+
+interface DerivedFieldsDialogProps {
+  open: boolean;
+  fields: DerivedField[];
+  /** Record used to preview the result of each expression */
+  sampleProperties?: ZoneProperties;
+  onSave: (fields: DerivedField[]) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_DRAFT = { label: '', expression: '', unit: '' };
+
+const DerivedFieldsDialog: React.FC<DerivedFieldsDialogProps> = ({ open, fields, sampleProperties, onSave, onCancel }) => {
+  const [draftFields, setDraftFields] = useState<DerivedField[]>(fields);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  // Edit a copy so Cancel discards changes
+  useEffect(() => {
+    if (open) {
+      setDraftFields(fields);
+      setDraft(EMPTY_DRAFT);
+    }
+  }, [open, fields]);
+
+  const validation = useMemo(() => {
+    if (!draft.expression.trim()) return { error: null, preview: null };
+    try {
+      const compiled = compileExpression(draft.expression);
+      return { error: null, preview: sampleProperties ? compiled.evaluate(sampleProperties) : null };
+    } catch (error) {
+      return { error: (error as Error).message, preview: null };
+    }
+  }, [draft.expression, sampleProperties]);
+
+  const canAdd = !!draft.label.trim() && !!draft.expression.trim() && !validation.error;
+
+  const addField = () => {
+    const unit = draft.unit.trim();
+    setDraftFields(prev => [
+      ...prev,
+      { id: createDerivedFieldId(), label: draft.label.trim(), expression: draft.expression.trim(), ...(unit ? { unit } : {}) },
+    ]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const previewField = (field: DerivedField): string => {
+    if (!sampleProperties) return '-';
+    try {
+      return formatDerivedValue(compileExpression(field.expression).evaluate(sampleProperties), field);
+    } catch {
+      return 'invalid';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sigma className="h-5 w-5" />
+            Derived Fields
+          </DialogTitle>
+          <DialogDescription>
+            Define rates and ratios from existing columns. They appear as columns in the data table and can be mapped and filtered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-64 pr-3">
+          <div className="space-y-2">
+            {draftFields.map(field => (
+              <div key={field.id} className="grid grid-cols-[1fr_1fr_6rem_2rem] items-center gap-3 text-sm">
+                <span className="truncate" title={field.label}>{field.label}</span>
+                <code className="text-xs truncate" title={field.expression}>{field.expression}</code>
+                <span className="text-xs text-muted-foreground truncate">{previewField(field)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraftFields(prev => prev.filter(candidate => candidate.id !== field.id))}
+                  className="h-8 w-8 p-0"
+                  title="Remove derived field"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            {draftFields.length === 0 && (
+              <p className="text-sm text-muted-foreground">No derived fields defined</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="space-y-3 rounded-lg bg-muted/40 p-3">
+          <div className="grid grid-cols-[1fr_6rem] gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="derived-label">Name</Label>
+              <Input
+                id="derived-label"
+                placeholder="Black share"
+                value={draft.label}
+                onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="derived-unit">Unit</Label>
+              <Input
+                id="derived-unit"
+                placeholder="%"
+                value={draft.unit}
+                onChange={(e) => setDraft(prev => ({ ...prev, unit: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="derived-expression">Expression</Label>
+            <Input
+              id="derived-expression"
+              placeholder="(Black / Ttl_Std) * 100"
+              value={draft.expression}
+              onChange={(e) => setDraft(prev => ({ ...prev, expression: e.target.value }))}
+              className="font-mono text-xs"
+            />
+            {validation.error ? (
+              <p className="text-xs text-destructive">{validation.error}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {validation.preview != null
+                  ? `First record: ${validation.preview.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                  : `Columns: ${ZONE_NUMERIC_FIELDS.join(', ')}`}
+              </p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={addField} disabled={!canAdd} className="h-8 px-3 text-xs">
+            <Plus className="h-3 w-3 mr-1" />
+            Add field
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraftFields(DEFAULT_DERIVED_FIELDS)} className="mr-auto">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave(draftFields)}>Save Fields</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DerivedFieldsDialog;
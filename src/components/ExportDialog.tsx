@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  EXPORT_FORMATS,
+  buildExportFile,
+  buildExportRows,
+  downloadFile,
+  getExportColumns,
+  toExportFileName,
+} from '@/utils/exportData';
+import { getTerritoryFeatures } from '@/utils/territories';
+import type { ZoneCollection, ZoneFeature } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+import type { ExportFormat, ExportLevel } from '@/types/export';
+import type { Territory } from '@/types/territories';
+
+interface ExportDialogProps {
+  open: boolean;
+  /** Features after the active filter */
+  geoJsonData?: ZoneCollection | null;
+  /** Unfiltered dataset, so a territory exports whole whatever the filter */
+  statewideData?: ZoneCollection | null;
+  selectedZips: string[];
+  territories: Territory[];
+  derivedFields: DerivedField[];
+  onClose: () => void;
+}
+
+const FILTERED_SCOPE = 'filtered';
+const SELECTION_SCOPE = 'selection';
+const toTerritoryScope = (id: string) => `territory:${id}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  geoJsonData,
+  statewideData,
+  selectedZips,
+  territories,
+  derivedFields,
+  onClose,
+}) => {
+  const [scope, setScope] = useState(FILTERED_SCOPE);
+  const [level, setLevel] = useState<ExportLevel>('zips');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  // Unchecked columns, so newly added derived fields are exported by default
+  const [excludedColumns, setExcludedColumns] = useState<string[]>([]);
+  const [fileName, setFileName] = useState('texas-zones-export');
+
+  const hasGeometry = !geoJsonData?.attributeOnly;
+
+  useEffect(() => {
+    if (open && scope === SELECTION_SCOPE && selectedZips.length === 0) {
+      setScope(FILTERED_SCOPE);
+    }
+  }, [open, scope, selectedZips]);
+
+  const features = useMemo((): ZoneFeature[] => {
+    const filtered = geoJsonData?.features || [];
+    if (scope === SELECTION_SCOPE) {
+      const zips = new Set(selectedZips);
+      return filtered.filter(feature => zips.has(feature.properties.Zip));
+    }
+    const territory = territories.find(candidate => toTerritoryScope(candidate.id) === scope);
+    if (territory) {
+      return getTerritoryFeatures((statewideData || geoJsonData)?.features || [], territory);
+    }
+    return filtered;
+  }, [scope, geoJsonData, statewideData, selectedZips, territories]);
+
+  const columns = useMemo(() => getExportColumns(level, derivedFields), [level, derivedFields]);
+  const chosenColumns = columns.filter(column => !excludedColumns.includes(column.key));
+  const zipCount = useMemo(() => new Set(features.map(feature => feature.properties.Zip)).size, [features]);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setExcludedColumns(prev => (checked ? prev.filter(candidate => candidate !== key) : [...prev, key]));
+  };
+
+  const handleExport = () => {
+    const rows = buildExportRows(features, level, derivedFields);
+    const file = buildExportFile(format, rows, chosenColumns, toExportFileName(fileName));
+    downloadFile(file);
+    console.log('📤 Exported data:', { file: file.name, rows: rows.length, columns: chosenColumns.length });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export Data
+          </DialogTitle>
+          <DialogDescription>
+            Download the filtered data, the map selection or a territory for use in other tools.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Export</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FILTERED_SCOPE}>Filtered data</SelectItem>
+                  <SelectItem value={SELECTION_SCOPE} disabled={selectedZips.length === 0}>
+                    Map selection ({selectedZips.length} ZIPs)
+                  </SelectItem>
+                  {territories.map(territory => (
+                    <SelectItem key={territory.id} value={toTerritoryScope(territory.id)}>
+                      Territory: {territory.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Rows</Label>
+              <Select value={level} onValueChange={(value) => setLevel(value as ExportLevel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zips">One per ZIP (rolled up)</SelectItem>
+                  <SelectItem value="records">One per record</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(option => (
+                    <SelectItem key={option.value} value={option.value} disabled={option.hasGeometry && !hasGeometry}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label>Columns ({chosenColumns.length} of {columns.length})</Label>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setExcludedColumns([])}>
+                  All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setExcludedColumns(columns.filter(column => column.key !== 'Zip').map(column => column.key))}
+                >
+                  ZIP only
+                </Button>
+              </div>
+            </div>
+            <ScrollArea className="h-40 rounded-md border p-2">
+              <div className="grid grid-cols-3 gap-1 pr-3">
+                {columns.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={!excludedColumns.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    <span className="truncate" title={column.label}>{column.label}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+            {format === 'shapefile' && (
+              <p className="text-xs text-muted-foreground">
+                Shapefile column names are cut to 10 characters; the zip includes a WGS84 .prj.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="export-file-name">File name</Label>
+            <Input id="export-file-name" value={fileName} onChange={(e) => setFileName(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <span className="mr-auto self-center text-sm text-muted-foreground">
+            {features.length.toLocaleString()} records in {zipCount.toLocaleString()} ZIPs
+          </span>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleExport} disabled={features.length === 0 || chosenColumns.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
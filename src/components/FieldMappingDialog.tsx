@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Columns3, WandSparkles } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FIELD_ROLES, suggestFieldMapping } from '@/utils/fieldMapping';
+import type { FieldMapping, FieldRole } from '@/types/zones';
+
+const UNMAPPED = '__unmapped__';
+
+interface FieldMappingDialogProps {
+  open: boolean;
+  columns: string[];
+  sampleRecord?: Record<string, unknown>;
+  onConfirm: (mapping: FieldMapping) => void;
+  onCancel: () => void;
+}
+
+const FieldMappingDialog: React.FC<FieldMappingDialogProps> = ({ open, columns, sampleRecord, onConfirm, onCancel }) => {
+  const suggested = useMemo(() => suggestFieldMapping(columns), [columns]);
+  const [mapping, setMapping] = useState<FieldMapping>(suggested);
+
+  // Start from the suggestion whenever a new file is opened
+  useEffect(() => {
+    if (open) {
+      setMapping(suggested);
+    }
+  }, [open, suggested]);
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, typeof FIELD_ROLES>();
+    FIELD_ROLES.forEach(definition => {
+      if (!grouped.has(definition.group)) {
+        grouped.set(definition.group, []);
+      }
+      grouped.get(definition.group)!.push(definition);
+    });
+    return Array.from(grouped.entries());
+  }, []);
+
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+  const missingRequired = FIELD_ROLES.filter(definition => definition.required && !mapping[definition.role]);
+
+  const updateRole = (role: FieldRole, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column === UNMAPPED) {
+        delete next[role];
+      } else {
+        next[role] = column;
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            Map Attribute Columns
+          </DialogTitle>
+          <DialogDescription>
+            Match the columns in the uploaded file to the fields used by the analysis views.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{columns.length} source columns</Badge>
+            <Badge variant="outline">{mappedCount} of {FIELD_ROLES.length} fields mapped</Badge>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setMapping(suggested)} className="h-8 px-3 text-xs">
+            <WandSparkles className="h-3 w-3 mr-1" />
+            Auto-suggest
+          </Button>
+        </div>
+
+        <ScrollArea className="h-96 pr-3">
+          <div className="space-y-4">
+            {groups.map(([group, definitions]) => (
+              <div key={group} className="space-y-2">
+                <h4 className="font-medium text-sm border-b pb-1">{group}</h4>
+                {definitions.map(definition => {
+                  const column = mapping[definition.role];
+                  const sample = column && sampleRecord ? sampleRecord[column] : undefined;
+
+                  return (
+                    <div key={definition.role} className="grid grid-cols-[1fr_1fr_6rem] items-center gap-3 text-sm">
+                      <span>
+                        {definition.label}
+                        {definition.required && <span className="text-destructive"> *</span>}
+                      </span>
+                      <Select value={column || UNMAPPED} onValueChange={(value) => updateRole(definition.role, value)}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {columns.map(name => (
+                            <SelectItem key={name} value={name}>{name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-muted-foreground truncate" title={sample != null ? String(sample) : ''}>
+                        {sample != null ? String(sample) : '-'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-destructive mr-auto self-center">
+              Map {missingRequired.map(definition => definition.label).join(', ')} to continue
+            </p>
+          )}
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={missingRequired.length > 0}>
+            Apply Mapping
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FieldMappingDialog;
@@ -1,14 +1,32 @@
-import React, { useCallback, useState, useEffect } from 'react';
-import { Upload, FileText, AlertCircle, Database, Trash2, Download } from 'lucide-react';
+import React, { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { Upload, FileText, AlertCircle, Database, Trash2, Download, FileArchive, Layers, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import * as shapefile from 'shapefile';
-import { loadShapefileFromPublic, checkShapefileExists } from '@/utils/shapefileLoader';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FieldMappingDialog from './FieldMappingDialog';
+import LoaderReport from './LoaderReport';
+import { getVectorFormat, type GeoJsonCollection, type ShapefileData } from '@/utils/shapefileLoader';
+import { inspectPublicData, loadPublicDataset, type PublicDataReport } from '@/utils/publicData';
+import { hashContent } from '@/utils/contentHash';
+import {
+  parseShapefileInWorker,
+  parseVectorFileInWorker,
+  normalizeInWorker,
+  ParseCancelledError,
+  type ParseOptions,
+  type ParseProgress,
+} from '@/utils/shapefileWorkerClient';
+import { extractShapefileLayers, isCompleteLayer, type ShapefileLayer } from '@/utils/shapefileArchive';
+import { getSourceColumns } from '@/utils/fieldMapping';
+import { UnsupportedProjectionError } from '@/utils/projection';
+import type { FieldMapping, ZoneCollection } from '@/types/zones';
+import type { DatasetSource } from '@/types/datasets';
 
 interface FileUploadProps {
-  onGeoJsonLoaded: (geoJson: any) => void;
+  onGeoJsonLoaded: (geoJson: ZoneCollection, source: DatasetSource) => void;
   hasCache?: boolean;
   onClearCache?: () => void;
   compact?: boolean;
@@ -23,20 +41,37 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
     dbf?: File;
     shx?: File;
     prj?: File;
+    cpg?: File;
   }>({});
-  const [hasPublicData, setHasPublicData] = useState(false);
+  // Shapefile sets found inside an uploaded .zip archive
+  const [archive, setArchive] = useState<{ name: string; layers: ShapefileLayer[] } | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string>('');
+  // GeoJSON, TopoJSON or FlatGeobuf file picked instead of a shapefile
+  const [vectorFile, setVectorFile] = useState<File | null>(null);
+  const [publicReport, setPublicReport] = useState<PublicDataReport | null>(null);
   const [isCheckingPublicData, setIsCheckingPublicData] = useState(true);
+  // Parsed upload waiting for the user to confirm its field mapping
+  const [pendingCollection, setPendingCollection] = useState<GeoJsonCollection | null>(null);
+  const [pendingSource, setPendingSource] = useState<DatasetSource | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  // Aborts the worker behind whichever parse is running
+  const abortRef = useRef<AbortController | null>(null);
+
+  const pendingColumns = useMemo(
+    () => (pendingCollection ? getSourceColumns(pendingCollection.features) : []),
+    [pendingCollection]
+  );
 
   // Check for public data on component mount
   useEffect(() => {
     const checkPublicData = async () => {
       try {
-        const exists = await checkShapefileExists();
-        setHasPublicData(exists);
-        console.log('📁 Public shapefile data available:', exists);
+        const report = await inspectPublicData();
+        setPublicReport(report);
+        console.log('📁 Public shapefile data available:', report.mode);
       } catch (error) {
         console.error('Error checking public data:', error);
-        setHasPublicData(false);
+        setPublicReport(null);
       } finally {
         setIsCheckingPublicData(false);
       }
@@ -45,20 +80,48 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
     checkPublicData();
   }, []);
 
-  const loadPublicData = async () => {
+  // Cancel any running parse when the component goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const startParse = (): ParseOptions => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setProgress(null);
+    return { signal: controller.signal, onProgress: setProgress };
+  };
+
+  const endParse = () => {
+    abortRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  const cancelParse = () => {
+    abortRef.current?.abort();
+  };
+
+  const loadPublicData = async () => {
+    const options = startParse();
 
     try {
       console.log('🔄 Loading shapefile from public folder...');
-      const geoJson = await loadShapefileFromPublic();
-      onGeoJsonLoaded(geoJson);
+      const { data, source } = await loadPublicDataset(publicReport, options);
+      onGeoJsonLoaded(data, source);
       console.log('✅ Successfully loaded public shapefile data');
     } catch (err) {
+      if (err instanceof ParseCancelledError) {
+        console.log('🛑 Public shapefile load cancelled');
+        return;
+      }
       console.error('❌ Error loading public shapefile:', err);
-      setError('Failed to load shapefile from public folder. Please try uploading files manually.');
+      setError(err instanceof UnsupportedProjectionError
+        ? err.message
+        : 'Failed to load shapefile from public folder. Please try uploading files manually.');
     } finally {
-      setIsLoading(false);
+      endParse();
     }
   };
 
@@ -84,66 +147,214 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
     }
   }, []);
 
-  const handleFiles = (files: File[]) => {
-    const newFiles = { ...uploadedFiles };
+  const handleArchive = async (file: File) => {
+    try {
+      const layers = extractShapefileLayers(await file.arrayBuffer());
+      const completeLayers = layers.filter(isCompleteLayer);
 
-    files.forEach(file => {
-      const extension = file.name.toLowerCase().split('.').pop();
-      if (extension === 'shp' || extension === 'dbf' || extension === 'shx' || extension === 'prj') {
-        newFiles[extension as keyof typeof newFiles] = file;
+      if (completeLayers.length === 0) {
+        setArchive(null);
+        setError(`No complete shapefile (.shp + .dbf) found in ${file.name}.`);
+        return;
       }
-    });
 
-    setUploadedFiles(newFiles);
-    setError(null);
+      setArchive({ name: file.name, layers });
+      setSelectedLayerId(completeLayers[0].id);
+      setUploadedFiles({});
+      setVectorFile(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error reading zip archive:', err);
+      setArchive(null);
+      setError(`Failed to read ${file.name}. Please check that it is a valid .zip archive.`);
+    }
   };
 
-  const processShapefile = async () => {
-    if (!uploadedFiles.shp || !uploadedFiles.dbf) {
-      setError('Please upload both .shp and .dbf files');
+  const handleFiles = (files: File[]) => {
+    const zipFile = files.find(file => file.name.toLowerCase().endsWith('.zip'));
+    if (zipFile) {
+      handleArchive(zipFile);
       return;
     }
 
-    setIsLoading(true);
+    const vector = files.find(file => getVectorFormat(file.name));
+    if (vector) {
+      setVectorFile(vector);
+      setUploadedFiles({});
+      setArchive(null);
+      setError(null);
+      return;
+    }
+
+    setUploadedFiles(prev => {
+      const newFiles = { ...prev };
+
+      files.forEach(file => {
+        const extension = file.name.toLowerCase().split('.').pop();
+        if (extension === 'shp' || extension === 'dbf' || extension === 'shx' || extension === 'prj' || extension === 'cpg') {
+          newFiles[extension as keyof typeof newFiles] = file;
+        }
+      });
+
+      return newFiles;
+    });
+    setArchive(null);
+    setVectorFile(null);
     setError(null);
+  };
+
+  const selectedLayer = archive?.layers.find(layer => layer.id === selectedLayerId);
+
+  // Gather the components of whichever source is active: an archive layer or loose files
+  const collectShapefileData = async (): Promise<ShapefileData | null> => {
+    if (archive) {
+      return selectedLayer && isCompleteLayer(selectedLayer) ? selectedLayer.data : null;
+    }
+
+    if (!uploadedFiles.shp || !uploadedFiles.dbf) return null;
+
+    return {
+      shp: await uploadedFiles.shp.arrayBuffer(),
+      dbf: await uploadedFiles.dbf.arrayBuffer(),
+      shx: uploadedFiles.shx ? await uploadedFiles.shx.arrayBuffer() : undefined,
+      prj: uploadedFiles.prj ? (await uploadedFiles.prj.text()).trim() : undefined,
+      cpg: uploadedFiles.cpg ? (await uploadedFiles.cpg.text()).trim() : undefined,
+    };
+  };
+
+  // Name the dataset after the layer or file it came from
+  const describeSource = (): DatasetSource => {
+    if (vectorFile) {
+      return { name: vectorFile.name.replace(/\.[^.]+$/, ''), files: [vectorFile.name] };
+    }
+    if (archive && selectedLayer) {
+      return { name: selectedLayer.name, files: selectedLayer.files.map(file => `${archive.name}/${file}`) };
+    }
+    const files = Object.values(uploadedFiles).filter(Boolean).map(file => file.name);
+    return { name: uploadedFiles.shp?.name.replace(/\.[^.]+$/, '') || 'Uploaded shapefile', files };
+  };
+
+  const processShapefile = async () => {
+    const options = startParse();
+    const source = describeSource();
 
     try {
-      const shpBuffer = await uploadedFiles.shp.arrayBuffer();
-      const dbfBuffer = await uploadedFiles.dbf.arrayBuffer();
-
-      const features: Array<{
-        type: string;
-        geometry: unknown;
-        properties: Record<string, unknown>;
-      }> = [];
-
-      await shapefile.read(shpBuffer, dbfBuffer)
-        .then((collection) => {
-          if (collection.features) {
-            features.push(...collection.features);
-          }
-        });
-
-      const geoJson = {
-        type: 'FeatureCollection',
-        features: features,
-      };
-
-      onGeoJsonLoaded(geoJson);
+      if (vectorFile) {
+        setPendingSource({ ...source, contentHash: await hashContent([await vectorFile.arrayBuffer()]) });
+        setPendingCollection(await parseVectorFileInWorker(vectorFile, options));
+        return;
+      }
+
+      const data = await collectShapefileData();
+      if (!data) {
+        setError(archive ? 'Please choose a layer that includes both .shp and .dbf files' : 'Please upload both .shp and .dbf files');
+        return;
+      }
+
+      setPendingSource({ ...source, contentHash: await hashContent([data.shp, data.dbf, data.prj, data.cpg]) });
+      setPendingCollection(await parseShapefileInWorker(data, options));
     } catch (err) {
+      if (err instanceof ParseCancelledError) return;
       console.error('Error processing shapefile:', err);
-      setError('Failed to process shapefile. Please check your files and try again.');
+      setError(err instanceof UnsupportedProjectionError ? err.message : vectorFile
+        ? `Failed to read ${vectorFile.name}. Please check that it is valid GeoJSON, TopoJSON or FlatGeobuf.`
+        : 'Failed to process shapefile. Please check your files and try again.');
+    } finally {
+      endParse();
+    }
+  };
+
+  const applyFieldMapping = async (mapping: FieldMapping) => {
+    if (!pendingCollection) return;
+
+    const collection = pendingCollection;
+    const source = pendingSource || describeSource();
+    setPendingCollection(null);
+    const options = startParse();
+
+    try {
+      onGeoJsonLoaded(await normalizeInWorker(collection, mapping, options), source);
+    } catch (err) {
+      if (err instanceof ParseCancelledError) return;
+      console.error('Error applying field mapping:', err);
+      setError('Failed to apply the field mapping. Please try again.');
     } finally {
-      setIsLoading(false);
+      endParse();
     }
   };
 
+  const progressPercent = progress?.total ? Math.min(100, Math.round((progress.processed / progress.total) * 100)) : 0;
+
+  const progressBar = isLoading && (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {progress
+            ? `${progress.stage === 'reading' ? 'Reading' : 'Preparing'} features: ${progress.processed.toLocaleString()}${progress.total ? ` of ${progress.total.toLocaleString()}` : ''}`
+            : 'Starting...'}
+        </span>
+        <Button variant="ghost" size="sm" onClick={cancelParse} className="h-6 px-2 text-xs">
+          <X className="h-3 w-3 mr-1" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={progressPercent} className="h-2" />
+    </div>
+  );
+
+  const mappingDialog = (
+    <FieldMappingDialog
+      open={!!pendingCollection}
+      columns={pendingColumns}
+      sampleRecord={pendingCollection?.features[0]?.properties}
+      onConfirm={applyFieldMapping}
+      onCancel={() => setPendingCollection(null)}
+    />
+  );
+
+  const layerPicker = archive && (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <FileArchive className="h-4 w-4 text-primary" />
+        <span className="font-medium">{archive.name}</span>
+        <Badge variant="outline" className="text-xs">
+          {archive.layers.length} layer{archive.layers.length === 1 ? '' : 's'}
+        </Badge>
+      </div>
+      <Select value={selectedLayerId} onValueChange={setSelectedLayerId}>
+        <SelectTrigger>
+          <SelectValue placeholder="Choose a layer..." />
+        </SelectTrigger>
+        <SelectContent>
+          {archive.layers.map(layer => (
+            <SelectItem key={layer.id} value={layer.id} disabled={!isCompleteLayer(layer)}>
+              <span className="flex items-center gap-2">
+                <Layers className="h-3 w-3" />
+                {layer.name}
+                <span className="text-xs text-muted-foreground">
+                  ({layer.files.map(file => file.split('.').pop()?.toLowerCase()).sort().join(', ')})
+                </span>
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const resetFiles = () => {
     setUploadedFiles({});
+    setArchive(null);
+    setSelectedLayerId('');
+    setVectorFile(null);
     setError(null);
   };
 
-  const hasRequiredFiles = uploadedFiles.shp && uploadedFiles.dbf;
+  const hasRequiredFiles = vectorFile
+    ? true
+    : archive
+      ? !!selectedLayer && isCompleteLayer(selectedLayer)
+      : !!(uploadedFiles.shp && uploadedFiles.dbf);
 
   // Compact view when data is already loaded
   if (compact && hasCache) {
@@ -168,14 +379,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
                 className="h-8 px-3 text-xs"
               >
                 <Upload className="h-3 w-3 mr-1" />
-                Replace
+                Add Dataset
               </Button>
               <Button
                 variant="outline"
                 size="sm"
                 onClick={onClearCache}
                 className="h-8 px-2"
-                title="Clear cached data"
+                title="Delete this dataset"
               >
                 <Trash2 className="h-3 w-3" />
               </Button>
@@ -186,14 +397,15 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
             id="file-input"
             type="file"
             multiple
-            accept=".shp,.dbf,.shx,.prj"
+            accept=".shp,.dbf,.shx,.prj,.cpg,.zip,.geojson,.json,.topojson,.fgb"
             onChange={handleFileInput}
             className="hidden"
           />
 
           {/* Show upload progress if files are being processed */}
-          {(uploadedFiles.shp || uploadedFiles.dbf) && (
-            <div className="mt-3 pt-3 border-t">
+          {(uploadedFiles.shp || uploadedFiles.dbf || archive || vectorFile) && (
+            <div className="mt-3 pt-3 border-t space-y-3">
+              {layerPicker}
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2 text-sm">
                   <FileText className="h-4 w-4 text-primary" />
@@ -211,12 +423,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
             </div>
           )}
 
+          {progressBar && <div className="mt-3">{progressBar}</div>}
+
           {error && (
             <Alert variant="destructive" className="mt-3">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription className="text-sm">{error}</AlertDescription>
             </Alert>
           )}
+
+          {mappingDialog}
         </CardContent>
       </Card>
     );
@@ -229,7 +445,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <Upload className="h-5 w-5" />
-            Upload Shapefile
+            Upload Boundary Data
           </div>
           {hasCache && (
             <div className="flex items-center gap-2">
@@ -242,7 +458,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
                 size="sm"
                 onClick={onClearCache}
                 className="h-8 px-2"
-                title="Clear cached data"
+                title="Delete this dataset"
               >
                 <Trash2 className="h-3 w-3" />
               </Button>
@@ -255,28 +471,33 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
           <Alert>
             <Database className="h-4 w-4" />
             <AlertDescription>
-              Data loaded from cache. Upload new files to replace cached data.
+              Data loaded from the dataset library. Uploading new files adds another dataset.
             </AlertDescription>
           </Alert>
         )}
 
         {/* Public Data Option */}
-        {!isCheckingPublicData && hasPublicData && !hasCache && (
+        {!isCheckingPublicData && publicReport && publicReport.mode !== 'unavailable' && !hasCache && (
           <Alert className="border-blue-200 bg-blue-50">
             <Download className="h-4 w-4 text-blue-600" />
-            <AlertDescription className="flex items-center justify-between">
-              <span className="text-blue-800">
-                Pre-loaded shapefile data is available in the public folder.
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={loadPublicData}
-                disabled={isLoading}
-                className="ml-2 h-8 px-3 text-xs border-blue-300 text-blue-700 hover:bg-blue-100"
-              >
-                {isLoading ? 'Loading...' : 'Load Public Data'}
-              </Button>
+            <AlertDescription className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-blue-800">
+                  {publicReport.mode === 'full'
+                    ? 'Pre-loaded shapefile data is available in the public folder.'
+                    : 'The public folder has an attribute table but no boundary geometry.'}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={loadPublicData}
+                  disabled={isLoading}
+                  className="ml-2 h-8 px-3 text-xs border-blue-300 text-blue-700 hover:bg-blue-100"
+                >
+                  {isLoading ? 'Loading...' : publicReport.mode === 'full' ? 'Load Public Data' : 'Load Attributes Only'}
+                </Button>
+              </div>
+              <LoaderReport report={publicReport} />
             </AlertDescription>
           </Alert>
         )}
@@ -296,7 +517,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
             <strong>Select multiple files</strong> or drag and drop here
           </p>
           <p className="text-xs text-muted-foreground">
-            Required: .shp, .dbf | Optional: .shx, .prj
+            Required: .shp, .dbf | Optional: .shx, .prj, .cpg | Or a single .zip, .geojson, .topojson or .fgb file
           </p>
         </div>
 
@@ -304,7 +525,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
           id="file-input"
           type="file"
           multiple
-          accept=".shp,.dbf,.shx,.prj"
+          accept=".shp,.dbf,.shx,.prj,.cpg,.zip,.geojson,.json,.topojson,.fgb"
           onChange={handleFileInput}
           className="hidden"
         />
@@ -323,6 +544,20 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
           </div>
         )}
 
+        {vectorFile && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Uploaded File:</p>
+            <div className="flex items-center gap-2 text-sm">
+              <FileText className="h-4 w-4 text-primary" />
+              <span>{vectorFile.name}</span>
+            </div>
+          </div>
+        )}
+
+        {layerPicker}
+
+        {progressBar}
+
         {error && (
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
@@ -337,14 +572,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onGeoJsonLoaded, hasCache = fal
             className="flex-1"
             variant="default"
           >
-            {isLoading ? 'Processing...' : 'Load Shapefile'}
+            {isLoading ? 'Processing...' : vectorFile ? 'Load File' : 'Load Shapefile'}
           </Button>
-          {Object.keys(uploadedFiles).length > 0 && (
+          {(Object.keys(uploadedFiles).length > 0 || archive || vectorFile) && (
             <Button variant="outline" onClick={resetFiles}>
               Reset
             </Button>
           )}
         </div>
+
+        {mappingDialog}
       </CardContent>
     </Card>
   );
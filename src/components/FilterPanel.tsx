@@ -1,217 +1,388 @@
-import React, { useState, useEffect } from 'react';
-import { Filter, Search } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { ChevronDown, Filter, Plus, Search, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { FIELD_ROLES } from '@/utils/fieldMapping';
+import { isDerivedKey, toDerivedKey } from '@/utils/derivedFields';
+import { rollUpZones } from '@/utils/aggregation';
+import {
+  NUMERIC_OPERATORS,
+  applyZoneQuery,
+  countActiveConditions,
+  createCategoryCondition,
+  createEmptyQuery,
+  createNumericCondition,
+  createQueryGroup,
+  isQueryActive,
+} from '@/utils/zoneQuery';
+import { ZONE_STRING_FIELDS } from '@/types/zones';
+import type { FieldRole, ZoneCollection, ZoneStringField } from '@/types/zones';
+import type { DerivedField, DerivedFieldKey, NumericFieldKey } from '@/types/derivedFields';
+import type { NumericOperator, QueryCombinator, QueryCondition, QueryGroup, ZoneQuery } from '@/types/query';
 
 interface FilterPanelProps {
-  geoJsonData?: any;
-  onFilterChange: (filteredData: any) => void;
+  geoJsonData?: ZoneCollection | null;
+  derivedFields?: DerivedField[];
+  /** Owned by the parent so it can be kept in the URL */
+  query: ZoneQuery;
+  onQueryChange: (query: ZoneQuery) => void;
+  onFilterChange: (filteredData: ZoneCollection | null) => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ geoJsonData, onFilterChange }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedDistrict, setSelectedDistrict] = useState<string>('all');
-  const [selectedZip, setSelectedZip] = useState<string>('all');
-  const [availableFilters, setAvailableFilters] = useState<{
-    districts: string[];
-    zips: string[];
-    properties: string[];
-  }>({
-    districts: [],
-    zips: [],
-    properties: [],
-  });
-
-  // Extract unique values for filter options
-  useEffect(() => {
-    if (!geoJsonData?.features) {
-      setAvailableFilters({ districts: [], zips: [], properties: [] });
-      return;
-    }
-
-    const districts = new Set<string>();
-    const zips = new Set<string>();
-    const properties = new Set<string>();
-
-    geoJsonData.features.forEach((feature: any) => {
-      const props = feature.properties || {};
-      
-      // Look for common property names that might contain district info
-      const districtKeys = ['district', 'DISTRICT', 'District', 'district_name', 'DISTRICT_NAME'];
-      const zipKeys = ['zip', 'ZIP', 'zipcode', 'ZIPCODE', 'postal_code', 'POSTAL_CODE'];
-      
-      districtKeys.forEach(key => {
-        if (props[key] && typeof props[key] === 'string') {
-          districts.add(props[key]);
+type FilterField = FieldRole | DerivedFieldKey;
+
+const isStringField = (field: FilterField): field is ZoneStringField =>
+  (ZONE_STRING_FIELDS as FilterField[]).includes(field);
+
+const parseNumber = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ geoJsonData, derivedFields = [], query, onQueryChange, onFilterChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Updates build on the latest query, so several in one event don't overwrite each other
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const setQuery = useCallback((update: ZoneQuery | ((prev: ZoneQuery) => ZoneQuery)) => {
+    const next = typeof update === 'function' ? update(queryRef.current) : update;
+    if (next === queryRef.current) return;
+    queryRef.current = next;
+    onQueryChange(next);
+  }, [onQueryChange]);
+
+  // Distinct values for categorical fields and observed ranges for numeric ones
+  const fieldStats = useMemo(() => {
+    const categories = new Map<ZoneStringField, string[]>();
+    const ranges = new Map<NumericFieldKey, { min: number; max: number }>();
+    if (!geoJsonData?.features) return { categories, ranges };
+
+    const distinct = new Map<ZoneStringField, Set<string>>();
+    const extendRange = (field: NumericFieldKey, value: number) => {
+      const range = ranges.get(field);
+      ranges.set(field, range
+        ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+        : { min: value, max: value });
+    };
+
+    geoJsonData.features.forEach(feature => {
+      Object.entries(feature.properties).forEach(([key, value]) => {
+        const field = key as FieldRole;
+        if (isStringField(field)) {
+          if (!value) return;
+          if (!distinct.has(field)) distinct.set(field, new Set());
+          distinct.get(field)!.add(value as string);
+        } else if (typeof value === 'number') {
+          extendRange(field, value);
         }
       });
-      
-      zipKeys.forEach(key => {
-        if (props[key]) {
-          zips.add(String(props[key]));
-        }
+      Object.entries(feature.derived || {}).forEach(([id, value]) => {
+        if (value != null) extendRange(toDerivedKey(id), Math.round(value * 100) / 100);
       });
-      
-      // Collect all property keys for reference
-      Object.keys(props).forEach(key => properties.add(key));
     });
+    distinct.forEach((values, field) => categories.set(field, Array.from(values).sort()));
 
-    setAvailableFilters({
-      districts: Array.from(districts).sort(),
-      zips: Array.from(zips).sort(),
-      properties: Array.from(properties).sort(),
-    });
+    return { categories, ranges };
   }, [geoJsonData]);
 
-  // Apply filters
+  const roleGroups = useMemo(() => {
+    const grouped = new Map<string, typeof FIELD_ROLES>();
+    FIELD_ROLES.forEach(definition => {
+      if (!grouped.has(definition.group)) {
+        grouped.set(definition.group, []);
+      }
+      grouped.get(definition.group)!.push(definition);
+    });
+    return Array.from(grouped.entries());
+  }, []);
+
+  const filteredGeoJson = useMemo(
+    () => (geoJsonData?.features ? applyZoneQuery(geoJsonData, query) : null),
+    [geoJsonData, query]
+  );
+
+  // Totals of the matching zones, rolled up with the same rules as a ZIP
+  const matchRollup = useMemo(
+    () => (filteredGeoJson ? rollUpZones(filteredGeoJson.features.map(feature => feature.properties)) : null),
+    [filteredGeoJson]
+  );
+
+  // Drop conditions on derived fields that have been deleted
   useEffect(() => {
-    if (!geoJsonData?.features) {
-      onFilterChange(null);
-      return;
-    }
-
-    let filteredFeatures = geoJsonData.features;
-
-    // Apply search filter
-    if (searchTerm.trim()) {
-      filteredFeatures = filteredFeatures.filter((feature: any) => {
-        const props = feature.properties || {};
-        return Object.values(props).some(value => 
-          String(value).toLowerCase().includes(searchTerm.toLowerCase())
-        );
-      });
-    }
-
-    // Apply district filter
-    if (selectedDistrict !== 'all') {
-      filteredFeatures = filteredFeatures.filter((feature: any) => {
-        const props = feature.properties || {};
-        const districtKeys = ['district', 'DISTRICT', 'District', 'district_name', 'DISTRICT_NAME'];
-        return districtKeys.some(key => props[key] === selectedDistrict);
-      });
-    }
-
-    // Apply ZIP filter
-    if (selectedZip !== 'all') {
-      filteredFeatures = filteredFeatures.filter((feature: any) => {
-        const props = feature.properties || {};
-        const zipKeys = ['zip', 'ZIP', 'zipcode', 'ZIPCODE', 'postal_code', 'POSTAL_CODE'];
-        return zipKeys.some(key => String(props[key]) === selectedZip);
-      });
-    }
+    const exists = (condition: QueryCondition) =>
+      condition.kind === 'category' || !isDerivedKey(condition.field)
+      || derivedFields.some(field => toDerivedKey(field.id) === condition.field);
 
-    const filteredGeoJson = {
-      ...geoJsonData,
-      features: filteredFeatures,
-    };
+    setQuery(prev => (prev.groups.every(group => group.conditions.every(exists))
+      ? prev
+      : {
+        ...prev,
+        groups: prev.groups
+          .map(group => ({ ...group, conditions: group.conditions.filter(exists) }))
+          .filter(group => group.conditions.length > 0),
+      }));
+  }, [derivedFields, setQuery]);
 
+  // Apply filters
+  useEffect(() => {
     onFilterChange(filteredGeoJson);
-  }, [geoJsonData, searchTerm, selectedDistrict, selectedZip, onFilterChange]);
+  }, [filteredGeoJson, onFilterChange]);
+
+  const updateGroup = (groupId: string, update: (group: QueryGroup) => QueryGroup) => {
+    setQuery(prev => ({
+      ...prev,
+      groups: prev.groups.map(group => (group.id === groupId ? update(group) : group)),
+    }));
+  };
+
+  const updateCondition = (groupId: string, conditionId: string, update: (condition: QueryCondition) => QueryCondition) => {
+    updateGroup(groupId, group => ({
+      ...group,
+      conditions: group.conditions.map(condition => (condition.id === conditionId ? update(condition) : condition)),
+    }));
+  };
+
+  const createCondition = (field: FilterField): QueryCondition =>
+    isStringField(field) ? createCategoryCondition(field) : createNumericCondition(field);
+
+  const addGroup = () => {
+    setQuery(prev => ({ ...prev, groups: [...prev.groups, createQueryGroup(createCondition('Schl_Lv'))] }));
+    setIsOpen(true);
+  };
+
+  const addCondition = (groupId: string) => {
+    updateGroup(groupId, group => ({ ...group, conditions: [...group.conditions, createCondition('med_ncm')] }));
+  };
+
+  const removeCondition = (groupId: string, conditionId: string) => {
+    setQuery(prev => ({
+      ...prev,
+      groups: prev.groups
+        .map(group => (group.id === groupId
+          ? { ...group, conditions: group.conditions.filter(condition => condition.id !== conditionId) }
+          : group))
+        .filter(group => group.conditions.length > 0),
+    }));
+  };
+
+  const toggleCategoryValue = (groupId: string, conditionId: string, value: string, checked: boolean) => {
+    updateCondition(groupId, conditionId, current => {
+      if (current.kind !== 'category') return current;
+      return {
+        ...current,
+        values: checked ? [...current.values, value] : current.values.filter(item => item !== value),
+      };
+    });
+  };
+
+  const changeField = (groupId: string, condition: QueryCondition, field: FilterField) => {
+    updateCondition(groupId, condition.id, () => ({ ...createCondition(field), id: condition.id }));
+  };
 
   const clearFilters = () => {
-    setSearchTerm('');
-    setSelectedDistrict('all');
-    setSelectedZip('all');
+    setQuery(createEmptyQuery());
   };
 
-  const hasActiveFilters = searchTerm.trim() || selectedDistrict !== 'all' || selectedZip !== 'all';
+  const hasActiveFilters = isQueryActive(query);
+  const activeConditionCount = countActiveConditions(query);
 
-  return (
-    <Card className="w-full">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Filter className="h-5 w-5" />
-          Filter Zones
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        {/* Search */}
-        <div className="space-y-2">
-          <Label htmlFor="search">Search</Label>
-          <div className="relative">
-            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-              id="search"
-              placeholder="Search zones..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-8"
-            />
-          </div>
-        </div>
+  const renderCombinator = (value: QueryCombinator, onChange: (value: QueryCombinator) => void, label: string) => (
+    <Select value={value} onValueChange={(next) => onChange(next as QueryCombinator)}>
+      <SelectTrigger className="h-8 w-auto gap-2 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="and">{label} all (AND)</SelectItem>
+        <SelectItem value="or">{label} any (OR)</SelectItem>
+      </SelectContent>
+    </Select>
+  );
 
-        {/* District Filter */}
-        {availableFilters.districts.length > 0 && (
-          <div className="space-y-2">
-            <Label>District</Label>
-            <Select value={selectedDistrict} onValueChange={setSelectedDistrict}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select district" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Districts</SelectItem>
-                {availableFilters.districts.map(district => (
-                  <SelectItem key={district} value={district}>
-                    {district}
-                  </SelectItem>
+  const renderCondition = (group: QueryGroup, condition: QueryCondition) => (
+    <div key={condition.id} className="space-y-2 rounded-md border p-2">
+      <div className="flex items-center gap-2">
+        <Select value={condition.field} onValueChange={(field) => changeField(group.id, condition, field as FilterField)}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {roleGroups.map(([groupName, definitions]) => (
+              <SelectGroup key={groupName}>
+                <SelectLabel>{groupName}</SelectLabel>
+                {definitions.map(definition => (
+                  <SelectItem key={definition.role} value={definition.role}>{definition.label}</SelectItem>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
-        )}
-
-        {/* ZIP Filter */}
-        {availableFilters.zips.length > 0 && (
-          <div className="space-y-2">
-            <Label>ZIP Code</Label>
-            <Select value={selectedZip} onValueChange={setSelectedZip}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select ZIP code" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All ZIP Codes</SelectItem>
-                {availableFilters.zips.map(zip => (
-                  <SelectItem key={zip} value={zip}>
-                    {zip}
-                  </SelectItem>
+              </SelectGroup>
+            ))}
+            {derivedFields.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Derived</SelectLabel>
+                {derivedFields.map(field => (
+                  <SelectItem key={field.id} value={toDerivedKey(field.id)}>{field.label}</SelectItem>
                 ))}
-              </SelectContent>
-            </Select>
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => removeCondition(group.id, condition.id)}
+          className="h-8 w-8 p-0"
+          title="Remove condition"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {condition.kind === 'numeric' ? (
+        <div className="flex items-center gap-2">
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => updateCondition(group.id, condition.id, current => ({ ...current, operator: operator as NumericOperator }))}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NUMERIC_OPERATORS.map(operator => (
+                <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            className="h-8 text-xs"
+            placeholder={condition.operator === 'between' ? `min ${fieldStats.ranges.get(condition.field)?.min ?? ''}` : 'value'}
+            value={condition.value ?? ''}
+            onChange={(e) => updateCondition(group.id, condition.id, current => ({ ...current, value: parseNumber(e.target.value) }))}
+          />
+          {condition.operator === 'between' && (
+            <Input
+              type="number"
+              className="h-8 text-xs"
+              placeholder={`max ${fieldStats.ranges.get(condition.field)?.max ?? ''}`}
+              value={condition.max ?? ''}
+              onChange={(e) => updateCondition(group.id, condition.id, current => ({ ...current, max: parseNumber(e.target.value) }))}
+            />
+          )}
+        </div>
+      ) : (
+        // Radix scroll areas need a fixed height to scroll, so only long value lists get one
+        <ScrollArea className={(fieldStats.categories.get(condition.field)?.length || 0) > 6 ? 'h-32' : ''}>
+          <div className="space-y-1 pr-3">
+            {(fieldStats.categories.get(condition.field) || []).map(value => (
+              <label key={value} className="flex items-center gap-2 text-xs cursor-pointer">
+                <Checkbox
+                  checked={condition.values.includes(value)}
+                  onCheckedChange={(checked) => toggleCategoryValue(group.id, condition.id, value, checked === true)}
+                />
+                {value}
+              </label>
+            ))}
+            {!fieldStats.categories.get(condition.field)?.length && (
+              <p className="text-xs text-muted-foreground">No values in this dataset</p>
+            )}
           </div>
-        )}
-
-        {/* Data Info */}
-        {geoJsonData?.features && (
-          <div className="text-sm text-muted-foreground space-y-1">
-            <p>Total zones: {geoJsonData.features.length}</p>
-            {availableFilters.properties.length > 0 && (
-              <details className="cursor-pointer">
-                <summary className="hover:text-foreground">Available properties:</summary>
-                <div className="mt-1 pl-2 text-xs">
-                  {availableFilters.properties.slice(0, 10).map(prop => (
-                    <div key={prop}>{prop}</div>
-                  ))}
-                  {availableFilters.properties.length > 10 && (
-                    <div>... and {availableFilters.properties.length - 10} more</div>
-                  )}
+        </ScrollArea>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="w-full">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="py-3">
+          <CardTitle className="flex items-center justify-between text-base">
+            <CollapsibleTrigger asChild>
+              <button className="flex items-center gap-2">
+                <Filter className="h-4 w-4" />
+                Filter Zones
+                {activeConditionCount > 0 && (
+                  <Badge variant="secondary" className="text-xs">{activeConditionCount} active</Badge>
+                )}
+                <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+              </button>
+            </CollapsibleTrigger>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters} className="h-7 px-2 text-xs">
+                Clear Filters
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            {/* Search */}
+            <div className="space-y-2">
+              <Label htmlFor="search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="search"
+                  placeholder="Search zones..."
+                  value={query.search}
+                  onChange={(e) => setQuery(prev => ({ ...prev, search: e.target.value }))}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+
+            {/* Condition groups */}
+            {query.groups.length > 1 && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Groups:</span>
+                {renderCombinator(query.combinator, (combinator) => setQuery(prev => ({ ...prev, combinator })), 'Match')}
+              </div>
+            )}
+
+            {query.groups.map((group, index) => (
+              <div key={group.id} className="space-y-2 rounded-lg bg-muted/40 p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Group {index + 1}</span>
+                  {renderCombinator(group.combinator, (combinator) => updateGroup(group.id, current => ({ ...current, combinator })), 'Match')}
                 </div>
-              </details>
+                {group.conditions.map(condition => renderCondition(group, condition))}
+                <Button variant="outline" size="sm" onClick={() => addCondition(group.id)} className="h-7 px-2 text-xs">
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add condition
+                </Button>
+              </div>
+            ))}
+
+            <Button variant="outline" onClick={addGroup} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Add condition group
+            </Button>
+
+            {/* Data Info */}
+            {geoJsonData?.features && (
+              <p className="text-sm text-muted-foreground">
+                {hasActiveFilters
+                  ? `Matching zones: ${filteredGeoJson?.features.length ?? 0} of ${geoJsonData.features.length}`
+                  : `Total zones: ${geoJsonData.features.length}`}
+              </p>
             )}
-          </div>
-        )}
-
-        {/* Clear Filters */}
-        {hasActiveFilters && (
-          <Button variant="outline" onClick={clearFilters} className="w-full">
-            Clear Filters
-          </Button>
-        )}
-      </CardContent>
+            {matchRollup && matchRollup.recordCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {(matchRollup.values.Ttl_Std ?? 0).toLocaleString()} students · {(matchRollup.values.pop ?? 0).toLocaleString()} population
+                {matchRollup.values.med_ncm != null && ` · $${Math.round(matchRollup.values.med_ncm).toLocaleString()} median income (population weighted)`}
+              </p>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
     </Card>
   );
 };
 
-export default FilterPanel;
\ No newline at end of file
+export default FilterPanel;
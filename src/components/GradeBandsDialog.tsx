@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_GRADE_BANDS, GRADE_LEVELS } from '@/utils/gradeBands';
+import type { ZoneNumericField } from '@/types/zones';
+import type { GradeBand } from '@/types/gradeBands';
+
+const UNASSIGNED = '__unassigned__';
+
+interface GradeBandsDialogProps {
+  open: boolean;
+  bands: GradeBand[];
+  onSave: (bands: GradeBand[]) => void;
+  onCancel: () => void;
+}
+
+const GradeBandsDialog: React.FC<GradeBandsDialogProps> = ({ open, bands, onSave, onCancel }) => {
+  const [draftBands, setDraftBands] = useState<GradeBand[]>(bands);
+
+  // Edit a copy so Cancel discards changes
+  useEffect(() => {
+    if (open) {
+      setDraftBands(bands);
+    }
+  }, [open, bands]);
+
+  const getBandId = (field: ZoneNumericField) =>
+    draftBands.find(band => band.grades.includes(field))?.id || UNASSIGNED;
+
+  // Each grade belongs to at most one band; grades keep their Pre-K to 12 order within a band
+  const assignGrade = (field: ZoneNumericField, bandId: string) => {
+    setDraftBands(prev => prev.map(band => {
+      const grades = band.grades.filter(grade => grade !== field);
+      if (band.id === bandId) {
+        grades.push(field);
+      }
+      return {
+        ...band,
+        grades: GRADE_LEVELS.map(level => level.field).filter(grade => grades.includes(grade)),
+      };
+    }));
+  };
+
+  const renameBand = (bandId: string, label: string) => {
+    setDraftBands(prev => prev.map(band => (band.id === bandId ? { ...band, label } : band)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Grade Bands
+          </DialogTitle>
+          <DialogDescription>
+            Group grade levels into bands for the ZIP charts and map coloring.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {draftBands.map(band => (
+            <div key={band.id} className="flex items-center gap-2">
+              <div className="h-3 w-3 rounded-sm shrink-0" style={{ backgroundColor: band.color }} />
+              <Input
+                value={band.label}
+                onChange={(e) => renameBand(band.id, e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <ScrollArea className="h-72 pr-3">
+          <div className="space-y-2">
+            {GRADE_LEVELS.map(level => (
+              <div key={level.field} className="grid grid-cols-[1fr_12rem] items-center gap-3 text-sm">
+                <span>{level.label}</span>
+                <Select value={getBandId(level.field)} onValueChange={(bandId) => assignGrade(level.field, bandId)}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>No band</SelectItem>
+                    {draftBands.map(band => (
+                      <SelectItem key={band.id} value={band.id}>{band.label || 'Untitled band'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraftBands(DEFAULT_GRADE_BANDS)} className="mr-auto">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSave(draftBands)} disabled={draftBands.some(band => !band.label.trim())}>
+            Save Bands
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GradeBandsDialog;
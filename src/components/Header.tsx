@@ -1,12 +1,30 @@
 import React from 'react';
 import { MapPin, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import DatasetSwitcher from './DatasetSwitcher';
+import type { DatasetMetadata } from '@/types/datasets';
 
 interface HeaderProps {
   zoneCount?: number;
+  datasets?: DatasetMetadata[];
+  activeDatasetId?: string | null;
+  onDatasetSelect?: (id: string) => void;
+  onDatasetDelete?: (id: string) => void;
+  storageEstimate?: { usage: number; quota: number } | null;
+  onCheckPublicData?: () => void;
+  isCheckingPublicData?: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ zoneCount = 0 }) => {
+const Header: React.FC<HeaderProps> = ({
+  zoneCount = 0,
+  datasets = [],
+  activeDatasetId = null,
+  onDatasetSelect,
+  onDatasetDelete,
+  storageEstimate = null,
+  onCheckPublicData,
+  isCheckingPublicData = false,
+}) => {
   return (
     <header className="bg-card border-b border-border shadow-soft">
       <div className="container mx-auto px-4 py-4">
@@ -31,6 +49,17 @@ const Header: React.FC<HeaderProps> = ({ zoneCount = 0 }) => {
                 <span className="font-medium text-foreground">{zoneCount}</span> zones loaded
               </div>
             )}
+            {onDatasetSelect && onDatasetDelete && (
+              <DatasetSwitcher
+                datasets={datasets}
+                activeDatasetId={activeDatasetId}
+                onSelect={onDatasetSelect}
+                onDelete={onDatasetDelete}
+                storageEstimate={storageEstimate}
+                onCheckPublicData={onCheckPublicData}
+                isCheckingPublicData={isCheckingPublicData}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { PublicDataReport, ShapefileComponent } from '@/utils/publicData';
+
+interface LoaderReportProps {
+  report: PublicDataReport;
+}
+
+const COMPONENT_ORDER: ShapefileComponent[] = ['shp', 'dbf', 'shx', 'prj', 'cpg'];
+
+const formatCount = (count: number | null) => (count == null ? 'n/a' : count.toLocaleString());
+
+const LoaderReport: React.FC<LoaderReportProps> = ({ report }) => {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {COMPONENT_ORDER.map(component => (
+          <Badge
+            key={component}
+            variant={report.components[component] ? 'secondary' : 'outline'}
+            className="flex items-center gap-1 text-xs"
+          >
+            {report.components[component]
+              ? <CheckCircle2 className="h-3 w-3 text-green-600" />
+              : <XCircle className="h-3 w-3 text-destructive" />}
+            .{component}
+          </Badge>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <dt className="text-muted-foreground">DBF records</dt>
+        <dd>{formatCount(report.dbfRecordCount)}</dd>
+        <dt className="text-muted-foreground">SHX index records</dt>
+        <dd>{formatCount(report.shxRecordCount)}</dd>
+        <dt className="text-muted-foreground">Encoding</dt>
+        <dd>{report.encoding} {report.encodingSource === 'default' && <span className="text-muted-foreground">(default)</span>}</dd>
+        <dt className="text-muted-foreground">Projection</dt>
+        <dd className="truncate" title={report.projection || undefined}>{report.projection || 'Not specified'}</dd>
+      </dl>
+
+      {report.issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {report.issues.map(issue => (
+            <li key={issue} className="flex items-start gap-2">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0 text-amber-600" />
+              <span>{issue}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LoaderReport;
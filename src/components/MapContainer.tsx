@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card } from '@/components/ui/card';
+import type { ZoneCollection, ZoneFeature } from '@/types/zones';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -12,8 +13,8 @@ L.Icon.Default.mergeOptions({
 });
 
 interface MapContainerProps {
-  geoJsonData?: any;
-  onFeatureClick?: (feature: any) => void;
+  geoJsonData?: ZoneCollection | null;
+  onFeatureClick?: (feature: ZoneFeature) => void;
 }
 
 const MapContainer: React.FC<MapContainerProps> = ({ geoJsonData, onFeatureClick }) => {
@@ -72,7 +73,7 @@ const MapContainer: React.FC<MapContainerProps> = ({ geoJsonData, onFeatureClick
         
         // Add click handler
         layer.on('click', () => {
-          onFeatureClick?.(feature);
+          onFeatureClick?.(feature as ZoneFeature);
         });
 
         // Add hover effects
@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Position } from 'geojson';
+import { Circle, Lasso, Pentagon, Square, X, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { circleToRing, rectangleToRing } from '@/utils/spatialSelection';
+import { METERS_PER_MILE } from '@/utils/geometry';
+import type { DrawTool, SpatialMatchMode } from '@/types/spatialSelection';
+
+interface MapDrawToolsProps {
+  mapRef: React.MutableRefObject<L.Map | null>;
+  /** Called with the finished shape as a closed [lng, lat] ring */
+  onShapeDrawn: (ring: Position[], mode: SpatialMatchMode) => void;
+}
+
+const DRAW_TOOLS: { value: DrawTool; label: string; icon: LucideIcon; hint: string }[] = [
+  { value: 'lasso', label: 'Lasso', icon: Lasso, hint: 'Drag around the zones to select' },
+  { value: 'rectangle', label: 'Rectangle', icon: Square, hint: 'Drag a box over the zones' },
+  { value: 'circle', label: 'Radius', icon: Circle, hint: 'Drag out from the center point' },
+  { value: 'polygon', label: 'Polygon', icon: Pentagon, hint: 'Click to add points; double-click, Enter or click the first point to finish' },
+];
+
+const SHAPE_STYLE: L.PathOptions = { color: '#7c3aed', weight: 2, dashArray: '5 5', fillOpacity: 0.1, interactive: false };
+
+// Lasso points closer than this many pixels add nothing but vertices to test
+const LASSO_MIN_PIXELS = 5;
+// Clicking this close to the first polygon point closes the shape
+const CLOSE_PIXELS = 10;
+
+const toPosition = (latLng: L.LatLng): Position => [latLng.lng, latLng.lat];
+
+/**
+ * Drawing tools over the overview map. While a tool is active, a transparent overlay takes the pointer so
+ * the map neither pans nor toggles zones under the stroke.
+ */
+const MapDrawTools: React.FC<MapDrawToolsProps> = ({ mapRef, onShapeDrawn }) => {
+  const [tool, setTool] = useState<DrawTool | null>(null);
+  const [mode, setMode] = useState<SpatialMatchMode>('intersect');
+  const [points, setPoints] = useState<L.LatLng[]>([]);
+  const [cursor, setCursor] = useState<L.LatLng | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const previewLayerRef = useRef<L.Layer | null>(null);
+  const isDraggingRef = useRef(false);
+
+  const reset = useCallback(() => {
+    isDraggingRef.current = false;
+    setPoints([]);
+    setCursor(null);
+  }, []);
+
+  const toLatLng = (event: React.PointerEvent | React.MouseEvent): L.LatLng | null => {
+    const map = mapRef.current;
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!map || !rect) return null;
+    return map.containerPointToLatLng(L.point(event.clientX - rect.left, event.clientY - rect.top));
+  };
+
+  const finish = useCallback((shapePoints: L.LatLng[], end: L.LatLng | null) => {
+    const map = mapRef.current;
+    let ring: Position[] | null = null;
+
+    if ((tool === 'rectangle' || tool === 'circle') && shapePoints[0] && end && !shapePoints[0].equals(end)) {
+      ring = tool === 'rectangle'
+        ? rectangleToRing(toPosition(shapePoints[0]), toPosition(end))
+        : circleToRing(toPosition(shapePoints[0]), map.distance(shapePoints[0], end));
+    } else if (tool === 'lasso' || tool === 'polygon') {
+      // A double-click adds its point twice
+      const distinct = shapePoints.filter((point, index) => index === 0 || !point.equals(shapePoints[index - 1]));
+      if (distinct.length >= 3) {
+        ring = [...distinct, distinct[0]].map(toPosition);
+      }
+    }
+
+    if (ring) {
+      onShapeDrawn(ring, mode);
+    }
+    reset();
+    setTool(null);
+  }, [mapRef, tool, mode, onShapeDrawn, reset]);
+
+  // Escape abandons the shape; Enter closes a polygon
+  useEffect(() => {
+    if (!tool) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        reset();
+        setTool(null);
+      } else if (event.key === 'Enter' && tool === 'polygon') {
+        finish(points, null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tool, points, finish, reset]);
+
+  // Redraw the shape in progress
+  useEffect(() => {
+    const map = mapRef.current;
+    if (previewLayerRef.current) {
+      previewLayerRef.current.remove();
+      previewLayerRef.current = null;
+    }
+    if (!map || !tool || points.length === 0) return;
+
+    const end = cursor || points[points.length - 1];
+    if (tool === 'rectangle') {
+      previewLayerRef.current = L.rectangle(L.latLngBounds(points[0], end), SHAPE_STYLE);
+    } else if (tool === 'circle') {
+      previewLayerRef.current = L.circle(points[0], { ...SHAPE_STYLE, radius: map.distance(points[0], end) });
+    } else if (tool === 'lasso') {
+      previewLayerRef.current = L.polygon(points, SHAPE_STYLE);
+    } else {
+      previewLayerRef.current = L.polygon(cursor ? [...points, cursor] : points, SHAPE_STYLE);
+    }
+    previewLayerRef.current.addTo(map);
+  }, [mapRef, tool, points, cursor]);
+
+  useEffect(() => () => {
+    previewLayerRef.current?.remove();
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    const latLng = toLatLng(event);
+    const map = mapRef.current;
+    if (!latLng || !map || event.button !== 0) return;
+
+    if (tool === 'polygon') {
+      const first = points[0];
+      if (points.length >= 3 && map.latLngToContainerPoint(first).distanceTo(map.latLngToContainerPoint(latLng)) <= CLOSE_PIXELS) {
+        finish(points, null);
+      } else {
+        setPoints(prev => [...prev, latLng]);
+      }
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    isDraggingRef.current = true;
+    setPoints([latLng]);
+    setCursor(latLng);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const latLng = toLatLng(event);
+    const map = mapRef.current;
+    if (!latLng || !map) return;
+
+    setCursor(latLng);
+    if (tool === 'lasso' && isDraggingRef.current) {
+      setPoints(prev => {
+        const last = prev[prev.length - 1];
+        return last && map.latLngToContainerPoint(last).distanceTo(map.latLngToContainerPoint(latLng)) < LASSO_MIN_PIXELS
+          ? prev
+          : [...prev, latLng];
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!isDraggingRef.current) return;
+    finish(points, toLatLng(event));
+  };
+
+  const activeTool = DRAW_TOOLS.find(option => option.value === tool);
+  const radiusMiles = tool === 'circle' && points[0] && cursor && mapRef.current
+    ? mapRef.current.distance(points[0], cursor) / METERS_PER_MILE
+    : null;
+
+  return (
+    <>
+      {tool && (
+        <div
+          ref={overlayRef}
+          className="absolute inset-0 z-[500] cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onDoubleClick={() => tool === 'polygon' && finish(points, null)}
+        />
+      )}
+      <div className="absolute top-2 right-2 z-[500] space-y-1 rounded-md border bg-white/90 p-1 text-xs shadow-sm">
+        <div className="flex items-center gap-1">
+          {DRAW_TOOLS.map(option => (
+            <Button
+              key={option.value}
+              variant={tool === option.value ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 w-7 p-0"
+              title={option.label}
+              onClick={() => {
+                reset();
+                setTool(tool === option.value ? null : option.value);
+              }}
+            >
+              <option.icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="mx-1 h-5 border-l" />
+          {(['intersect', 'within'] as SpatialMatchMode[]).map(value => (
+            <Button
+              key={value}
+              variant={mode === value ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs capitalize"
+              title={value === 'intersect' ? 'Select zones touching the shape' : 'Select zones entirely inside the shape'}
+              onClick={() => setMode(value)}
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+        {activeTool && (
+          <div className="flex items-center justify-between gap-2 px-1 text-muted-foreground">
+            <span>
+              {activeTool.hint}
+              {radiusMiles != null && ` - ${radiusMiles.toFixed(2)} mi`}
+            </span>
+            <button type="button" title="Cancel (Esc)" onClick={() => { reset(); setTool(null); }}>
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default MapDrawTools;
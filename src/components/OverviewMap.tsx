@@ -1,12 +1,13 @@
-import React, { useEffect, useRef, useState, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { MapPin, Search, X, BarChart3, Eye, Calculator } from 'lucide-react';
+import { MapPin, Search, X, BarChart3, Eye, Calculator, Columns3 } from 'lucide-react';
 import {
     ChartContainer,
     ChartLegend,
@@ -15,6 +16,33 @@ import {
     ChartTooltipContent,
 } from '@/components/ui/chart';
 import { BarChart as ReBarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { ZONE_NUMERIC_FIELDS, type ZoneCollection, type ZoneFeature, type ZoneNumericField } from '@/types/zones';
+import { FIELD_ROLES } from '@/utils/fieldMapping';
+import { computeDerivedValues, formatDerivedValue, getNumericFieldLabel, getNumericValue, isDerivedKey, toDerivedKey } from '@/utils/derivedFields';
+import { rollUpZones } from '@/utils/aggregation';
+import type { DerivedField, NumericFieldKey } from '@/types/derivedFields';
+import type { ZoneRollup } from '@/types/aggregation';
+import type { GradeBand } from '@/types/gradeBands';
+import { GRADE_LEVELS, getBandTotal } from '@/utils/gradeBands';
+import { getRaceComposition } from '@/utils/demographics';
+import DemographicsPanel from './DemographicsPanel';
+import MapDrawTools from './MapDrawTools';
+import TradeAreaPanel from './TradeAreaPanel';
+import { MAX_COMPARISON_ZIPS, MIN_COMPARISON_ZIPS } from '@/utils/comparison';
+import { dissolveOutline, getTerritoryFeatures } from '@/utils/territories';
+import type { Territory } from '@/types/territories';
+import type { Position } from 'geojson';
+import type { MapView } from '@/types/viewState';
+import type { SpatialMatchMode } from '@/types/spatialSelection';
+import { findZipsInShape } from '@/utils/spatialSelection';
+import {
+    CLASSIFICATION_METHODS,
+    classifyValues,
+    formatBreak,
+    getClassIndex,
+    type ClassificationMethod,
+} from '@/utils/classification';
+import { BIVARIATE_COLORS, COLOR_RAMPS, getRampColors, type ColorRampName } from '@/utils/colorRamps';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -25,25 +53,142 @@ L.Icon.Default.mergeOptions({
 });
 
 interface OverviewMapProps {
-    geoJsonData?: any;
+    geoJsonData?: ZoneCollection | null;
+    derivedFields?: DerivedField[];
+    gradeBands?: GradeBand[];
     onZipSelect?: (zipCode: string) => void;
+    /** Open the selected ZIPs in the comparison workspace */
+    onCompareZips?: (zips: string[]) => void;
+    /** Multi-selection kept by the parent, so it survives tab switches and can be set from other views */
+    initialSelectedZips?: string[];
+    onSelectionChange?: (zips: string[]) => void;
+    /** Center and zoom to show; null fits the map to the data */
+    mapView?: MapView | null;
+    /** Called after the user pans or zooms */
+    onViewChange?: (view: MapView) => void;
+    /** Saved territories, drawn as outlines over the zones */
+    territories?: Territory[];
+}
+
+interface OverviewZipSummary {
+    zip: string;
+    totalStudents: number;
+    totalPopulation: number;
+    totalFemale: number;
+    totalMale: number;
+    count: number;
+    schools: number;
+    features: ZoneFeature[];
+    /** Every numeric field rolled up by its aggregation rule */
+    processedTotals: Map<ZoneNumericField, number>;
+}
+
+const summarizeRollup = (rollup: ZoneRollup): Omit<OverviewZipSummary, 'zip' | 'features'> => ({
+    totalStudents: (rollup.values.Female ?? 0) + (rollup.values.Male ?? 0),
+    totalPopulation: rollup.values.pop ?? 0,
+    totalFemale: rollup.values.Female ?? 0,
+    totalMale: rollup.values.Male ?? 0,
+    count: rollup.recordCount,
+    schools: rollup.values.Schl_Cn ?? 0,
+    processedTotals: new Map(
+        ZONE_NUMERIC_FIELDS
+            .filter(field => rollup.values[field] != null)
+            .map(field => [field, rollup.values[field]!] as [ZoneNumericField, number])
+    ),
+});
+
+interface ChoroplethSettings {
+    /** Single-variable classes, or a 3x3 grid crossing field (x) with secondaryField (y) */
+    mode: 'single' | 'bivariate';
+    field: NumericFieldKey;
+    /** Computed metric that replaces field as the primary value: a grade band's enrollment or the diversity index */
+    metric: string | null;
+    secondaryField: NumericFieldKey;
+    method: ClassificationMethod;
+    classCount: number;
+    ramp: ColorRampName;
 }
 
-const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) => {
+const NO_DATA_COLOR = '#94a3b8';
+const CLASS_COUNTS = [3, 4, 5, 6, 7, 8, 9];
+// Select value for coloring by the chosen field rather than a computed metric
+const NO_METRIC = '__field__';
+const DIVERSITY_METRIC = 'diversity';
+const toBandMetric = (bandId: string) => `band:${bandId}`;
+const TERRITORY_PANE = 'territories';
+// Bivariate maps split each variable into tertiles
+const BIVARIATE_CLASS_COUNT = 3;
+
+// Numeric roles grouped as in the field mapping, for the symbology field picker
+const NUMERIC_ROLE_GROUPS = FIELD_ROLES.reduce((groups, definition) => {
+    if (!(ZONE_NUMERIC_FIELDS as string[]).includes(definition.role)) return groups;
+    const group = groups.find(([name]) => name === definition.group);
+    if (group) {
+        group[1].push(definition);
+    } else {
+        groups.push([definition.group, [definition]]);
+    }
+    return groups;
+}, [] as [string, typeof FIELD_ROLES][]);
+
+const OverviewMap: React.FC<OverviewMapProps> = ({
+    geoJsonData,
+    derivedFields = [],
+    gradeBands = [],
+    onZipSelect,
+    onCompareZips,
+    initialSelectedZips,
+    onSelectionChange,
+    mapView = null,
+    onViewChange,
+    territories = [],
+}) => {
     const mapRef = useRef<HTMLDivElement>(null);
     const mapInstanceRef = useRef<L.Map | null>(null);
     const geoJsonLayerRef = useRef<L.GeoJSON | null>(null);
+    const territoryLayerRef = useRef<L.LayerGroup | null>(null);
+
+    // Callbacks are read through refs so a new function from the parent doesn't rebuild the zone layer
+    const onZipSelectRef = useRef(onZipSelect);
+    const onViewChangeRef = useRef(onViewChange);
+    onZipSelectRef.current = onZipSelect;
+    onViewChangeRef.current = onViewChange;
+    // A view restored from a link wins over fitting the first layer to the data
+    const skipFitRef = useRef(!!mapView);
 
     // Multi-select state
-    const [selectedZips, setSelectedZips] = useState<string[]>([]);
+    const [selectedZips, setSelectedZips] = useState<string[]>(initialSelectedZips || []);
     const [searchTerm, setSearchTerm] = useState('');
     const [showAggregatedView, setShowAggregatedView] = useState(false);
+    const [tradeAreaCenter, setTradeAreaCenter] = useState<[number, number] | null>(null);
+    const [isPickingTradeArea, setIsPickingTradeArea] = useState(false);
 
     // Performance optimization state
     const [currentZoom, setCurrentZoom] = useState(6);
     const [showLabels, setShowLabels] = useState(false);
     const [performanceMode, setPerformanceMode] = useState<'high' | 'medium' | 'low'>('medium');
 
+    // Choropleth symbology
+    const [choropleth, setChoropleth] = useState<ChoroplethSettings>({
+        mode: 'single',
+        field: 'Ttl_Std',
+        metric: null,
+        secondaryField: 'med_ncm',
+        method: 'quantile',
+        classCount: 5,
+        ramp: 'YlOrRd',
+    });
+
+    useEffect(() => {
+        if (initialSelectedZips) {
+            setSelectedZips(initialSelectedZips);
+        }
+    }, [initialSelectedZips]);
+
+    useEffect(() => {
+        onSelectionChange?.(selectedZips);
+    }, [selectedZips, onSelectionChange]);
+
     useEffect(() => {
         if (!mapRef.current) return;
 
@@ -75,8 +220,8 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
         });
 
         map.on('moveend', () => {
-            // Could implement viewport-based loading here
-            console.log('Map moved, current bounds:', map.getBounds());
+            const center = map.getCenter();
+            onViewChangeRef.current?.({ center: [center.lat, center.lng], zoom: map.getZoom() });
         });
 
         mapInstanceRef.current = map;
@@ -86,70 +231,24 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
         };
     }, []);
 
-    // Process ZIP summaries for search and aggregation (optimized)
+    // Process ZIP summaries for search and aggregation
     const zipSummaries = useMemo(() => {
-        if (!geoJsonData?.features) return new Map();
-
-        const summaries = new Map();
-        const batchSize = 1000; // Process in batches to avoid blocking UI
-
-        // Use requestIdleCallback for non-blocking processing
-        const processFeatures = (features: any[]) => {
-            for (let i = 0; i < features.length; i += batchSize) {
-                const batch = features.slice(i, i + batchSize);
-
-                batch.forEach((feature: any) => {
-                    const props = feature.properties || {};
-                    const zip = props.Zip || props.ZIP || props.zipcode;
-
-                    if (!zip) return;
-
-                    if (!summaries.has(zip)) {
-                        summaries.set(zip, {
-                            zip,
-                            totalStudents: 0,
-                            totalPopulation: 0,
-                            totalFemale: 0,
-                            totalMale: 0,
-                            count: 0,
-                            schools: 0,
-                            features: [],
-                            processedTotals: new Map()
-                        });
-                    }
-
-                    const zipInfo = summaries.get(zip);
-                    zipInfo.features.push(feature);
-                    zipInfo.count++;
-
-                    // Optimize numeric parsing with correct field names
-                    const female = +(props.Female || 0);
-                    const male = +(props.Male || 0);
-                    const totalStudents = female + male; // Calculate from actual student counts
-                    const population = +(props.pop || 0);
-
-                    zipInfo.totalFemale += female;
-                    zipInfo.totalMale += male;
-                    zipInfo.totalStudents += totalStudents;
-                    zipInfo.totalPopulation += population;
-                    zipInfo.schools += +(props.Schl_Cn || 0);
-
-                    // Only process essential numeric fields for performance
-                    const essentialFields = ['Pre_K', 'KG', 'Grade_1', 'Grade_2', 'Grade_3', 'Stdnt_R'];
-                    essentialFields.forEach(key => {
-                        const numValue = +(props[key] || 0);
-                        if (numValue >= 0) {
-                            if (!zipInfo.processedTotals.has(key)) {
-                                zipInfo.processedTotals.set(key, 0);
-                            }
-                            zipInfo.processedTotals.set(key, zipInfo.processedTotals.get(key) + numValue);
-                        }
-                    });
-                });
+        const summaries = new Map<string, OverviewZipSummary>();
+        if (!geoJsonData?.features) return summaries;
+
+        const featuresByZip = new Map<string, ZoneFeature[]>();
+        geoJsonData.features.forEach(feature => {
+            const zip = feature.properties.Zip;
+            if (!zip) return;
+            if (!featuresByZip.has(zip)) {
+                featuresByZip.set(zip, []);
             }
-        };
+            featuresByZip.get(zip)!.push(feature);
+        });
 
-        processFeatures(geoJsonData.features);
+        featuresByZip.forEach((features, zip) => {
+            summaries.set(zip, { zip, features, ...summarizeRollup(rollUpZones(features.map(feature => feature.properties))) });
+        });
         return summaries;
     }, [geoJsonData]);
 
@@ -163,43 +262,149 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
         );
     }, [zipSummaries, searchTerm]);
 
-    // Calculate aggregated data for selected ZIPs
+    // Roll up the records of the selected ZIPs with the same rules as a single ZIP
     const aggregatedData = useMemo(() => {
         if (selectedZips.length === 0) return null;
 
-        const aggregated = {
+        const records = selectedZips.flatMap(zip => (zipSummaries.get(zip)?.features || []).map(feature => feature.properties));
+        const rollup = rollUpZones(records);
+        const summary = summarizeRollup(rollup);
+
+        return {
             zips: selectedZips,
-            totalStudents: 0,
-            totalPopulation: 0,
-            totalFemale: 0,
-            totalMale: 0,
-            totalRecords: 0,
-            totalSchools: 0,
-            processedTotals: new Map()
+            totalStudents: summary.totalStudents,
+            totalPopulation: summary.totalPopulation,
+            totalFemale: summary.totalFemale,
+            totalMale: summary.totalMale,
+            totalRecords: summary.count,
+            totalSchools: summary.schools,
+            processedTotals: summary.processedTotals,
+            derivedValues: computeDerivedValues(rollup.values, derivedFields),
         };
+    }, [selectedZips, zipSummaries, derivedFields]);
 
-        selectedZips.forEach(zip => {
-            const zipData = zipSummaries.get(zip);
-            if (zipData) {
-                aggregated.totalStudents += zipData.totalStudents;
-                aggregated.totalPopulation += zipData.totalPopulation;
-                aggregated.totalFemale += zipData.totalFemale;
-                aggregated.totalMale += zipData.totalMale;
-                aggregated.totalRecords += zipData.count;
-                aggregated.totalSchools += Math.round(zipData.schools / zipData.count) || 0;
-
-                // Aggregate processed totals
-                zipData.processedTotals.forEach((value, key) => {
-                    if (!aggregated.processedTotals.has(key)) {
-                        aggregated.processedTotals.set(key, 0);
-                    }
-                    aggregated.processedTotals.set(key, aggregated.processedTotals.get(key) + value);
-                });
+    // Fall back to the default fields when a derived field being mapped is deleted
+    useEffect(() => {
+        const exists = (field: NumericFieldKey) =>
+            !isDerivedKey(field) || derivedFields.some(derived => toDerivedKey(derived.id) === field);
+        setChoropleth(prev => (exists(prev.field) && exists(prev.secondaryField)
+            ? prev
+            : {
+                ...prev,
+                field: exists(prev.field) ? prev.field : 'Ttl_Std',
+                secondaryField: exists(prev.secondaryField) ? prev.secondaryField : 'med_ncm',
+            }));
+    }, [derivedFields]);
+
+    const activeBand = useMemo(
+        () => gradeBands.find(band => toBandMetric(band.id) === choropleth.metric) || null,
+        [gradeBands, choropleth.metric]
+    );
+
+    // Simpson's index over each ZIP's rolled-up race/ethnicity counts
+    const zipDiversity = useMemo(() => {
+        const indexes = new Map<string, number | null>();
+        zipSummaries.forEach((summary, zip) => {
+            indexes.set(zip, getRaceComposition(Object.fromEntries(summary.processedTotals)).diversityIndex);
+        });
+        return indexes;
+    }, [zipSummaries]);
+
+    const getPrimaryValue = useCallback((feature: ZoneFeature) => {
+        if (choropleth.metric === DIVERSITY_METRIC) return zipDiversity.get(feature.properties.Zip) ?? null;
+        if (activeBand) return getBandTotal(feature.properties, activeBand);
+        return getNumericValue(feature, choropleth.field);
+    }, [choropleth.metric, choropleth.field, activeBand, zipDiversity]);
+
+    // Class breaks for the symbolized field; each polygon is colored by its own record's value
+    const classification = useMemo(() => {
+        const getValues = (getValue: (feature: ZoneFeature) => number | null) => (geoJsonData?.features || [])
+            .map(getValue)
+            .filter((value): value is number => value != null);
+
+        if (choropleth.mode === 'bivariate') {
+            return {
+                breaks: classifyValues(getValues(getPrimaryValue), 'quantile', BIVARIATE_CLASS_COUNT),
+                secondaryBreaks: classifyValues(getValues(feature => getNumericValue(feature, choropleth.secondaryField)), 'quantile', BIVARIATE_CLASS_COUNT),
+                colors: [] as string[],
+            };
+        }
+
+        const breaks = classifyValues(getValues(getPrimaryValue), choropleth.method, choropleth.classCount);
+        return { breaks, secondaryBreaks: [] as number[], colors: getRampColors(choropleth.ramp, Math.max(breaks.length - 1, 1)) };
+    }, [geoJsonData, choropleth, getPrimaryValue]);
+
+    // Grid cell of a zone in bivariate mode, or null when either value is missing
+    const getBivariateCell = useCallback((feature: ZoneFeature) => {
+        const x = getPrimaryValue(feature);
+        const y = getNumericValue(feature, choropleth.secondaryField);
+        if (x == null || y == null || classification.breaks.length === 0 || classification.secondaryBreaks.length === 0) {
+            return null;
+        }
+        return { x: getClassIndex(x, classification.breaks), y: getClassIndex(y, classification.secondaryBreaks) };
+    }, [getPrimaryValue, choropleth.secondaryField, classification]);
+
+    // ZIPs in each bivariate legend cell, keyed "x-y"
+    const bivariateCellZips = useMemo(() => {
+        const cells = new Map<string, Set<string>>();
+        if (choropleth.mode !== 'bivariate') return cells;
+
+        (geoJsonData?.features || []).forEach(feature => {
+            const cell = getBivariateCell(feature);
+            if (!cell || !feature.properties.Zip) return;
+            const key = `${cell.x}-${cell.y}`;
+            if (!cells.has(key)) {
+                cells.set(key, new Set());
             }
+            cells.get(key)!.add(feature.properties.Zip);
         });
+        return cells;
+    }, [choropleth.mode, geoJsonData, getBivariateCell]);
+
+    const selectBivariateCell = (x: number, y: number) => {
+        const zips = Array.from(bivariateCellZips.get(`${x}-${y}`) || []);
+        console.log(`🎯 Selecting ${zips.length} ZIPs from bivariate cell ${x}-${y}`);
+        setSelectedZips(zips);
+    };
+
+    // Drawn shapes add to the selection rather than replacing it, so several areas can be combined
+    const selectZipsInShape = useCallback((ring: Position[], mode: SpatialMatchMode) => {
+        const zips = findZipsInShape(geoJsonData?.features || [], ring, mode);
+        console.log(`✏️ Selecting ${zips.length} ZIPs in drawn shape (${mode})`);
+        setSelectedZips(prev => [...prev, ...zips.filter(zip => !prev.includes(zip))]);
+    }, [geoJsonData]);
 
-        return aggregated;
-    }, [selectedZips, zipSummaries]);
+    // Picking goes through an overlay, so the click doesn't also toggle the zone underneath
+    const pickTradeAreaCenter = (event: React.MouseEvent<HTMLDivElement>) => {
+        const map = mapInstanceRef.current;
+        if (!map) return;
+        const rect = event.currentTarget.getBoundingClientRect();
+        const latLng = map.containerPointToLatLng(L.point(event.clientX - rect.left, event.clientY - rect.top));
+        setTradeAreaCenter([latLng.lat, latLng.lng]);
+        setIsPickingTradeArea(false);
+    };
+
+    const getZoneStyle = useCallback((feature: ZoneFeature) => {
+        const isSelected = selectedZips.includes(feature.properties.Zip);
+        let fillColor = NO_DATA_COLOR;
+        if (choropleth.mode === 'bivariate') {
+            const cell = getBivariateCell(feature);
+            if (cell) fillColor = BIVARIATE_COLORS[cell.y][cell.x];
+        } else {
+            const value = getPrimaryValue(feature);
+            if (value != null && classification.breaks.length > 0) {
+                fillColor = classification.colors[getClassIndex(value, classification.breaks)];
+            }
+        }
+
+        return {
+            color: isSelected ? '#7c3aed' : 'hsl(211, 84%, 32%)',
+            weight: isSelected ? 4 : 2,
+            opacity: 1,
+            fillColor: isSelected ? '#a855f7' : fillColor,
+            fillOpacity: isSelected ? 0.8 : 0.6,
+        };
+    }, [choropleth.mode, getPrimaryValue, classification, getBivariateCell, selectedZips]);
 
     useEffect(() => {
         if (!mapInstanceRef.current || !geoJsonData) return;
@@ -223,32 +428,9 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
 
         // Add GeoJSON layer with all ZIP codes
         const layer = L.geoJSON(geoJsonData, {
-            style: (feature) => {
-                const props = feature?.properties || {};
-                const zip = props.Zip || props.ZIP || props.zipcode;
-                const zipInfo = zipSummaries.get(zip);
-                const isSelected = selectedZips.includes(zip);
-
-                // Color based on selection and population size
-                let fillColor = '#94a3b8'; // default gray
-                if (zipInfo && zipInfo.totalStudents > 0) {
-                    if (zipInfo.totalStudents > 5000) fillColor = '#dc2626'; // red for high
-                    else if (zipInfo.totalStudents > 3000) fillColor = '#ea580c'; // orange
-                    else if (zipInfo.totalStudents > 1000) fillColor = '#d97706'; // amber
-                    else fillColor = '#16a34a'; // green for low
-                }
-
-                return {
-                    color: isSelected ? '#7c3aed' : 'hsl(211, 84%, 32%)',
-                    weight: isSelected ? 4 : 2,
-                    opacity: 1,
-                    fillColor: isSelected ? '#a855f7' : fillColor,
-                    fillOpacity: isSelected ? 0.8 : 0.6,
-                };
-            },
+            style: (feature) => getZoneStyle(feature as ZoneFeature),
             onEachFeature: (feature, layer) => {
-                const props = feature.properties || {};
-                const zip = props.Zip || props.ZIP || props.zipcode;
+                const zip = (feature as ZoneFeature).properties.Zip;
                 const zipInfo = zipSummaries.get(zip);
 
                 if (!zipInfo) {
@@ -357,7 +539,9 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
 
         // Fit map to show all data
         const bounds = layer.getBounds();
-        if (bounds.isValid()) {
+        if (skipFitRef.current) {
+            skipFitRef.current = false;
+        } else if (bounds.isValid()) {
             mapInstanceRef.current.fitBounds(bounds, {
                 padding: [20, 20],
                 maxZoom: 10 // Don't zoom in too much for overview
@@ -366,45 +550,95 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
 
         // Add global function for popup button clicks
         (window as any).selectZip = (zipCode: string) => {
-            if (onZipSelect) {
-                onZipSelect(zipCode);
+            if (onZipSelectRef.current) {
+                onZipSelectRef.current(zipCode);
             }
         };
 
-    }, [geoJsonData, onZipSelect, zipSummaries]);
+    }, [geoJsonData, zipSummaries]);
+
+    // Follow view changes from outside, such as back/forward; the map's own moves already match
+    useEffect(() => {
+        const map = mapInstanceRef.current;
+        if (!map || !mapView) return;
+
+        const center = map.getCenter();
+        const isSameView = map.getZoom() === mapView.zoom
+            && Math.abs(center.lat - mapView.center[0]) < 1e-4
+            && Math.abs(center.lng - mapView.center[1]) < 1e-4;
+        if (!isSameView) {
+            map.setView(mapView.center, mapView.zoom, { animate: false });
+        }
+    }, [mapView]);
 
-    // Separate effect to update styles when selection changes (doesn't recreate layer)
+    // Separate effect to update styles when selection or symbology changes (doesn't recreate layer)
     useEffect(() => {
         if (!geoJsonLayerRef.current) return;
 
-        // Update styles for all features without recreating the layer
         geoJsonLayerRef.current.eachLayer((layer: any) => {
             if (layer.feature) {
-                const props = layer.feature.properties || {};
-                const zip = props.Zip || props.ZIP || props.zipcode;
-                const zipInfo = zipSummaries.get(zip);
-                const isSelected = selectedZips.includes(zip);
-
-                // Color based on selection and population size
-                let fillColor = '#94a3b8'; // default gray
-                if (zipInfo && zipInfo.totalStudents > 0) {
-                    if (zipInfo.totalStudents > 5000) fillColor = '#dc2626'; // red for high
-                    else if (zipInfo.totalStudents > 3000) fillColor = '#ea580c'; // orange
-                    else if (zipInfo.totalStudents > 1000) fillColor = '#d97706'; // amber
-                    else fillColor = '#16a34a'; // green for low
-                }
-
-                layer.setStyle({
-                    color: isSelected ? '#7c3aed' : 'hsl(211, 84%, 32%)',
-                    weight: isSelected ? 4 : 2,
-                    opacity: 1,
-                    fillColor: isSelected ? '#a855f7' : fillColor,
-                    fillOpacity: isSelected ? 0.8 : 0.6,
-                });
+                layer.setStyle(getZoneStyle(layer.feature as ZoneFeature));
             }
         });
 
-    }, [selectedZips, zipSummaries]);
+    }, [getZoneStyle]);
+
+    // Territory outlines live in their own pane above the zones, so recreating the zone layer keeps them on top
+    useEffect(() => {
+        const map = mapInstanceRef.current;
+        if (!map || !geoJsonData) return;
+
+        if (!map.getPane(TERRITORY_PANE)) {
+            const pane = map.createPane(TERRITORY_PANE);
+            pane.style.zIndex = '450';
+            pane.style.pointerEvents = 'none';
+        }
+
+        if (territoryLayerRef.current) {
+            map.removeLayer(territoryLayerRef.current);
+        }
+        territoryLayerRef.current = L.layerGroup(territories.flatMap(territory => {
+            const outline = dissolveOutline(getTerritoryFeatures(geoJsonData.features, territory));
+            if (!outline) return [];
+            return [L.geoJSON(outline, {
+                pane: TERRITORY_PANE,
+                interactive: false,
+                style: { color: territory.color, weight: 3, opacity: 0.9, dashArray: '6 4' },
+            })];
+        })).addTo(map);
+    }, [geoJsonData, territories]);
+
+    const getFieldLabel = (field: NumericFieldKey) => getNumericFieldLabel(field, derivedFields);
+    const primaryLabel = choropleth.metric === DIVERSITY_METRIC
+        ? 'Diversity index'
+        : activeBand ? `${activeBand.label} enrollment` : getFieldLabel(choropleth.field);
+    const isMetricActive = choropleth.metric === DIVERSITY_METRIC || !!activeBand;
+
+    const renderFieldSelect = (value: NumericFieldKey, onChange: (field: NumericFieldKey) => void) => (
+        <Select value={value} onValueChange={(field) => onChange(field as NumericFieldKey)}>
+            <SelectTrigger className="h-8 w-48 text-xs">
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                {NUMERIC_ROLE_GROUPS.map(([groupName, definitions]) => (
+                    <SelectGroup key={groupName}>
+                        <SelectLabel>{groupName}</SelectLabel>
+                        {definitions.map(definition => (
+                            <SelectItem key={definition.role} value={definition.role}>{definition.label}</SelectItem>
+                        ))}
+                    </SelectGroup>
+                ))}
+                {derivedFields.length > 0 && (
+                    <SelectGroup>
+                        <SelectLabel>Derived</SelectLabel>
+                        {derivedFields.map(field => (
+                            <SelectItem key={field.id} value={toDerivedKey(field.id)}>{field.label}</SelectItem>
+                        ))}
+                    </SelectGroup>
+                )}
+            </SelectContent>
+        </Select>
+    );
 
     if (!geoJsonData) {
         return null; // Don't show map if no data
@@ -451,8 +685,7 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                     const selectedFeatures: any[] = [];
                                     geoJsonLayerRef.current.eachLayer((layer: any) => {
                                         if (layer.feature) {
-                                            const props = layer.feature.properties || {};
-                                            const zip = props.Zip || props.ZIP || props.zipcode;
+                                            const zip = (layer.feature as ZoneFeature).properties.Zip;
                                             if (selectedZips.includes(zip)) {
                                                 selectedFeatures.push(layer);
                                             }
@@ -476,6 +709,17 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                             <BarChart3 className="h-4 w-4 mr-2" />
                             Analyze ({selectedZips.length})
                         </Button>
+                        {onCompareZips && (
+                            <Button
+                                variant="outline"
+                                onClick={() => onCompareZips(selectedZips)}
+                                disabled={selectedZips.length < MIN_COMPARISON_ZIPS || selectedZips.length > MAX_COMPARISON_ZIPS}
+                                title={`Compare ${MIN_COMPARISON_ZIPS} to ${MAX_COMPARISON_ZIPS} ZIPs side by side`}
+                            >
+                                <Columns3 className="h-4 w-4 mr-2" />
+                                Compare
+                            </Button>
+                        )}
                     </div>
 
                     {searchTerm && (
@@ -618,28 +862,16 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                     </div>
 
                                     <div className="space-y-3">
-                                        <h4 className="font-medium text-green-600 border-b pb-1">Grade Levels</h4>
+                                        <h4 className="font-medium text-green-600 border-b pb-1">Grade Bands</h4>
                                         <div className="space-y-2 text-sm">
-                                            <div className="flex justify-between">
-                                                <span>Pre-K:</span>
-                                                <span className="font-medium">{aggregatedData.processedTotals?.get('Pre_K') || 0}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span>Kindergarten:</span>
-                                                <span className="font-medium">{aggregatedData.processedTotals?.get('KG') || 0}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span>Grade 1:</span>
-                                                <span className="font-medium">{aggregatedData.processedTotals?.get('Grade_1') || 0}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span>Grade 2:</span>
-                                                <span className="font-medium">{aggregatedData.processedTotals?.get('Grade_2') || 0}</span>
-                                            </div>
-                                            <div className="flex justify-between">
-                                                <span>Grade 3:</span>
-                                                <span className="font-medium">{aggregatedData.processedTotals?.get('Grade_3') || 0}</span>
-                                            </div>
+                                            {gradeBands.map(band => (
+                                                <div key={band.id} className="flex justify-between">
+                                                    <span>{band.label}:</span>
+                                                    <span className="font-medium">
+                                                        {band.grades.reduce((sum, grade) => sum + (aggregatedData.processedTotals?.get(grade) || 0), 0).toLocaleString()}
+                                                    </span>
+                                                </div>
+                                            ))}
                                         </div>
                                     </div>
 
@@ -665,6 +897,47 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                             </div>
                                         </div>
                                     </div>
+
+                                    <div className="space-y-3">
+                                        <h4 className="font-medium text-orange-600 border-b pb-1">Area Context</h4>
+                                        <div className="space-y-2 text-sm">
+                                            <div className="flex justify-between">
+                                                <span>Population:</span>
+                                                <span className="font-medium">{aggregatedData.totalPopulation.toLocaleString()}</span>
+                                            </div>
+                                            {[
+                                                { label: 'Median Income (pop. weighted)', key: 'med_ncm', format: (value: number) => `$${Math.round(value).toLocaleString()}` },
+                                                { label: 'Poverty Rate', key: 'pvrty_p', format: (value: number) => `${value.toFixed(1)}%` },
+                                                { label: 'Unemployment', key: 'unmply_', format: (value: number) => `${value.toFixed(1)}%` },
+                                                { label: "Bachelor's or Higher", key: 'bchAtl_', format: (value: number) => `${value.toFixed(1)}%` },
+                                                { label: 'Student Ratio', key: 'Stdnt_R', format: (value: number) => value.toFixed(1) },
+                                            ].map((metric: { label: string; key: ZoneNumericField; format: (value: number) => string }) => {
+                                                const value = aggregatedData.processedTotals.get(metric.key);
+                                                return (
+                                                    <div key={metric.key} className="flex justify-between">
+                                                        <span>{metric.label}:</span>
+                                                        <span className="font-medium">{value != null ? metric.format(value) : 'N/A'}</span>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+
+                                    {derivedFields.length > 0 && (
+                                        <div className="space-y-3">
+                                            <h4 className="font-medium text-teal-600 border-b pb-1">Derived Metrics</h4>
+                                            <div className="space-y-2 text-sm">
+                                                {derivedFields.map(field => (
+                                                    <div key={field.id} className="flex justify-between" title={field.expression}>
+                                                        <span>{field.label}:</span>
+                                                        <span className="font-medium">
+                                                            {formatDerivedValue(aggregatedData.derivedValues[field.id] ?? null, field)}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                             </TabsContent>
 
@@ -677,14 +950,8 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                         </CardHeader>
                                         <CardContent>
                                             <div className="space-y-3">
-                                                {[
-                                                    { label: 'Pre-K', key: 'Pre_K', color: '#ef4444' },
-                                                    { label: 'Kindergarten', key: 'KG', color: '#f97316' },
-                                                    { label: 'Grade 1', key: 'Grade_1', color: '#eab308' },
-                                                    { label: 'Grade 2', key: 'Grade_2', color: '#22c55e' },
-                                                    { label: 'Grade 3', key: 'Grade_3', color: '#3b82f6' },
-                                                ].map(grade => {
-                                                    const value = aggregatedData.processedTotals?.get(grade.key) || 0;
+                                                {GRADE_LEVELS.map(grade => {
+                                                    const value = aggregatedData.processedTotals?.get(grade.field) || 0;
                                                     const percentage = aggregatedData.totalStudents > 0
                                                         ? (value / aggregatedData.totalStudents * 100).toFixed(1)
                                                         : '0';
@@ -693,7 +960,7 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                                         : 0;
 
                                                     return (
-                                                        <div key={grade.key} className="space-y-1">
+                                                        <div key={grade.field} className="space-y-1">
                                                             <div className="flex justify-between text-sm">
                                                                 <span className="font-medium">{grade.label}</span>
                                                                 <span className="text-muted-foreground">{value} ({percentage}%)</span>
@@ -714,6 +981,8 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                         </CardContent>
                                     </Card>
 
+                                    <DemographicsPanel title="Race/Ethnicity Composition" totals={aggregatedData.processedTotals} compact />
+
                                     {/* Population vs Schools Distribution */}
                                     <Card>
                                         <CardHeader>
@@ -823,7 +1092,7 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                                     .map(zip => {
                                                         const zipData = zipSummaries.get(zip);
                                                         if (!zipData) return null as any;
-                                                        const schools = Math.round(zipData.schools / zipData.count) || 0;
+                                                        const schools = zipData.schools;
                                                         const students = zipData.totalStudents || 0;
                                                         return { zip, schools, students };
                                                     })
@@ -880,6 +1149,7 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                                     <th className="text-right p-2">Schools</th>
                                                     <th className="text-right p-2">Female</th>
                                                     <th className="text-right p-2">Male</th>
+                                                    <th className="text-right p-2">Diversity</th>
                                                     <th className="text-right p-2">Records</th>
                                                 </tr>
                                             </thead>
@@ -890,9 +1160,10 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                                                         <tr key={zip} className="border-b hover:bg-gray-50">
                                                             <td className="p-2 font-medium">{zip}</td>
                                                             <td className="p-2 text-right">{zipData?.totalStudents || 0}</td>
-                                                            <td className="p-2 text-right">{Math.round((zipData?.schools || 0) / (zipData?.count || 1))}</td>
+                                                            <td className="p-2 text-right">{zipData?.schools || 0}</td>
                                                             <td className="p-2 text-right">{zipData?.totalFemale || 0}</td>
                                                             <td className="p-2 text-right">{zipData?.totalMale || 0}</td>
+                                                            <td className="p-2 text-right">{zipDiversity.get(zip)?.toFixed(2) ?? '-'}</td>
                                                             <td className="p-2 text-right">{zipData?.count || 0}</td>
                                                         </tr>
                                                     );
@@ -910,7 +1181,7 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
 
             {/* Map */}
             <Card>
-                <CardHeader>
+                <CardHeader className="space-y-3">
                     <CardTitle className="flex items-center gap-2">
                         <MapPin className="h-5 w-5" />
                         ZIP Code Overview Map
@@ -920,32 +1191,172 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                             </Badge>
                         )}
                     </CardTitle>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Select
+                            value={choropleth.mode}
+                            onValueChange={(mode) => setChoropleth(prev => ({ ...prev, mode: mode as ChoroplethSettings['mode'] }))}
+                        >
+                            <SelectTrigger className="h-8 w-32 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="single">Single field</SelectItem>
+                                <SelectItem value="bivariate">Bivariate</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        {!isMetricActive && renderFieldSelect(choropleth.field, field => setChoropleth(prev => ({ ...prev, field })))}
+                        <Select
+                            value={isMetricActive ? choropleth.metric! : NO_METRIC}
+                            onValueChange={(metric) => setChoropleth(prev => ({ ...prev, metric: metric === NO_METRIC ? null : metric }))}
+                        >
+                            <SelectTrigger className="h-8 w-44 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_METRIC}>Field value</SelectItem>
+                                {gradeBands.length > 0 && (
+                                    <SelectGroup>
+                                        <SelectLabel>Grade bands</SelectLabel>
+                                        {gradeBands.map(band => (
+                                            <SelectItem key={band.id} value={toBandMetric(band.id)}>{band.label} enrollment</SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                )}
+                                <SelectGroup>
+                                    <SelectLabel>Demographics</SelectLabel>
+                                    <SelectItem value={DIVERSITY_METRIC}>Diversity index</SelectItem>
+                                </SelectGroup>
+                            </SelectContent>
+                        </Select>
+                        {choropleth.mode === 'bivariate' && (
+                            <>
+                                <span className="text-xs text-muted-foreground">vs</span>
+                                {renderFieldSelect(choropleth.secondaryField, secondaryField => setChoropleth(prev => ({ ...prev, secondaryField })))}
+                            </>
+                        )}
+                        {choropleth.mode === 'single' && (
+                            <>
+                            <Select
+                                value={choropleth.method}
+                                onValueChange={(method) => setChoropleth(prev => ({ ...prev, method: method as ClassificationMethod }))}
+                            >
+                                <SelectTrigger className="h-8 w-48 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CLASSIFICATION_METHODS.map(method => (
+                                        <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value={String(choropleth.classCount)}
+                                onValueChange={(count) => setChoropleth(prev => ({ ...prev, classCount: Number(count) }))}
+                            >
+                                <SelectTrigger className="h-8 w-28 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CLASS_COUNTS.map(count => (
+                                        <SelectItem key={count} value={String(count)}>{count} classes</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Select
+                                value={choropleth.ramp}
+                                onValueChange={(ramp) => setChoropleth(prev => ({ ...prev, ramp: ramp as ColorRampName }))}
+                            >
+                                <SelectTrigger className="h-8 w-56 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {COLOR_RAMPS.map(ramp => (
+                                        <SelectItem key={ramp.name} value={ramp.name}>
+                                            <span className="flex items-center gap-2">
+                                                <span className="flex">
+                                                    {getRampColors(ramp.name, 5).map(color => (
+                                                        <span key={color} className="h-3 w-3" style={{ backgroundColor: color }} />
+                                                    ))}
+                                                </span>
+                                                {ramp.label}
+                                            </span>
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            </>
+                        )}
+                    </div>
                 </CardHeader>
                 <CardContent className="p-0">
-                    <div ref={mapRef} className="h-96 w-full" />
-                    <div className="p-4 bg-gray-50 border-t">
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-6 text-xs">
-                                <div className="flex items-center gap-2">
-                                    <div className="w-4 h-4 bg-green-500 rounded"></div>
-                                    <span>Low Population (&lt;1K)</span>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                    <div className="w-4 h-4 bg-amber-500 rounded"></div>
-                                    <span>Medium (1K-3K)</span>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                    <div className="w-4 h-4 bg-orange-500 rounded"></div>
-                                    <span>High (3K-5K)</span>
+                    <div className="relative">
+                        <div ref={mapRef} className="h-96 w-full" />
+                        {/* Legend sits above the Leaflet panes (z-index 400) but below its controls */}
+                        {choropleth.mode === 'bivariate' ? (
+                            <div className="absolute bottom-2 left-2 z-[500] rounded-md border bg-white/90 p-2 text-xs shadow-sm">
+                                <div className="mb-1 font-medium">Click a cell to select its ZIPs</div>
+                                <div className="flex items-end gap-1">
+                                    <div className="flex h-[84px] items-center">
+                                        <span className="[writing-mode:vertical-rl] rotate-180">{getFieldLabel(choropleth.secondaryField)} →</span>
+                                    </div>
+                                    <div>
+                                        <div className="grid grid-cols-3 gap-0.5">
+                                            {/* Highest secondary class on top */}
+                                            {[2, 1, 0].map(y => [0, 1, 2].map(x => {
+                                                const zipCount = bivariateCellZips.get(`${x}-${y}`)?.size || 0;
+                                                return (
+                                                    <button
+                                                        key={`${x}-${y}`}
+                                                        type="button"
+                                                        onClick={() => selectBivariateCell(x, y)}
+                                                        disabled={zipCount === 0}
+                                                        title={`${zipCount} ZIP${zipCount === 1 ? '' : 's'}`}
+                                                        className="h-7 w-7 rounded-sm border border-white hover:ring-2 hover:ring-purple-600 disabled:cursor-not-allowed disabled:opacity-50"
+                                                        style={{ backgroundColor: BIVARIATE_COLORS[y][x] }}
+                                                    />
+                                                );
+                                            }))}
+                                        </div>
+                                        <div className="mt-1">{primaryLabel} →</div>
+                                    </div>
                                 </div>
+                            </div>
+                        ) : (
+                            <div className="absolute bottom-2 left-2 z-[500] rounded-md border bg-white/90 p-2 text-xs shadow-sm">
+                                <div className="mb-1 font-medium">{primaryLabel}</div>
+                                {classification.breaks.slice(1).map((upper, i) => (
+                                    <div key={i} className="flex items-center gap-2">
+                                        <div className="h-3 w-4 rounded-sm" style={{ backgroundColor: classification.colors[i] }} />
+                                        <span>{formatBreak(classification.breaks[i])} – {formatBreak(upper)}</span>
+                                    </div>
+                                ))}
                                 <div className="flex items-center gap-2">
-                                    <div className="w-4 h-4 bg-red-500 rounded"></div>
-                                    <span>Very High (&gt;5K)</span>
+                                    <div className="h-3 w-4 rounded-sm" style={{ backgroundColor: NO_DATA_COLOR }} />
+                                    <span>No data</span>
                                 </div>
                             </div>
+                        )}
+                        {isPickingTradeArea && (
+                            <div className="absolute inset-0 z-[500] cursor-crosshair" onClick={pickTradeAreaCenter} />
+                        )}
+                        <MapDrawTools mapRef={mapInstanceRef} onShapeDrawn={selectZipsInShape} />
+                    </div>
+                    <div className="p-4 bg-gray-50 border-t">
+                        <div className="flex items-center justify-between">
+                            <div className="text-xs text-muted-foreground">
+                                {choropleth.mode === 'bivariate'
+                                    ? `Tertiles of ${primaryLabel.toLowerCase()} vs ${getFieldLabel(choropleth.secondaryField).toLowerCase()} per zone`
+                                    : `${CLASSIFICATION_METHODS.find(method => method.value === choropleth.method)?.label} classification of ${primaryLabel.toLowerCase()} per zone`}
+                            </div>
                             <div className="flex items-center gap-2 text-xs">
                                 <div className="w-4 h-4 bg-purple-500 rounded border-2 border-purple-700"></div>
                                 <span>Selected ZIP</span>
+                                {territories.map(territory => (
+                                    <React.Fragment key={territory.id}>
+                                        <div className="w-4 h-0 border-t-2 border-dashed" style={{ borderColor: territory.color }}></div>
+                                        <span>{territory.name}</span>
+                                    </React.Fragment>
+                                ))}
 
                                 <span className="text-muted-foreground">Zoom: {currentZoom}</span>
                             </div>
@@ -954,6 +1365,16 @@ const OverviewMap: React.FC<OverviewMapProps> = ({ geoJsonData, onZipSelect }) =
                     </div>
                 </CardContent>
             </Card>
+
+            <TradeAreaPanel
+                geoJsonData={geoJsonData}
+                mapRef={mapInstanceRef}
+                center={tradeAreaCenter}
+                onCenterChange={setTradeAreaCenter}
+                isPicking={isPickingTradeArea}
+                onPickingChange={setIsPickingTradeArea}
+                onSelectZips={setSelectedZips}
+            />
         </div >
     );
 };
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ListOrdered, MousePointerClick, Plus, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FIELD_ROLES } from '@/utils/fieldMapping';
+import { formatDerivedValue, getNumericFieldLabel, isDerivedKey, toDerivedKey } from '@/utils/derivedFields';
+import { NUMERIC_OPERATORS, createNumericCondition } from '@/utils/zoneQuery';
+import { RANKING_LIMITS, buildRankingDistributions, buildZipRankingRows, getRankingValue, rankZips } from '@/utils/rankings';
+import { formatPercentile, getPercentileRank } from '@/utils/socioeconomics';
+import { ZONE_NUMERIC_FIELDS } from '@/types/zones';
+import type { ZoneCollection } from '@/types/zones';
+import type { DerivedField, NumericFieldKey } from '@/types/derivedFields';
+import type { NumericCondition, NumericOperator } from '@/types/query';
+import type { RankingSort } from '@/types/rankings';
+
+interface RankingsViewProps {
+  geoJsonData?: ZoneCollection | null;
+  derivedFields?: DerivedField[];
+  /** Push the shown ZIPs into the overview map's multi-selection */
+  onSelectZips: (zips: string[]) => void;
+  onZipSelect?: (zipCode: string) => void;
+}
+
+const DEFAULT_COLUMNS: NumericFieldKey[] = ['Ttl_Std', 'Pre_K', 'pvrty_p', 'med_ncm'];
+const ALL_ROWS = 'all';
+
+// Numeric roles grouped as in the field mapping, for the column and threshold pickers
+const NUMERIC_ROLE_GROUPS = FIELD_ROLES.reduce((groups, definition) => {
+  if (!(ZONE_NUMERIC_FIELDS as string[]).includes(definition.role)) return groups;
+  const group = groups.find(([name]) => name === definition.group);
+  if (group) {
+    group[1].push(definition);
+  } else {
+    groups.push([definition.group, [definition]]);
+  }
+  return groups;
+}, [] as [string, typeof FIELD_ROLES][]);
+
+const parseNumber = (text: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const RankingsView: React.FC<RankingsViewProps> = ({ geoJsonData, derivedFields = [], onSelectZips, onZipSelect }) => {
+  const [columns, setColumns] = useState<NumericFieldKey[]>(DEFAULT_COLUMNS);
+  const [sort, setSort] = useState<RankingSort>({ field: 'Pre_K', direction: 'desc' });
+  const [thresholds, setThresholds] = useState<NumericCondition[]>([]);
+  const [limit, setLimit] = useState<string>('25');
+
+  const rows = useMemo(
+    () => buildZipRankingRows(geoJsonData?.features || [], derivedFields),
+    [geoJsonData, derivedFields]
+  );
+
+  const ranked = useMemo(() => rankZips(rows, sort, thresholds), [rows, sort, thresholds]);
+  const shown = limit === ALL_ROWS ? ranked : ranked.slice(0, Number(limit));
+
+  const distributions = useMemo(() => buildRankingDistributions(rows, columns), [rows, columns]);
+
+  // Drop columns, thresholds and the sort on derived fields that were deleted
+  useEffect(() => {
+    const exists = (field: NumericFieldKey) =>
+      !isDerivedKey(field) || derivedFields.some(derived => toDerivedKey(derived.id) === field);
+    setColumns(prev => (prev.every(exists) ? prev : prev.filter(exists)));
+    setThresholds(prev => (prev.every(condition => exists(condition.field)) ? prev : prev.filter(condition => exists(condition.field))));
+    setSort(prev => (exists(prev.field) ? prev : { field: 'Ttl_Std', direction: 'desc' }));
+  }, [derivedFields]);
+
+  const getLabel = (field: NumericFieldKey) => getNumericFieldLabel(field, derivedFields);
+
+  const formatValue = (field: NumericFieldKey, value: number | null) => {
+    const derived = isDerivedKey(field) ? derivedFields.find(candidate => toDerivedKey(candidate.id) === field) : undefined;
+    if (derived) return formatDerivedValue(value, derived);
+    return value == null ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  };
+
+  // Clicking the sorted column flips its direction; another column sorts highest first
+  const toggleSort = (field: NumericFieldKey) => {
+    setSort(prev => (prev.field === field
+      ? { field, direction: prev.direction === 'desc' ? 'asc' : 'desc' }
+      : { field, direction: 'desc' }));
+  };
+
+  const addColumn = (field: NumericFieldKey) => {
+    setColumns(prev => (prev.includes(field) ? prev : [...prev, field]));
+  };
+
+  const updateThreshold = (id: string, update: (condition: NumericCondition) => NumericCondition) => {
+    setThresholds(prev => prev.map(condition => (condition.id === id ? update(condition) : condition)));
+  };
+
+  const selectShown = () => {
+    const zips = shown.map(row => row.zip);
+    console.log(`🎯 Selecting ${zips.length} ranked ZIPs on the overview map`);
+    onSelectZips(zips);
+  };
+
+  // Without a value the picker shows its placeholder again after each choice
+  const renderFieldSelect = (value: NumericFieldKey | undefined, onChange: (field: NumericFieldKey) => void, placeholder?: string) => (
+    <Select value={value ?? ''} onValueChange={(field) => onChange(field as NumericFieldKey)}>
+      <SelectTrigger className="h-8 w-48 text-xs">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {NUMERIC_ROLE_GROUPS.map(([groupName, definitions]) => (
+          <SelectGroup key={groupName}>
+            <SelectLabel>{groupName}</SelectLabel>
+            {definitions.map(definition => (
+              <SelectItem key={definition.role} value={definition.role}>{definition.label}</SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+        {derivedFields.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Derived</SelectLabel>
+            {derivedFields.map(field => (
+              <SelectItem key={field.id} value={toDerivedKey(field.id)}>{field.label}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+
+  if (!geoJsonData) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            ZIP Rankings
+            <Badge variant="secondary">{ranked.length} of {rows.length} ZIPs</Badge>
+          </span>
+          <Button size="sm" onClick={selectShown} disabled={shown.length === 0}>
+            <MousePointerClick className="h-4 w-4 mr-2" />
+            Select all shown ({shown.length})
+          </Button>
+        </CardTitle>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Rank by</span>
+          {renderFieldSelect(sort.field, field => {
+            setSort(prev => ({ ...prev, field }));
+            addColumn(field);
+          })}
+          <Select value={sort.direction} onValueChange={(direction) => setSort(prev => ({ ...prev, direction: direction as RankingSort['direction'] }))}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">Highest first</SelectItem>
+              <SelectItem value="asc">Lowest first</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={limit} onValueChange={setLimit}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANKING_LIMITS.map(count => (
+                <SelectItem key={count} value={String(count)}>Top {count}</SelectItem>
+              ))}
+              <SelectItem value={ALL_ROWS}>All</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="ml-2 text-xs text-muted-foreground">Add column</span>
+          {renderFieldSelect(undefined, addColumn, 'Choose a metric...')}
+        </div>
+
+        {/* Threshold filters */}
+        <div className="space-y-2">
+          {thresholds.map(condition => (
+            <div key={condition.id} className="flex flex-wrap items-center gap-2">
+              {renderFieldSelect(condition.field, field => updateThreshold(condition.id, () => ({ ...createNumericCondition(field), id: condition.id })))}
+              <Select
+                value={condition.operator}
+                onValueChange={(operator) => updateThreshold(condition.id, current => ({ ...current, operator: operator as NumericOperator }))}
+              >
+                <SelectTrigger className="h-8 w-24 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NUMERIC_OPERATORS.map(operator => (
+                    <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                className="h-8 w-28 text-xs"
+                placeholder={condition.operator === 'between' ? 'min' : 'value'}
+                value={condition.value ?? ''}
+                onChange={(e) => updateThreshold(condition.id, current => ({ ...current, value: parseNumber(e.target.value) }))}
+              />
+              {condition.operator === 'between' && (
+                <Input
+                  type="number"
+                  className="h-8 w-28 text-xs"
+                  placeholder="max"
+                  value={condition.max ?? ''}
+                  onChange={(e) => updateThreshold(condition.id, current => ({ ...current, max: parseNumber(e.target.value) }))}
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setThresholds(prev => prev.filter(candidate => candidate.id !== condition.id))}
+                className="h-8 w-8 p-0"
+                title="Remove threshold"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setThresholds(prev => [...prev, { ...createNumericCondition('pvrty_p'), operator: 'lt' }])}
+            className="h-8 px-3 text-xs"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add threshold
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2 w-12">#</th>
+                <th className="text-left p-2">ZIP Code</th>
+                {columns.map(field => (
+                  <th key={field} className="text-right p-2">
+                    <span className="inline-flex items-center gap-1">
+                      <button type="button" onClick={() => toggleSort(field)} className="inline-flex items-center gap-1 hover:underline">
+                        {getLabel(field)}
+                        {sort.field === field && (sort.direction === 'desc'
+                          ? <ArrowDown className="h-3 w-3" />
+                          : <ArrowUp className="h-3 w-3" />)}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setColumns(prev => prev.filter(column => column !== field))}
+                        className="text-muted-foreground hover:text-foreground"
+                        title="Remove column"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((row, index) => (
+                <tr key={row.zip} className="border-b hover:bg-gray-50">
+                  <td className="p-2 text-muted-foreground">{index + 1}</td>
+                  <td className="p-2 font-medium">
+                    {onZipSelect ? (
+                      <button type="button" onClick={() => onZipSelect(row.zip)} className="hover:underline">{row.zip}</button>
+                    ) : row.zip}
+                  </td>
+                  {columns.map(field => {
+                    const value = getRankingValue(row, field);
+                    const distribution = distributions.get(field);
+                    const rank = value != null && distribution ? getPercentileRank(distribution, value) : null;
+                    return (
+                      <td key={field} className="p-2 text-right">
+                        <span className="inline-flex items-center gap-2">
+                          {formatValue(field, value)}
+                          {rank != null && (
+                            <Badge
+                              variant={field === sort.field ? 'default' : 'outline'}
+                              className="w-12 justify-center px-1 text-[10px]"
+                              title={`${formatPercentile(rank)} percentile of all ZIPs`}
+                            >
+                              P{Math.round(rank)}
+                            </Badge>
+                          )}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {shown.length === 0 && (
+                <tr>
+                  <td colSpan={columns.length + 2} className="p-4 text-center text-muted-foreground">
+                    No ZIPs pass the thresholds
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Percentile badges rank each value among all {rows.length} ZIPs, before thresholds.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RankingsView;
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileImage, FileText, Printer } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REPORT_PAGE_SIZES, buildReportPdf, buildReportPng, createReportLayout, releaseCanvas } from '@/utils/reportRenderer';
+import { downloadFile, toExportFileName } from '@/utils/exportData';
+import type { GradeBand } from '@/types/gradeBands';
+import type { ReportPageSize, ReportSubject } from '@/types/report';
+
+interface ReportDialogProps {
+  open: boolean;
+  subject: ReportSubject | null;
+  gradeBands: GradeBand[];
+  onClose: () => void;
+}
+
+// Previews are full-size page images, so only the first few are shown
+const PREVIEW_PAGES = 3;
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ open, subject, gradeBands, onClose }) => {
+  const [pageSize, setPageSize] = useState<ReportPageSize>('letter');
+  const [includeAppendix, setIncludeAppendix] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+    }
+  }, [open]);
+
+  const layout = useMemo(
+    () => (open && subject ? createReportLayout(subject, { pageSize, includeAppendix, gradeBands }) : null),
+    [open, subject, pageSize, includeAppendix, gradeBands]
+  );
+  const pageCount = layout?.pageCount ?? 0;
+
+  // Only the preview pages are drawn up front; exports draw the rest one at a time
+  const previews = useMemo(() => {
+    if (!layout) return [];
+    return Array.from({ length: Math.min(layout.pageCount, PREVIEW_PAGES) }, (_, index) => {
+      const page = layout.renderPage(index);
+      const preview = page.toDataURL('image/png');
+      releaseCanvas(page);
+      return preview;
+    });
+  }, [layout]);
+
+  const exportReport = async (format: 'pdf' | 'png') => {
+    if (!subject || !layout) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const name = toExportFileName(subject.title);
+      const file = format === 'pdf' ? await buildReportPdf(layout, name) : await buildReportPng(layout, name);
+      downloadFile(file);
+      console.log('🖨️ Exported report:', { file: file.name, pages: pageCount });
+    } catch (exportError) {
+      console.error('❌ Error exporting report:', exportError);
+      setError(String(exportError));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            Report - {subject?.title}
+          </DialogTitle>
+          <DialogDescription>
+            A printable summary with a map, key metrics, grade and demographic charts, and the raw records.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label>Page size</Label>
+            <Select value={pageSize} onValueChange={(value) => setPageSize(value as ReportPageSize)}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REPORT_PAGE_SIZES).map(([value, size]) => (
+                  <SelectItem key={value} value={value}>{size.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={includeAppendix} onCheckedChange={(checked) => setIncludeAppendix(checked === true)} />
+            Raw record appendix
+          </label>
+          <span className="text-sm text-muted-foreground">
+            {pageCount} page{pageCount === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        <ScrollArea className="h-96 rounded-md border bg-gray-100">
+          <div className="space-y-4 p-4">
+            {previews.map((preview, index) => (
+              <img key={index} src={preview} alt={`Page ${index + 1}`} className="mx-auto w-full max-w-md shadow-md bg-white" />
+            ))}
+            {pageCount > PREVIEW_PAGES && (
+              <p className="text-center text-sm text-muted-foreground">
+                + {pageCount - PREVIEW_PAGES} more appendix page{pageCount - PREVIEW_PAGES === 1 ? '' : 's'}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button variant="outline" onClick={() => exportReport('png')} disabled={isExporting || pageCount === 0}>
+            <FileImage className="h-4 w-4 mr-2" />
+            Download PNG
+          </Button>
+          <Button onClick={() => exportReport('pdf')} disabled={isExporting || pageCount === 0}>
+            <FileText className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
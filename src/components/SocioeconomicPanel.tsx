@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import {
+  SOCIOECONOMIC_METRICS,
+  formatMetricValue,
+  formatPercentile,
+  getOutlierFlag,
+  getPercentileRank,
+} from '@/utils/socioeconomics';
+import type { ZoneNumericField } from '@/types/zones';
+import type { MetricDistribution, SocioeconomicMetric } from '@/types/socioeconomics';
+
+interface SocioeconomicPanelProps {
+  zipCode: string;
+  /** Rolled-up numeric values of the ZIP */
+  totals: Map<ZoneNumericField, number>;
+  /** Distributions across every ZIP in the dataset */
+  statewide: Map<ZoneNumericField, MetricDistribution>;
+  /** Distributions across the filtered ZIPs, when a filter narrows the dataset */
+  filtered?: Map<ZoneNumericField, MetricDistribution> | null;
+  /** Distributions across the ZIPs selected on the overview map */
+  selection?: Map<ZoneNumericField, MetricDistribution> | null;
+}
+
+const chartConfig = {
+  zip: { label: 'This ZIP', color: '#7c3aed' },
+  median: { label: 'Dataset median', color: '#94a3b8' },
+} as const;
+
+const PercentileBar: React.FC<{ rank: number | null }> = ({ rank }) => (
+  <div className="flex items-center gap-2">
+    <div className="w-20 bg-gray-200 rounded-full h-2">
+      <div className="h-2 rounded-full bg-purple-500" style={{ width: `${rank ?? 0}%` }}></div>
+    </div>
+    <span className="w-10 text-right">{rank != null ? formatPercentile(rank) : '-'}</span>
+  </div>
+);
+
+const SocioeconomicPanel: React.FC<SocioeconomicPanelProps> = ({ zipCode, totals, statewide, filtered, selection }) => {
+  const rows = useMemo(() => SOCIOECONOMIC_METRICS.map(metric => {
+    const value = totals.get(metric.field) ?? null;
+    const statewideDistribution = statewide.get(metric.field);
+    const filteredDistribution = filtered?.get(metric.field);
+    const selectionDistribution = selection?.get(metric.field);
+    return {
+      metric,
+      value,
+      median: statewideDistribution?.median ?? null,
+      statewideRank: value != null && statewideDistribution ? getPercentileRank(statewideDistribution, value) : null,
+      filteredRank: value != null && filteredDistribution ? getPercentileRank(filteredDistribution, value) : null,
+      selectionRank: value != null && selectionDistribution ? getPercentileRank(selectionDistribution, value) : null,
+      outlier: value != null && statewideDistribution ? getOutlierFlag(statewideDistribution, value) : null,
+    };
+  }), [totals, statewide, filtered, selection]);
+
+  // Percentile axes put every metric on one scale; the median sits at 50 by definition
+  const radarData = rows.map(row => ({
+    metric: row.metric.label,
+    zip: row.statewideRank != null ? Math.round(row.statewideRank) : 0,
+    median: 50,
+  }));
+
+  const getOutlierBadge = (metric: SocioeconomicMetric, outlier: 'high' | 'low') => {
+    const favorable = (outlier === 'high') === metric.higherIsBetter;
+    return (
+      <Badge variant="outline" className={favorable ? 'border-green-500 text-green-700' : 'border-red-500 text-red-700'}>
+        Unusually {outlier}
+      </Badge>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Socioeconomic Profile - ZIP {zipCode}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-[3fr_2fr] gap-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Metric</th>
+                  <th className="text-right p-2">ZIP</th>
+                  <th className="text-right p-2">Median</th>
+                  <th className="text-left p-2" title="Percentile among all ZIPs in the dataset">Statewide</th>
+                  {filtered && <th className="text-left p-2" title="Percentile among the ZIPs matching the filter">Filtered</th>}
+                  {selection && <th className="text-left p-2" title="Percentile among the ZIPs selected on the map">Selection</th>}
+                  <th className="text-left p-2">Flag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.metric.field} className="border-b">
+                    <td className="p-2 font-medium">{row.metric.label}</td>
+                    <td className="p-2 text-right">{formatMetricValue(row.metric, row.value)}</td>
+                    <td className="p-2 text-right text-muted-foreground">{formatMetricValue(row.metric, row.median)}</td>
+                    <td className="p-2"><PercentileBar rank={row.statewideRank} /></td>
+                    {filtered && <td className="p-2"><PercentileBar rank={row.filteredRank} /></td>}
+                    {selection && <td className="p-2"><PercentileBar rank={row.selectionRank} /></td>}
+                    <td className="p-2">{row.outlier && getOutlierBadge(row.metric, row.outlier)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Percentiles rank this ZIP among ZIPs; flags mark values beyond 1.5 interquartile ranges of the statewide quartiles.
+            </p>
+          </div>
+
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <RadarChart data={radarData} outerRadius="70%">
+              <PolarGrid />
+              <PolarAngleAxis dataKey="metric" tick={{ fontSize: 11 }} />
+              <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Radar dataKey="median" stroke="var(--color-median)" fill="var(--color-median)" fillOpacity={0.1} strokeDasharray="4 4" />
+              <Radar dataKey="zip" stroke="var(--color-zip)" fill="var(--color-zip)" fillOpacity={0.3} />
+            </RadarChart>
+          </ChartContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SocioeconomicPanel;
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Check, Flag, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TERRITORY_COLORS, findTerritoryConflicts } from '@/utils/territories';
+import type { Territory, TerritoryDraft } from '@/types/territories';
+
+interface TerritoryDialogProps {
+  open: boolean;
+  /** Territory to edit, or a new one prefilled with the map selection */
+  territory: TerritoryDraft | null;
+  /** Saved territories, checked for ZIPs the draft would share with them */
+  territories: Territory[];
+  isNew: boolean;
+  onSave: (territory: TerritoryDraft) => void;
+  onCancel: () => void;
+}
+
+const TerritoryDialog: React.FC<TerritoryDialogProps> = ({ open, territory, territories, isNew, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<TerritoryDraft | null>(territory);
+
+  // Edit a copy so Cancel discards changes
+  useEffect(() => {
+    if (open) {
+      setDraft(territory);
+    }
+  }, [open, territory]);
+
+  const conflicts = useMemo(
+    () => (draft ? findTerritoryConflicts(territories, draft.zips, draft.id) : []),
+    [territories, draft]
+  );
+
+  if (!draft) return null;
+
+  const canSave = !!draft.name.trim() && draft.zips.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            {isNew ? 'New Territory' : 'Edit Territory'}
+          </DialogTitle>
+          <DialogDescription>
+            Territories are saved with the current dataset and outlined on the overview map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="territory-name">Name</Label>
+            <Input
+              id="territory-name"
+              placeholder="North Dallas"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="territory-description">Description</Label>
+            <Textarea
+              id="territory-description"
+              placeholder="Spring campaign, suburban districts"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Color</Label>
+            <div className="flex gap-2">
+              {TERRITORY_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, color })}
+                  className="h-7 w-7 rounded-full border-2 flex items-center justify-center"
+                  style={{ backgroundColor: color, borderColor: draft.color === color ? '#111827' : 'transparent' }}
+                  title={color}
+                >
+                  {draft.color === color && <Check className="h-4 w-4 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>ZIPs ({draft.zips.length})</Label>
+            <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+              {draft.zips.map(zip => (
+                <Badge key={zip} variant="secondary" className="gap-1">
+                  {zip}
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, zips: draft.zips.filter(candidate => candidate !== zip) })}
+                    title={`Remove ${zip}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {draft.zips.length === 0 && (
+                <p className="text-sm text-muted-foreground">No ZIPs; select ZIPs on the map to add them</p>
+              )}
+            </div>
+          </div>
+
+          {conflicts.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {conflicts.length === 1 ? '1 ZIP is' : `${conflicts.length} ZIPs are`} already in another territory:{' '}
+                {conflicts.map(conflict => `${conflict.zip} (${conflict.territories.map(territory => territory.name).join(', ')})`).join('; ')}.
+                Saving keeps them in both.
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            onClick={() => onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() })}
+            disabled={!canSave}
+          >
+            {conflicts.length > 0 ? 'Save Anyway' : 'Save Territory'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TerritoryDialog;
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Flag, MousePointerClick, Pencil, Plus, Printer, Trash2 } from 'lucide-react';
+import TerritoryDialog from './TerritoryDialog';
+import ReportDialog from './ReportDialog';
+import {
+  createTerritoryId,
+  getNextTerritoryColor,
+  getOverlappingZips,
+  getTerritoryFeatures,
+  rollUpTerritory,
+} from '@/utils/territories';
+import { getRaceComposition } from '@/utils/demographics';
+import { formatComparisonValue } from '@/utils/comparison';
+import type { ComparisonValueKind } from '@/types/comparison';
+import type { ZoneCollection } from '@/types/zones';
+import type { ZoneRollup } from '@/types/aggregation';
+import type { GradeBand } from '@/types/gradeBands';
+import type { ReportSubject } from '@/types/report';
+import type { Territory, TerritoryDraft } from '@/types/territories';
+
+interface TerritoryPanelProps {
+  /** Every feature of the dataset, so summaries ignore the active filter */
+  geoJsonData?: ZoneCollection | null;
+  territories: Territory[];
+  gradeBands: GradeBand[];
+  /** ZIPs currently selected on the overview map */
+  selectedZips: string[];
+  onSelectZips: (zips: string[]) => void;
+  onSave: (territory: TerritoryDraft) => void;
+  onDelete: (id: string) => void;
+}
+
+const SUMMARY_STATS: { label: string; kind: ComparisonValueKind; getValue: (values: ZoneRollup['values']) => number | null }[] = [
+  { label: 'Students', kind: 'count', getValue: values => (values.Female ?? 0) + (values.Male ?? 0) },
+  { label: 'Schools', kind: 'count', getValue: values => values.Schl_Cn },
+  { label: 'Population', kind: 'count', getValue: values => values.pop },
+  { label: 'Median income', kind: 'currency', getValue: values => values.med_ncm },
+  { label: 'Poverty', kind: 'percent', getValue: values => values.pvrty_p },
+  { label: 'Diversity', kind: 'decimal', getValue: values => getRaceComposition(values).diversityIndex },
+];
+
+const TerritoryPanel: React.FC<TerritoryPanelProps> = ({
+  geoJsonData,
+  territories,
+  gradeBands,
+  selectedZips,
+  onSelectZips,
+  onSave,
+  onDelete,
+}) => {
+  const [editing, setEditing] = useState<{ draft: TerritoryDraft; isNew: boolean } | null>(null);
+  const [reportSubject, setReportSubject] = useState<ReportSubject | null>(null);
+
+  const summaries = useMemo(() => {
+    const features = geoJsonData?.features || [];
+    return new Map(territories.map(territory => [territory.id, rollUpTerritory(features, territory).values]));
+  }, [geoJsonData, territories]);
+
+  const overlaps = useMemo(() => getOverlappingZips(territories), [territories]);
+
+  const startNew = () => {
+    setEditing({
+      draft: {
+        id: createTerritoryId(),
+        name: '',
+        description: '',
+        color: getNextTerritoryColor(territories),
+        zips: [...selectedZips].sort(),
+      },
+      isNew: true,
+    });
+  };
+
+  const startEdit = (territory: Territory, addSelection = false) => {
+    const { id, name, description, color } = territory;
+    const zips = addSelection ? Array.from(new Set([...territory.zips, ...selectedZips])).sort() : territory.zips;
+    setEditing({ draft: { id, name, description, color, zips }, isNew: false });
+  };
+
+  const openReport = (territory: Territory) => {
+    setReportSubject({
+      title: territory.name,
+      subtitle: [`Territory of ${territory.zips.length} ZIPs`, territory.description].filter(Boolean).join(' · '),
+      features: getTerritoryFeatures(geoJsonData?.features || [], territory),
+      color: territory.color,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Territories
+          </span>
+          <Button variant="outline" size="sm" onClick={startNew} disabled={selectedZips.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Save Selection as Territory{selectedZips.length > 0 && ` (${selectedZips.length})`}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {territories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No territories yet. Select ZIPs on the map, then save them as a named territory.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {territories.map(territory => {
+              const values = summaries.get(territory.id);
+              const shared = overlaps.get(territory.id);
+              return (
+                <div key={territory.id} className="border rounded-lg p-3 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: territory.color }}></div>
+                        <span className="font-medium">{territory.name}</span>
+                        <Badge variant="secondary">{territory.zips.length} ZIPs</Badge>
+                        {shared && (
+                          <Badge
+                            variant="outline"
+                            className="border-amber-500 text-amber-700 gap-1"
+                            title={`Also in another territory: ${shared.join(', ')}`}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            {shared.length} shared
+                          </Badge>
+                        )}
+                      </div>
+                      {territory.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{territory.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onSelectZips(territory.zips)}
+                        className="h-8 w-8 p-0"
+                        title="Select on map"
+                      >
+                        <MousePointerClick className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEdit(territory, true)}
+                        disabled={selectedZips.length === 0}
+                        className="h-8 w-8 p-0"
+                        title="Add selected ZIPs"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openReport(territory)}
+                        className="h-8 w-8 p-0"
+                        title="Report"
+                      >
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => startEdit(territory)}
+                        className="h-8 w-8 p-0"
+                        title="Edit territory"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(territory.id)}
+                        className="h-8 w-8 p-0"
+                        title="Delete territory"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {values && (
+                    <div className="grid grid-cols-3 md:grid-cols-6 gap-3 text-sm">
+                      {SUMMARY_STATS.map(stat => (
+                        <div key={stat.label}>
+                          <p className="text-xs text-muted-foreground">{stat.label}</p>
+                          <p className="font-medium">{formatComparisonValue(stat.kind, stat.getValue(values))}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <TerritoryDialog
+        open={!!editing}
+        territory={editing?.draft ?? null}
+        territories={territories}
+        isNew={editing?.isNew ?? false}
+        onSave={(territory) => {
+          onSave(territory);
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+      />
+
+      <ReportDialog
+        open={!!reportSubject}
+        subject={reportSubject}
+        gradeBands={gradeBands}
+        onClose={() => setReportSubject(null)}
+      />
+    </Card>
+  );
+};
+
+export default TerritoryPanel;
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Crosshair, MousePointerClick, Radar, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DISTANCE_UNITS, computeTradeArea, parseCoordinates, parseRingDistances } from '@/utils/tradeArea';
+import { formatComparisonValue } from '@/utils/comparison';
+import type { ZoneCollection } from '@/types/zones';
+import type { DistanceUnit, TradeAreaRing } from '@/types/tradeArea';
+
+interface TradeAreaPanelProps {
+  geoJsonData?: ZoneCollection | null;
+  mapRef: React.MutableRefObject<L.Map | null>;
+  /** [lat, lng] of the trade area, set here or by clicking the map */
+  center: [number, number] | null;
+  onCenterChange: (center: [number, number] | null) => void;
+  isPicking: boolean;
+  onPickingChange: (isPicking: boolean) => void;
+  onSelectZips: (zips: string[]) => void;
+}
+
+const TRADE_AREA_PANE = 'tradeArea';
+const RING_COLOR = '#0f766e';
+
+const getStudents = (ring: TradeAreaRing) => {
+  const { Female, Male } = ring.rollup.values;
+  return Female == null && Male == null ? null : (Female ?? 0) + (Male ?? 0);
+};
+
+const TradeAreaPanel: React.FC<TradeAreaPanelProps> = ({
+  geoJsonData,
+  mapRef,
+  center,
+  onCenterChange,
+  isPicking,
+  onPickingChange,
+  onSelectZips,
+}) => {
+  const [coordinateText, setCoordinateText] = useState('');
+  const [distanceText, setDistanceText] = useState('5, 10');
+  const [unit, setUnit] = useState<DistanceUnit>('mi');
+  const [error, setError] = useState<string | null>(null);
+  const ringLayerRef = useRef<L.LayerGroup | null>(null);
+  const fittedCenterRef = useRef<[number, number] | null>(null);
+
+  // Show a point picked on the map in the coordinate box
+  useEffect(() => {
+    setCoordinateText(center ? `${center[0].toFixed(5)}, ${center[1].toFixed(5)}` : '');
+  }, [center]);
+
+  const distances = useMemo(() => parseRingDistances(distanceText), [distanceText]);
+
+  const result = useMemo(
+    () => (center && distances.length > 0 && geoJsonData?.features
+      ? computeTradeArea(geoJsonData.features, center, distances, unit)
+      : null),
+    [geoJsonData, center, distances, unit]
+  );
+
+  // Rings get their own pane above the zones, which are recreated whenever the filter changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (ringLayerRef.current) {
+      map.removeLayer(ringLayerRef.current);
+      ringLayerRef.current = null;
+    }
+    if (!result) return;
+
+    if (!map.getPane(TRADE_AREA_PANE)) {
+      const pane = map.createPane(TRADE_AREA_PANE);
+      pane.style.zIndex = '460';
+      pane.style.pointerEvents = 'none';
+    }
+
+    const circles = [...result.rings].reverse().map((ring, index) => L.circle(result.center, {
+      pane: TRADE_AREA_PANE,
+      interactive: false,
+      radius: ring.outer * DISTANCE_UNITS[result.unit].meters,
+      color: RING_COLOR,
+      weight: 2,
+      fillColor: RING_COLOR,
+      fillOpacity: 0.05 + index * 0.03,
+    }));
+    const marker = L.circleMarker(result.center, {
+      pane: TRADE_AREA_PANE,
+      interactive: false,
+      radius: 5,
+      color: '#ffffff',
+      weight: 2,
+      fillColor: RING_COLOR,
+      fillOpacity: 1,
+    });
+    ringLayerRef.current = L.layerGroup([...circles, marker]).addTo(map);
+
+    // Only a new center moves the map, so editing the rings or the filter leaves the view alone
+    if (fittedCenterRef.current !== result.center) {
+      fittedCenterRef.current = result.center;
+      map.fitBounds(circles[0].getBounds(), { padding: [20, 20] });
+    }
+  }, [mapRef, result]);
+
+  useEffect(() => () => {
+    if (ringLayerRef.current && mapRef.current) {
+      mapRef.current.removeLayer(ringLayerRef.current);
+    }
+  }, [mapRef]);
+
+  const applyCoordinates = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = parseCoordinates(coordinateText);
+    if (!parsed) {
+      setError('Enter coordinates as "latitude, longitude" in decimal degrees, e.g. 30.2672, -97.7431');
+      return;
+    }
+    setError(null);
+    onCenterChange(parsed);
+  };
+
+  const clear = () => {
+    setError(null);
+    onPickingChange(false);
+    onCenterChange(null);
+  };
+
+  const unitLabel = DISTANCE_UNITS[unit].label;
+  const rows = result ? [...result.rings, result.total] : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Radar className="h-5 w-5" />
+            Trade Area
+          </span>
+          {result && (
+            <span className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSelectZips(result.total.shares.map(share => share.zip))}
+                disabled={result.total.shares.length === 0}
+              >
+                <MousePointerClick className="h-4 w-4 mr-2" />
+                Select ZIPs ({result.total.shares.length})
+              </Button>
+              <Button variant="ghost" size="sm" onClick={clear} className="h-8 w-8 p-0" title="Clear trade area">
+                <X className="h-4 w-4" />
+              </Button>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={applyCoordinates} className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="trade-area-center" className="text-xs">Center (lat, lng)</Label>
+            <Input
+              id="trade-area-center"
+              value={coordinateText}
+              onChange={(e) => setCoordinateText(e.target.value)}
+              placeholder="30.2672, -97.7431"
+              className="h-8 w-52 text-xs"
+            />
+          </div>
+          <Button type="submit" variant="outline" size="sm" disabled={!coordinateText.trim()}>
+            Go
+          </Button>
+          <Button
+            type="button"
+            variant={isPicking ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onPickingChange(!isPicking)}
+          >
+            <Crosshair className="h-4 w-4 mr-2" />
+            {isPicking ? 'Click the map...' : 'Pick on Map'}
+          </Button>
+          <div className="space-y-1">
+            <Label htmlFor="trade-area-rings" className="text-xs">Rings</Label>
+            <Input
+              id="trade-area-rings"
+              value={distanceText}
+              onChange={(e) => setDistanceText(e.target.value)}
+              placeholder="5, 10, 15"
+              className="h-8 w-32 text-xs"
+            />
+          </div>
+          <Select value={unit} onValueChange={(value) => setUnit(value as DistanceUnit)}>
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DISTANCE_UNITS).map(([value, option]) => (
+                <SelectItem key={value} value={value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {distances.length === 0 && (
+          <p className="text-sm text-destructive">Enter one or more ring distances, e.g. 5, 10, 15.</p>
+        )}
+
+        {!result ? (
+          <p className="text-sm text-muted-foreground">
+            Pick a point on the map or type its coordinates to total the zones within each ring.
+            Zones partly inside a ring count in proportion to the share of their area inside it.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ring</TableHead>
+                  <TableHead className="text-right">ZIPs</TableHead>
+                  <TableHead className="text-right">Students</TableHead>
+                  <TableHead className="text-right">Population</TableHead>
+                  <TableHead className="text-right">Median income</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((ring, index) => {
+                  const isTotal = index === rows.length - 1;
+                  return (
+                    <TableRow key={index} className={isTotal ? 'font-medium bg-muted/50' : undefined}>
+                      <TableCell>
+                        {isTotal ? `Within ${ring.outer} ${unitLabel}` : `${ring.inner}–${ring.outer} ${unitLabel}`}
+                      </TableCell>
+                      <TableCell className="text-right">{ring.shares.length}</TableCell>
+                      <TableCell className="text-right">{formatComparisonValue('count', getStudents(ring))}</TableCell>
+                      <TableCell className="text-right">{formatComparisonValue('count', ring.rollup.values.pop)}</TableCell>
+                      <TableCell className="text-right">{formatComparisonValue('currency', ring.rollup.values.med_ncm)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {result.total.shares.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Share of each ZIP's area inside the trade area</p>
+                <div className="flex flex-wrap gap-1 max-h-28 overflow-y-auto">
+                  {result.total.shares.map(({ zip, share }) => (
+                    <Badge key={zip} variant={share >= 0.999 ? 'secondary' : 'outline'} className="text-xs">
+                      {zip} · {Math.round(share * 100)}%
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TradeAreaPanel;
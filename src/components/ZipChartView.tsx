@@ -1,36 +1,50 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { BarChart3, PieChart, Users, TrendingUp } from 'lucide-react';
+import { BarChart3, Layers, PieChart, Users, TrendingUp } from 'lucide-react';
+import { GRADE_LEVELS, getGradeLabel } from '@/utils/gradeBands';
+import type { ZipSummary } from '@/types/zones';
+import type { GradeBand } from '@/types/gradeBands';
 
 interface ZipChartViewProps {
   zipCode: string;
-  zipData: any;
+  zipData: ZipSummary;
+  gradeBands: GradeBand[];
 }
 
-const ZipChartView: React.FC<ZipChartViewProps> = ({ zipCode, zipData }) => {
+const ZipChartView: React.FC<ZipChartViewProps> = ({ zipCode, zipData, gradeBands }) => {
   // Calculate percentages for gender distribution
   const femalePercentage = zipData.totalStudents > 0 ? (zipData.totalFemale / zipData.totalStudents) * 100 : 0;
   const malePercentage = zipData.totalStudents > 0 ? (zipData.totalMale / zipData.totalStudents) * 100 : 0;
 
   // Grade level data
-  const gradeData = [
-    { name: 'Pre-K', value: zipData.processedTotals?.get('Pre_K') || 0, color: '#3b82f6' },
-    { name: 'KG', value: zipData.processedTotals?.get('KG') || 0, color: '#10b981' },
-    { name: 'Grade 1', value: zipData.processedTotals?.get('Grade_1') || 0, color: '#f59e0b' },
-    { name: 'Grade 2', value: zipData.processedTotals?.get('Grade_2') || 0, color: '#ef4444' },
-    { name: 'Grade 3', value: zipData.processedTotals?.get('Grade_3') || 0, color: '#8b5cf6' },
-    { name: 'Grade 4', value: zipData.processedTotals?.get('Grade_4') || 0, color: '#06b6d4' },
-    { name: 'Grade 5', value: zipData.processedTotals?.get('Grade_5') || 0, color: '#84cc16' },
-  ];
+  const gradeData = GRADE_LEVELS.map(level => ({
+    name: level.label,
+    value: zipData.processedTotals?.get(level.field) || 0,
+    color: level.color,
+  }));
 
   const maxGradeValue = Math.max(...gradeData.map(g => g.value));
   const chartHeight = 300;
-  const barWidth = 70;
-  const barSpacing = 25;
+  const barWidth = 48;
+  const barSpacing = 16;
   const leftMargin = 80;
   const rightMargin = 40;
   const chartWidth = leftMargin + rightMargin + (gradeData.length * (barWidth + barSpacing)) - barSpacing;
 
+  // One stacked bar per band, one segment per grade in it
+  const bandRows = gradeBands.map(band => {
+    const segments = band.grades.map(field => ({
+      field,
+      value: zipData.processedTotals?.get(field) || 0,
+      color: GRADE_LEVELS.find(level => level.field === field)?.color || '#94a3b8',
+    }));
+    return { ...band, segments, total: segments.reduce((sum, segment) => sum + segment.value, 0) };
+  });
+  const maxBandTotal = Math.max(0, ...bandRows.map(band => band.total));
+  const bandLabelWidth = 130;
+  const bandBarWidth = 460;
+  const bandChartWidth = bandLabelWidth + bandBarWidth + 120;
+
   return (
     <div className="space-y-6">
       {/* Grade Level Bar Chart */}
@@ -116,7 +130,7 @@ const ZipChartView: React.FC<ZipChartViewProps> = ({ zipCode, zipData }) => {
                       x={x + barWidth / 2}
                       y={chartHeight - 25}
                       textAnchor="middle"
-                      className="text-sm font-medium fill-gray-600"
+                      className="text-xs font-medium fill-gray-600"
                     >
                       {grade.name}
                     </text>
@@ -138,6 +152,57 @@ const ZipChartView: React.FC<ZipChartViewProps> = ({ zipCode, zipData }) => {
         </CardContent>
       </Card>
 
+      {/* Grade Band Stacked Bars */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Grade Bands
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="w-full overflow-x-auto">
+            <svg width={bandChartWidth} height={bandRows.length * 44 + 20} className="mx-auto">
+              {bandRows.map((band, row) => {
+                const y = 10 + row * 44;
+                let x = bandLabelWidth;
+
+                return (
+                  <g key={band.id}>
+                    <text x={bandLabelWidth - 10} y={y + 18} textAnchor="end" className="text-sm font-medium fill-gray-700">
+                      {band.label}
+                    </text>
+                    <rect x={bandLabelWidth} y={y} width={bandBarWidth} height={28} fill="#f1f5f9" rx="4" />
+                    {band.segments.map(segment => {
+                      const width = maxBandTotal > 0 ? (segment.value / maxBandTotal) * bandBarWidth : 0;
+                      const segmentX = x;
+                      x += width;
+                      return (
+                        <rect key={segment.field} x={segmentX} y={y} width={width} height={28} fill={segment.color} fillOpacity="0.8">
+                          <title>{`${getGradeLabel(segment.field)}: ${segment.value.toLocaleString()}`}</title>
+                        </rect>
+                      );
+                    })}
+                    <text x={x + 8} y={y + 18} className="text-sm font-semibold fill-gray-700">
+                      {band.total.toLocaleString()}
+                      {zipData.totalStudents > 0 && ` (${(band.total / zipData.totalStudents * 100).toFixed(1)}%)`}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+          <div className="flex flex-wrap justify-center gap-3 mt-3 text-xs">
+            {GRADE_LEVELS.filter(level => gradeBands.some(band => band.grades.includes(level.field))).map(level => (
+              <div key={level.field} className="flex items-center gap-1">
+                <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: level.color }} />
+                <span>{level.label}</span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Gender Distribution Area Chart */}
       <Card>
         <CardHeader>
@@ -284,7 +349,7 @@ const ZipChartView: React.FC<ZipChartViewProps> = ({ zipCode, zipData }) => {
               <div className="flex items-center justify-between p-4 bg-gradient-to-r from-orange-50 to-orange-100 rounded-lg">
                 <div>
                   <div className="text-2xl font-bold text-orange-600">
-                    {zipData.processedTotals?.get('Stdnt_R') || 0}
+                    {(zipData.processedTotals?.get('Stdnt_R') ?? 0).toFixed(1)}
                   </div>
                   <div className="text-sm text-gray-600">Student Ratio</div>
                 </div>
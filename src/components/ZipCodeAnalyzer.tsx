@@ -4,18 +4,53 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { MapPin, Eye, Calculator, Map as MapIcon, BarChart3 } from 'lucide-react';
+import { MapPin, Eye, Calculator, Map as MapIcon, BarChart3, Users, TrendingUp, Columns3, Printer } from 'lucide-react';
 import ZipMapView from './ZipMapView';
 import ZipChartView from './ZipChartView';
+import DemographicsPanel from './DemographicsPanel';
+import SocioeconomicPanel from './SocioeconomicPanel';
+import ReportDialog from './ReportDialog';
+import { ZONE_NUMERIC_FIELDS } from '@/types/zones';
+import { rollUpZones } from '@/utils/aggregation';
+import { getGradeLabel } from '@/utils/gradeBands';
+import { buildSocioeconomicDistributions } from '@/utils/socioeconomics';
+import type { GradeBand } from '@/types/gradeBands';
+import type { ReportSubject } from '@/types/report';
+import type { ZipSummary, ZoneCollection, ZoneNumericField, ZoneProperties } from '@/types/zones';
 
 interface ZipCodeAnalyzerProps {
-  geoJsonData?: any;
-  onZipSelect?: (zipCode: string) => void;
+  geoJsonData?: ZoneCollection | null;
+  /** Unfiltered dataset, the reference for statewide percentiles */
+  statewideData?: ZoneCollection | null;
   initialSelectedZip?: string;
+  /** Called when a ZIP is picked here, so the parent can keep it in the URL */
+  onSelectedZipChange?: (zipCode: string) => void;
+  /** ZIPs selected on the overview map, ranked against as a group in the socioeconomic profile */
+  selectedZips?: string[];
+  /** Active detail tab */
+  detailView: string;
+  onDetailViewChange: (view: string) => void;
+  gradeBands: GradeBand[];
+  /** Add the ZIP to the comparison workspace */
+  onCompare?: (zipCode: string) => void;
 }
 
-const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSelect, initialSelectedZip }) => {
+// A percentile among fewer ZIPs says nothing
+const MIN_SELECTION_ZIPS = 2;
+
+const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({
+  geoJsonData,
+  statewideData,
+  initialSelectedZip,
+  onSelectedZipChange,
+  detailView,
+  onDetailViewChange,
+  selectedZips = [],
+  gradeBands,
+  onCompare,
+}) => {
   const [selectedZip, setSelectedZip] = useState<string>('');
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   // Update selectedZip when initialSelectedZip changes
   useEffect(() => {
@@ -26,81 +61,95 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
     }
   }, [initialSelectedZip]);
 
+  const selectZip = (zipCode: string) => {
+    setSelectedZip(zipCode);
+    onSelectedZipChange?.(zipCode);
+  };
+
   const zipAnalysis = useMemo(() => {
     if (!geoJsonData?.features) return null;
 
-    const zipData = new Map();
+    const recordsByZip = new Map<string, ZoneProperties[]>();
 
-    geoJsonData.features.forEach((feature: any) => {
-      const props = feature.properties || {};
-      const zip = props.Zip || props.ZIP || props.zipcode;
+    geoJsonData.features.forEach(feature => {
+      const props = feature.properties;
+      const zip = props.Zip;
 
       if (!zip) return;
 
-      if (!zipData.has(zip)) {
-        zipData.set(zip, {
-          zip,
-          rawRecords: [],
-          count: 0,
-          population: 0,
-          totalStudents: 0,
-          totalFemale: 0,
-          totalMale: 0,
-          totalSchools: 0,
-          totalPreK: 0,
-          totalKG: 0,
-          totalGrade1: 0,
-          totalGrade2: 0,
-          totalGrade3: 0,
-          processedTotals: new Map(),
-        });
+      if (!recordsByZip.has(zip)) {
+        recordsByZip.set(zip, []);
       }
+      recordsByZip.get(zip)!.push(props);
+    });
 
-      const zipInfo = zipData.get(zip);
-      zipInfo.rawRecords.push(props);
-      zipInfo.count++;
-
-      // Process all numeric fields dynamically
-      Object.entries(props).forEach(([key, value]) => {
-        const numValue = parseInt(String(value || 0));
-        if (!isNaN(numValue) && numValue >= 0) {
-          if (!zipInfo.processedTotals.has(key)) {
-            zipInfo.processedTotals.set(key, 0);
-          }
-          zipInfo.processedTotals.set(key, zipInfo.processedTotals.get(key) + numValue);
-        }
-      });
-
-      const female = parseInt(props.Female || 0);
-      const male = parseInt(props.Male || 0);
-      const population = parseInt(props.pop || 0);
-      const schools = parseInt(props.Schl_Cn || 0);
-      const preK = parseInt(props.Pre_K || 0);
-      const kg = parseInt(props.KG || 0);
-      const grade1 = parseInt(props.Grade_1 || 0);
-      const grade2 = parseInt(props.Grade_2 || 0);
-      const grade3 = parseInt(props.Grade_3 || 0);
-
-      zipInfo.totalFemale += female;
-      zipInfo.totalMale += male;
-      zipInfo.population += population;
-      zipInfo.totalSchools += schools;
-      zipInfo.totalPreK += preK;
-      zipInfo.totalKG += kg;
-      zipInfo.totalGrade1 += grade1;
-      zipInfo.totalGrade2 += grade2;
-      zipInfo.totalGrade3 += grade3;
-      zipInfo.totalStudents = zipInfo.totalFemale + zipInfo.totalMale;
+    // Every field is rolled up by its aggregation rule, so rates are weighted means rather than sums
+    const zipData = Array.from(recordsByZip.entries()).map(([zip, records]): ZipSummary => {
+      const { values } = rollUpZones(records);
+
+      return {
+        zip,
+        rawRecords: records,
+        count: records.length,
+        population: values.pop ?? 0,
+        totalStudents: (values.Female ?? 0) + (values.Male ?? 0),
+        totalFemale: values.Female ?? 0,
+        totalMale: values.Male ?? 0,
+        totalSchools: values.Schl_Cn ?? 0,
+        totalPreK: values.Pre_K ?? 0,
+        totalKG: values.KG ?? 0,
+        totalGrade1: values.Grade_1 ?? 0,
+        totalGrade2: values.Grade_2 ?? 0,
+        totalGrade3: values.Grade_3 ?? 0,
+        processedTotals: new Map(
+          ZONE_NUMERIC_FIELDS
+            .filter(field => values[field] != null)
+            .map(field => [field, values[field]!] as [ZoneNumericField, number])
+        ),
+      };
     });
 
-    return Array.from(zipData.values()).sort((a, b) => a.zip.localeCompare(b.zip));
+    return zipData.sort((a, b) => a.zip.localeCompare(b.zip));
   }, [geoJsonData]);
 
+  const statewideDistributions = useMemo(
+    () => buildSocioeconomicDistributions((statewideData || geoJsonData)?.features || []),
+    [statewideData, geoJsonData]
+  );
+
+  // Only differs from statewide while a filter narrows the dataset
+  const filteredDistributions = useMemo(
+    () => (statewideData && geoJsonData && statewideData !== geoJsonData
+      ? buildSocioeconomicDistributions(geoJsonData.features)
+      : null),
+    [statewideData, geoJsonData]
+  );
+
+  // Ranked against the full dataset's records of the selected ZIPs, so the filter doesn't change the group
+  const selectionDistributions = useMemo(() => {
+    if (selectedZips.length < MIN_SELECTION_ZIPS) return null;
+    const zips = new Set(selectedZips);
+    return buildSocioeconomicDistributions(
+      ((statewideData || geoJsonData)?.features || []).filter(feature => zips.has(feature.properties.Zip))
+    );
+  }, [selectedZips, statewideData, geoJsonData]);
+
   const selectedZipData = useMemo(() => {
     if (!selectedZip || !zipAnalysis) return null;
     return zipAnalysis.find(zip => zip.zip === selectedZip);
   }, [selectedZip, zipAnalysis]);
 
+  const reportSubject = useMemo((): ReportSubject | null => {
+    if (!selectedZip || !geoJsonData) return null;
+    const features = geoJsonData.features.filter(feature => feature.properties.Zip === selectedZip);
+    return {
+      title: `ZIP Code ${selectedZip}`,
+      subtitle: `${features.length} record(s)${features[0]?.properties.state ? ` · ${features[0].properties.state}` : ''}`,
+      features,
+      color: '#7c3aed',
+    };
+  }, [selectedZip, geoJsonData]);
+
   if (!zipAnalysis) {
     return (
       <Card>
@@ -132,12 +181,12 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
               </p>
 
               <div className="flex items-center gap-4">
-                <Select value={selectedZip} onValueChange={setSelectedZip}>
+                <Select value={selectedZip} onValueChange={selectZip}>
                   <SelectTrigger className="w-64">
                     <SelectValue placeholder="Choose a ZIP code..." />
                   </SelectTrigger>
                   <SelectContent>
-                    {zipAnalysis.map((zip: any) => (
+                    {zipAnalysis.map(zip => (
                       <SelectItem key={zip.zip} value={zip.zip}>
                         {zip.zip} ({zip.totalStudents} students)
                       </SelectItem>
@@ -174,12 +223,12 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
     <div className="space-y-4">
       {/* ZIP Selector */}
       <div className="flex items-center gap-2 flex-wrap">
-        <Select value={selectedZip} onValueChange={setSelectedZip}>
+        <Select value={selectedZip} onValueChange={selectZip}>
           <SelectTrigger className="w-64">
             <SelectValue placeholder="Choose a ZIP code..." />
           </SelectTrigger>
           <SelectContent>
-            {zipAnalysis.map((zip: any) => (
+            {zipAnalysis.map(zip => (
               <SelectItem key={zip.zip} value={zip.zip}>
                 {zip.zip} ({zip.totalStudents} students)
               </SelectItem>
@@ -191,9 +240,23 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
       {/* ZIP Details */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MapPin className="h-5 w-5" />
-            ZIP Code {selectedZip} - Detailed Analysis
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <MapPin className="h-5 w-5" />
+              ZIP Code {selectedZip} - Detailed Analysis
+            </span>
+            <span className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsReportOpen(true)}>
+                <Printer className="h-4 w-4 mr-2" />
+                Report
+              </Button>
+              {onCompare && (
+                <Button variant="outline" size="sm" onClick={() => onCompare(selectedZip)}>
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Compare
+                </Button>
+              )}
+            </span>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -222,8 +285,8 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
           </div>
 
           {/* Detailed Data Tabs */}
-          <Tabs defaultValue="map" className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+          <Tabs value={detailView} onValueChange={onDetailViewChange} className="w-full">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="map">
                 <MapIcon className="h-4 w-4 mr-2" />
                 Map View
@@ -232,6 +295,14 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                 <BarChart3 className="h-4 w-4 mr-2" />
                 Charts
               </TabsTrigger>
+              <TabsTrigger value="demographics">
+                <Users className="h-4 w-4 mr-2" />
+                Demographics
+              </TabsTrigger>
+              <TabsTrigger value="socioeconomic">
+                <TrendingUp className="h-4 w-4 mr-2" />
+                Socioeconomic
+              </TabsTrigger>
               <TabsTrigger value="processed">
                 <Calculator className="h-4 w-4 mr-2" />
                 Processed Data
@@ -247,6 +318,7 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                 zipCode={selectedZip}
                 zipData={selectedZipData}
                 geoJsonData={geoJsonData}
+                gradeBands={gradeBands}
               />
             </TabsContent>
 
@@ -254,6 +326,24 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
               <ZipChartView
                 zipCode={selectedZip}
                 zipData={selectedZipData}
+                gradeBands={gradeBands}
+              />
+            </TabsContent>
+
+            <TabsContent value="demographics" className="space-y-4">
+              <DemographicsPanel
+                title={`Race/Ethnicity Composition - ZIP ${selectedZip}`}
+                totals={selectedZipData.processedTotals}
+              />
+            </TabsContent>
+
+            <TabsContent value="socioeconomic" className="space-y-4">
+              <SocioeconomicPanel
+                zipCode={selectedZip}
+                totals={selectedZipData.processedTotals}
+                statewide={statewideDistributions}
+                filtered={filteredDistributions}
+                selection={selectionDistributions}
               />
             </TabsContent>
 
@@ -287,38 +377,27 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                       </div>
                     </div>
 
-                    {/* Grade Levels */}
+                    {/* Grade Levels, grouped by band */}
                     <div className="space-y-3">
                       <h4 className="font-medium text-green-600 border-b pb-1">Grade Levels</h4>
-                      <div className="space-y-2 text-sm">
-                        <div className="flex justify-between">
-                          <span>Pre-K:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Pre_K') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Kindergarten (KG):</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('KG') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Grade 1:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Grade_1') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Grade 2:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Grade_2') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Grade 3:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Grade_3') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Grade 4:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Grade_4') || 0}</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span>Grade 5:</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Grade_5') || 0}</span>
-                        </div>
+                      <div className="space-y-3 text-sm">
+                        {gradeBands.map(band => (
+                          <div key={band.id} className="space-y-1">
+                            <div className="flex justify-between font-medium">
+                              <span className="flex items-center gap-2">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: band.color }} />
+                                {band.label}:
+                              </span>
+                              <span>{band.grades.reduce((sum, field) => sum + (selectedZipData.processedTotals?.get(field) || 0), 0)}</span>
+                            </div>
+                            {band.grades.map(field => (
+                              <div key={field} className="flex justify-between pl-4 text-muted-foreground">
+                                <span>{getGradeLabel(field)}:</span>
+                                <span>{selectedZipData.processedTotals?.get(field) || 0}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
                       </div>
                     </div>
 
@@ -331,7 +410,7 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                           <span className="font-medium">
                             {(() => {
                               const levels = new Set();
-                              selectedZipData.rawRecords.forEach((r: any) => {
+                              selectedZipData.rawRecords.forEach(r => {
                                 if (r.Schl_Lv) levels.add(r.Schl_Lv);
                               });
                               return Array.from(levels).join(', ') || 'N/A';
@@ -344,14 +423,14 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                         </div>
                         <div className="flex justify-between">
                           <span>Student Ratio (Stdnt_R):</span>
-                          <span className="font-medium">{selectedZipData.processedTotals?.get('Stdnt_R') || 0}</span>
+                          <span className="font-medium">{(selectedZipData.processedTotals?.get('Stdnt_R') ?? 0).toFixed(1)}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>State:</span>
                           <span className="font-medium">
                             {(() => {
                               const states = new Set();
-                              selectedZipData.rawRecords.forEach((r: any) => {
+                              selectedZipData.rawRecords.forEach(r => {
                                 if (r.state) states.add(r.state);
                               });
                               return Array.from(states).join(', ') || 'N/A';
@@ -376,7 +455,7 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                     <p className="text-sm font-medium text-blue-800">
                       Showing all {(() => {
                         const allProperties = new Set<string>();
-                        selectedZipData.rawRecords.forEach((record: any) => {
+                        selectedZipData.rawRecords.forEach(record => {
                           Object.keys(record).forEach(key => allProperties.add(key));
                         });
                         return allProperties.size;
@@ -386,7 +465,7 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
 
                   {/* Vertical Records Display */}
                   <div className="space-y-6 max-h-96 overflow-y-auto">
-                    {selectedZipData.rawRecords.map((record: any, recordIndex: number) => {
+                    {selectedZipData.rawRecords.map((record: ZoneProperties, recordIndex: number) => {
                       // Get all properties for this record
                       const properties = Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
 
@@ -423,7 +502,7 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                                 <div className="text-muted-foreground">Male</div>
                               </div>
                               <div className="text-center p-2 bg-purple-50 rounded">
-                                <div className="font-bold text-purple-600">{(parseInt(record.Female || 0) + parseInt(record.Male || 0))}</div>
+                                <div className="font-bold text-purple-600">{(record.Female ?? 0) + (record.Male ?? 0)}</div>
                                 <div className="text-muted-foreground">Total</div>
                               </div>
                               <div className="text-center p-2 bg-orange-50 rounded">
@@ -445,8 +524,8 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
                   {/* Manual Verification */}
                   <div className="mt-4 p-3 bg-gray-50 rounded text-xs">
                     <p className="font-medium mb-1">Manual Verification:</p>
-                    <p>Female sum = {selectedZipData.rawRecords.reduce((sum: number, r: any) => sum + parseInt(r.Female || 0), 0)}</p>
-                    <p>Male sum = {selectedZipData.rawRecords.reduce((sum: number, r: any) => sum + parseInt(r.Male || 0), 0)}</p>
+                    <p>Female sum = {selectedZipData.rawRecords.reduce((sum, r) => sum + (r.Female ?? 0), 0)}</p>
+                    <p>Male sum = {selectedZipData.rawRecords.reduce((sum, r) => sum + (r.Male ?? 0), 0)}</p>
                   </div>
                 </CardContent>
               </Card>
@@ -454,6 +533,13 @@ const ZipCodeAnalyzer: React.FC<ZipCodeAnalyzerProps> = ({ geoJsonData, onZipSel
           </Tabs>
         </CardContent>
       </Card>
+
+      <ReportDialog
+        open={isReportOpen}
+        subject={reportSubject}
+        gradeBands={gradeBands}
+        onClose={() => setIsReportOpen(false)}
+      />
     </div>
   );
 };
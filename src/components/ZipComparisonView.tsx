@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Columns3, Eye, Maximize2, Plus, X } from 'lucide-react';
+import ComparisonMiniMap from './ComparisonMiniMap';
+import {
+  MAX_COMPARISON_ZIPS,
+  MIN_COMPARISON_ZIPS,
+  buildComparisonMetrics,
+  buildComparisonZips,
+  formatComparisonDelta,
+  formatComparisonValue,
+} from '@/utils/comparison';
+import { GRADE_LEVELS } from '@/utils/gradeBands';
+import { getRaceComposition } from '@/utils/demographics';
+import type { ZoneCollection } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+import type { GradeBand } from '@/types/gradeBands';
+
+interface ZipComparisonViewProps {
+  geoJsonData?: ZoneCollection | null;
+  zips: string[];
+  onZipsChange: (zips: string[]) => void;
+  gradeBands: GradeBand[];
+  derivedFields: DerivedField[];
+  onZipSelect?: (zipCode: string) => void;
+}
+
+// Chart series keys must be valid CSS variable names for ChartContainer
+const toSeriesKey = (zip: string) => `zip${zip}`;
+
+const ZipComparisonView: React.FC<ZipComparisonViewProps> = ({
+  geoJsonData,
+  zips,
+  onZipsChange,
+  gradeBands,
+  derivedFields,
+  onZipSelect,
+}) => {
+  const [zipInput, setZipInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [baselineZip, setBaselineZip] = useState<string | null>(null);
+  const [linkedZoom, setLinkedZoom] = useState<number | null>(null);
+
+  const knownZips = useMemo(
+    () => new Set((geoJsonData?.features || []).map(feature => feature.properties.Zip).filter(Boolean)),
+    [geoJsonData]
+  );
+
+  const compared = useMemo(
+    () => buildComparisonZips(geoJsonData?.features || [], zips, derivedFields),
+    [geoJsonData, zips, derivedFields]
+  );
+
+  const metrics = useMemo(() => buildComparisonMetrics(gradeBands, derivedFields), [gradeBands, derivedFields]);
+
+  const featuresByZip = useMemo(() => {
+    const byZip = new Map<string, ZoneCollection['features']>();
+    (geoJsonData?.features || []).forEach(feature => {
+      const zip = feature.properties.Zip;
+      if (!zips.includes(zip)) return;
+      if (!byZip.has(zip)) {
+        byZip.set(zip, []);
+      }
+      byZip.get(zip)!.push(feature);
+    });
+    return byZip;
+  }, [geoJsonData, zips]);
+
+  // Keep the baseline on a compared ZIP, defaulting to the first one
+  const baseline = compared.find(zip => zip.zip === baselineZip) || compared[0];
+
+  // Each map fits its own ZIP again whenever the set of ZIPs changes
+  useEffect(() => {
+    setLinkedZoom(null);
+  }, [zips]);
+
+  const addZip = () => {
+    const zip = zipInput.trim();
+    if (!zip) return;
+    if (!knownZips.has(zip)) {
+      setInputError(`ZIP ${zip} is not in the current dataset`);
+      return;
+    }
+    if (zips.includes(zip)) {
+      setInputError(`ZIP ${zip} is already being compared`);
+      return;
+    }
+    console.log(`➕ Adding ZIP ${zip} to comparison`);
+    onZipsChange([...zips, zip]);
+    setZipInput('');
+    setInputError(null);
+  };
+
+  const removeZip = (zip: string) => {
+    onZipsChange(zips.filter(candidate => candidate !== zip));
+  };
+
+  const chartConfig = useMemo(
+    () => Object.fromEntries(compared.map(zip => [toSeriesKey(zip.zip), { label: `ZIP ${zip.zip}`, color: zip.color }])),
+    [compared]
+  );
+
+  // Shares rather than counts, so ZIPs of different sizes overlay on one scale
+  const gradeChartData = useMemo(() => GRADE_LEVELS.map(level => ({
+    grade: level.label,
+    ...Object.fromEntries(compared.map(zip => {
+      const total = GRADE_LEVELS.reduce((sum, candidate) => sum + (zip.values[candidate.field] ?? 0), 0);
+      return [toSeriesKey(zip.zip), total > 0 ? Number((((zip.values[level.field] ?? 0) / total) * 100).toFixed(1)) : 0];
+    })),
+  })), [compared]);
+
+  const demographicChartData = useMemo(() => {
+    const compositions = compared.map(zip => ({ zip, composition: getRaceComposition(zip.values) }));
+    const labels = Array.from(new Set(compositions.flatMap(({ composition }) => composition.groups.map(group => group.label))));
+    return labels.map(label => ({
+      group: label,
+      ...Object.fromEntries(compositions.map(({ zip, composition }) => {
+        const share = composition.groups.find(group => group.label === label)?.share ?? 0;
+        return [toSeriesKey(zip.zip), Number((share * 100).toFixed(1))];
+      })),
+    }));
+  }, [compared]);
+
+  const metricGroups = useMemo(
+    () => Array.from(new Set(metrics.map(metric => metric.group))),
+    [metrics]
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            Compare ZIP Codes
+            <Badge variant="secondary">{zips.length} / {MAX_COMPARISON_ZIPS}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {compared.map(zip => (
+              <Badge key={zip.zip} variant="outline" className="flex items-center gap-2 py-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: zip.color }} />
+                ZIP {zip.zip}
+                <button type="button" onClick={() => removeZip(zip.zip)} title="Remove from comparison">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Add a ZIP code..."
+              value={zipInput}
+              onChange={(e) => {
+                setZipInput(e.target.value);
+                setInputError(null);
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') addZip(); }}
+              disabled={zips.length >= MAX_COMPARISON_ZIPS}
+              className="h-8 w-48"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addZip}
+              disabled={zips.length >= MAX_COMPARISON_ZIPS || !zipInput.trim()}
+              className="h-8 px-3 text-xs"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add
+            </Button>
+            {zips.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => onZipsChange([])} className="h-8 px-3 text-xs">
+                Clear all
+              </Button>
+            )}
+          </div>
+          {inputError && <p className="text-xs text-destructive">{inputError}</p>}
+          {compared.length < MIN_COMPARISON_ZIPS && (
+            <p className="text-sm text-muted-foreground">
+              Add {MIN_COMPARISON_ZIPS} to {MAX_COMPARISON_ZIPS} ZIPs here, from the ZIP tab or from a Multi-ZIP selection on the overview map.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {compared.length >= MIN_COMPARISON_ZIPS && (
+        <>
+          {/* Linked mini-maps */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center justify-between">
+                <span>Maps</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLinkedZoom(null)}
+                  disabled={linkedZoom == null}
+                  className="h-8 px-3 text-xs"
+                >
+                  <Maximize2 className="h-3 w-3 mr-1" />
+                  Fit each ZIP
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {compared.map(zip => (
+                  <div key={zip.zip} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm font-medium">
+                      <span className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: zip.color }} />
+                        ZIP {zip.zip}
+                      </span>
+                      {onZipSelect && (
+                        <Button variant="ghost" size="sm" onClick={() => onZipSelect(zip.zip)} className="h-6 px-2 text-xs">
+                          <Eye className="h-3 w-3 mr-1" />
+                          Details
+                        </Button>
+                      )}
+                    </div>
+                    <ComparisonMiniMap
+                      features={featuresByZip.get(zip.zip) || []}
+                      color={zip.color}
+                      zoom={linkedZoom}
+                      onZoomChange={setLinkedZoom}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Zooming one map zooms all of them to the same scale.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Synchronized metrics table */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Metrics</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Metric</th>
+                      {compared.map(zip => (
+                        <th key={zip.zip} className="text-right p-2">
+                          <button
+                            type="button"
+                            onClick={() => setBaselineZip(zip.zip)}
+                            className="inline-flex items-center gap-2 hover:underline"
+                            title="Compare the other ZIPs against this one"
+                          >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: zip.color }} />
+                            {zip.zip}
+                          </button>
+                          {zip.zip === baseline.zip && (
+                            <div className="text-xs font-normal text-muted-foreground">baseline</div>
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metricGroups.map(group => (
+                      <React.Fragment key={group}>
+                        <tr className="bg-muted/40">
+                          <td colSpan={compared.length + 1} className="p-2 text-xs font-medium text-muted-foreground">{group}</td>
+                        </tr>
+                        {metrics.filter(metric => metric.group === group).map(metric => {
+                          const baselineValue = metric.getValue(baseline);
+                          return (
+                            <tr key={metric.id} className="border-b hover:bg-gray-50">
+                              <td className="p-2">{metric.label}</td>
+                              {compared.map(zip => {
+                                const value = metric.getValue(zip);
+                                const delta = zip.zip === baseline.zip ? null : formatComparisonDelta(metric.kind, value, baselineValue);
+                                return (
+                                  <td key={zip.zip} className="p-2 text-right">
+                                    <div className="font-medium">{formatComparisonValue(metric.kind, value)}</div>
+                                    {delta && (
+                                      <div className="text-xs text-muted-foreground">{delta}</div>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          );
+                        })}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-muted-foreground">
+                Click a ZIP header to make it the baseline for deltas.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Overlaid charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Grade Mix (% of enrollment)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <LineChart data={gradeChartData} margin={{ top: 10, right: 10, left: 0, bottom: 30 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="grade" tickLine={false} axisLine={false} interval={0} angle={-45} textAnchor="end" height={40} />
+                    <YAxis tickLine={false} axisLine={false} width={40} unit="%" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {compared.map(zip => (
+                      <Line
+                        key={zip.zip}
+                        type="monotone"
+                        dataKey={toSeriesKey(zip.zip)}
+                        stroke={`var(--color-${toSeriesKey(zip.zip)})`}
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm">Race/Ethnicity (% of students)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={demographicChartData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="group" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} unit="%" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {compared.map(zip => (
+                      <Bar
+                        key={zip.zip}
+                        dataKey={toSeriesKey(zip.zip)}
+                        fill={`var(--color-${toSeriesKey(zip.zip)})`}
+                        radius={[4, 4, 0, 0]}
+                      />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ZipComparisonView;
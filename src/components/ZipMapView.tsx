@@ -3,6 +3,8 @@ import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MapPin } from 'lucide-react';
+import type { ZipSummary, ZoneCollection } from '@/types/zones';
+import type { GradeBand } from '@/types/gradeBands';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -14,14 +16,16 @@ L.Icon.Default.mergeOptions({
 
 interface ZipMapViewProps {
   zipCode: string;
-  zipData: any;
-  geoJsonData?: any;
+  zipData: ZipSummary;
+  geoJsonData?: ZoneCollection | null;
+  gradeBands: GradeBand[];
 }
 
-const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData }) => {
+const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData, gradeBands }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const geoJsonLayerRef = useRef<L.GeoJSON | null>(null);
+  const labelMarkerRef = useRef<L.Marker | null>(null);
 
   useEffect(() => {
     if (!mapRef.current) return;
@@ -53,17 +57,13 @@ const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData }
     if (geoJsonLayerRef.current) {
       mapInstanceRef.current.removeLayer(geoJsonLayerRef.current);
     }
-    if (mapInstanceRef.current.zipLabelMarker) {
-      mapInstanceRef.current.removeLayer(mapInstanceRef.current.zipLabelMarker);
-      mapInstanceRef.current.zipLabelMarker = null;
+    if (labelMarkerRef.current) {
+      mapInstanceRef.current.removeLayer(labelMarkerRef.current);
+      labelMarkerRef.current = null;
     }
 
     // Filter GeoJSON data for the selected ZIP code
-    const filteredFeatures = geoJsonData.features.filter((feature: any) => {
-      const props = feature.properties || {};
-      const zip = props.Zip || props.ZIP || props.zipcode;
-      return zip === zipCode;
-    });
+    const filteredFeatures = geoJsonData.features.filter(feature => feature.properties.Zip === zipCode);
 
     if (filteredFeatures.length === 0) return;
 
@@ -115,18 +115,18 @@ const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData }
             </div>
 
             <div style="border-top: 1px solid #e5e7eb; padding-top: 8px;">
-              <div style="font-size: 12px; color: #6b7280; margin-bottom: 4px;"><strong>Grade Levels:</strong></div>
+              <div style="font-size: 12px; color: #6b7280; margin-bottom: 4px;"><strong>Grade Bands:</strong></div>
               <div style="font-size: 11px; color: #374151;">
-                Pre-K: ${zipData.processedTotals?.get('Pre_K') || 0} |
-                KG: ${zipData.processedTotals?.get('KG') || 0} |
-                Grade 1-3: ${(zipData.processedTotals?.get('Grade_1') || 0) + (zipData.processedTotals?.get('Grade_2') || 0) + (zipData.processedTotals?.get('Grade_3') || 0)}
+                ${gradeBands
+            .map(band => `${band.label}: ${band.grades.reduce((sum, field) => sum + (zipData.processedTotals?.get(field) || 0), 0)}`)
+            .join(' | ')}
               </div>
             </div>
 
             <div style="border-top: 1px solid #e5e7eb; padding-top: 8px; margin-top: 8px;">
               <div style="font-size: 11px; color: #6b7280;">
                 <strong>School Count:</strong> ${zipData.processedTotals?.get('Schl_Cn') || 0}<br>
-                <strong>Student Ratio:</strong> ${zipData.processedTotals?.get('Stdnt_R') || 0}
+                <strong>Student Ratio:</strong> ${(zipData.processedTotals?.get('Stdnt_R') ?? 0).toFixed(1)}
               </div>
             </div>
           </div>
@@ -200,8 +200,8 @@ const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData }
       const labelMarker = L.marker(center, { icon: labelIcon }).addTo(mapInstanceRef.current);
 
       // Store reference to remove later
-      if (!mapInstanceRef.current.zipLabelMarker) {
-        mapInstanceRef.current.zipLabelMarker = labelMarker;
+      if (!labelMarkerRef.current) {
+        labelMarkerRef.current = labelMarker;
       }
     }
 
@@ -216,7 +216,7 @@ const ZipMapView: React.FC<ZipMapViewProps> = ({ zipCode, zipData, geoJsonData }
         maxZoom: 12 // Don't zoom in too much
       });
     }
-  }, [geoJsonData, zipCode, zipData]);
+  }, [geoJsonData, zipCode, zipData, gradeBands]);
 
   return (
     <Card>
@@ -1,135 +1,161 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import Header from '@/components/Header';
 import FileUpload from '@/components/FileUpload';
 import DataExplorer from '@/components/DataExplorer';
 import ZipCodeAnalyzer from '@/components/ZipCodeAnalyzer';
+import FilterPanel from '@/components/FilterPanel';
+import ZipComparisonView from '@/components/ZipComparisonView';
+import RankingsView from '@/components/RankingsView';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { loadShapefileFromPublic, checkShapefileExists } from '@/utils/shapefileLoader';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MapPinOff } from 'lucide-react';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import { checkPublicDataUpdate, inspectPublicData, loadPublicDataset } from '@/utils/publicData';
+import {
+  createDatasetMetadata,
+  deleteDataset,
+  deleteTerritory,
+  getActiveDatasetId,
+  getStorageEstimate,
+  listDatasets,
+  listTerritories,
+  loadDataset,
+  prepareLibrary,
+  saveDataset,
+  saveTerritory,
+  setActiveDatasetId,
+} from '@/utils/datasetStore';
+import { applyDerivedFields, loadDerivedFields, saveDerivedFields } from '@/utils/derivedFields';
+import { loadGradeBands, saveGradeBands } from '@/utils/gradeBands';
+import { MAX_COMPARISON_ZIPS } from '@/utils/comparison';
+import { parseZoneQuery, serializeZoneQuery } from '@/utils/zoneQuery';
+import { buildViewUrl, parseCompareZips, parseMapView, parseViewPath, parseZipList, parseZipView } from '@/utils/urlState';
+import type { ZoneCollection } from '@/types/zones';
+import type { DatasetMetadata, DatasetSource } from '@/types/datasets';
+import type { DerivedField } from '@/types/derivedFields';
+import type { GradeBand } from '@/types/gradeBands';
+import type { Territory, TerritoryDraft } from '@/types/territories';
+import type { ZoneQuery } from '@/types/query';
+import type { AppTab, MapView, ViewState } from '@/types/viewState';
 
-const DB_NAME = 'TexasZonesDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'geojson-data';
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-
-// IndexedDB utilities
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+const Index = () => {
+  const [originalGeoJson, setOriginalGeoJson] = useState<ZoneCollection | null>(null);
+  const [filteredGeoJson, setFilteredGeoJson] = useState<ZoneCollection | null>(null);
+  const [isLoadingFromCache, setIsLoadingFromCache] = useState(true);
+  const [datasets, setDatasets] = useState<DatasetMetadata[]>([]);
+  const [activeDatasetId, setActiveDatasetIdState] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [isCheckingPublicData, setIsCheckingPublicData] = useState(false);
+  const [derivedFields, setDerivedFields] = useState<DerivedField[]>(loadDerivedFields);
+  const [gradeBands, setGradeBands] = useState<GradeBand[]>(loadGradeBands);
+  const [territories, setTerritories] = useState<Territory[]>([]);
+
+  // The URL is the source of truth for the view, so links can be shared and back/forward restores it
+  const location = useLocation();
+  const navigate = useNavigate();
+  const params = useMemo(() => new URLSearchParams(location.search), [location.search]);
+  const { tab: activeTab, zip: zipToShow } = useMemo(() => parseViewPath(location.pathname), [location.pathname]);
+  const selectionParam = params.get('sel');
+  const compareParam = params.get('zips');
+  const centerParam = params.get('c');
+  const zoomParam = params.get('z');
+  const filterParam = params.get('f') || '';
+
+  // Parsed once per parameter value, so lists and the map view keep their identity between unrelated updates
+  const mapSelection = useMemo(() => parseZipList(selectionParam), [selectionParam]);
+  const comparisonZips = useMemo(() => parseCompareZips(compareParam), [compareParam]);
+  const mapView = useMemo(() => parseMapView(centerParam, zoomParam), [centerParam, zoomParam]);
+  const zipView = parseZipView(params.get('view'));
+
+  // Parsing gives conditions fresh ids, which would remount the inputs being typed into, so the query that
+  // produced the current URL is reused
+  const lastFilterRef = useRef<{ raw: string; query: ZoneQuery } | null>(null);
+  const filterQuery = useMemo(() => {
+    if (lastFilterRef.current?.raw !== filterParam) {
+      lastFilterRef.current = { raw: filterParam, query: parseZoneQuery(filterParam) };
+    }
+    return lastFilterRef.current.query;
+  }, [filterParam]);
+
+  const viewState = useMemo<ViewState>(() => ({
+    tab: activeTab,
+    zip: zipToShow,
+    zipView,
+    compareZips: comparisonZips,
+    selection: mapSelection,
+    mapView,
+    filter: filterQuery,
+  }), [activeTab, zipToShow, zipView, comparisonZips, mapSelection, mapView, filterQuery]);
+
+  // Refs let several updates in one event build on each other before the location catches up
+  const viewStateRef = useRef(viewState);
+  const currentUrlRef = useRef('');
+  const navigateRef = useRef(navigate);
+  viewStateRef.current = viewState;
+  currentUrlRef.current = location.pathname + location.search;
+  navigateRef.current = navigate;
+
+  // Tab and ZIP changes add a history entry; selection, map and filter edits replace the current one
+  const updateView = useCallback((patch: Partial<ViewState>, { replace = false } = {}) => {
+    const next = { ...viewStateRef.current, ...patch };
+    viewStateRef.current = next;
+    if (patch.filter) {
+      lastFilterRef.current = { raw: serializeZoneQuery(patch.filter), query: patch.filter };
+    }
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-      }
-    };
-  });
-};
+    const url = buildViewUrl(next);
+    if (url === currentUrlRef.current) return;
+    currentUrlRef.current = url;
+    navigateRef.current(url, { replace });
+  }, []);
 
-const saveToIndexedDB = async (data: any): Promise<void> => {
-  const db = await openDB();
-  const transaction = db.transaction([STORE_NAME], 'readwrite');
-  const store = transaction.objectStore(STORE_NAME);
+  // Derived values are computed on the fly rather than stored, so editing a definition applies to every dataset
+  const enrichedGeoJson = useMemo(
+    () => (originalGeoJson ? applyDerivedFields(originalGeoJson, derivedFields) : null),
+    [originalGeoJson, derivedFields]
+  );
 
-  const record = {
-    id: 'geojson-cache',
-    data: data,
-    timestamp: Date.now()
+  const showDataset = (id: string | null, data: ZoneCollection | null) => {
+    setOriginalGeoJson(data);
+    setFilteredGeoJson(data);
+    setActiveDatasetIdState(id);
+    setActiveDatasetId(id);
+    updateView({ zip: '', selection: [] }, { replace: true });
   };
 
-  return new Promise((resolve, reject) => {
-    const request = store.put(record);
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
-};
-
-const loadFromIndexedDB = async (): Promise<any | null> => {
-  try {
-    console.log('🔄 Opening IndexedDB...');
-    const db = await openDB();
-    console.log('✅ IndexedDB opened successfully');
-
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-
-    return new Promise((resolve, reject) => {
-      console.log('🔍 Requesting cached data...');
-      const request = store.get('geojson-cache');
-
-      request.onerror = () => {
-        console.error('❌ Error getting data from IndexedDB:', request.error);
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        const result = request.result;
-        console.log('📦 IndexedDB request result:', {
-          hasResult: !!result,
-          timestamp: result?.timestamp,
-          hasData: !!result?.data
-        });
-
-        if (result) {
-          const age = Date.now() - result.timestamp;
-          console.log('⏰ Cache age check:', {
-            age: Math.round(age / 1000 / 60), // minutes
-            maxAge: Math.round(CACHE_DURATION / 1000 / 60), // minutes
-            isValid: age < CACHE_DURATION
-          });
-
-          if (age < CACHE_DURATION) {
-            console.log('✅ Cache is valid, returning data');
-            resolve(result.data);
-          } else {
-            console.log('🕒 Cache expired, clearing and returning null');
-            clearIndexedDBCache();
-            resolve(null);
-          }
-        } else {
-          console.log('📭 No cached data found');
-          resolve(null);
-        }
-      };
-    });
-  } catch (error) {
-    console.error('❌ Error loading from IndexedDB:', error);
-    return null;
-  }
-};
-
-const clearIndexedDBCache = async (): Promise<void> => {
-  try {
-    const db = await openDB();
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+  const refreshDatasets = async () => {
+    try {
+      setDatasets(await listDatasets());
+      setStorageEstimate(await getStorageEstimate());
+    } catch (error) {
+      console.error('❌ Error listing datasets:', error);
+    }
+  };
 
-    return new Promise((resolve, reject) => {
-      const request = store.delete('geojson-cache');
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
-  } catch (error) {
-    console.error('Error clearing IndexedDB cache:', error);
-  }
-};
+  // Save a collection as a new library entry and make it active
+  const addDataset = async (geoJson: ZoneCollection, source: DatasetSource) => {
+    const metadata = createDatasetMetadata(geoJson, source);
+    showDataset(metadata.id, geoJson);
 
-const Index = () => {
-  const [originalGeoJson, setOriginalGeoJson] = useState<any>(null);
-  const [filteredGeoJson, setFilteredGeoJson] = useState<any>(null);
-  const [selectedFeature, setSelectedFeature] = useState<any>(null);
-  const [comparisonAreas, setComparisonAreas] = useState<any[]>([]);
-  const [activeTab, setActiveTab] = useState('data');
-  const [selectedZipCode, setSelectedZipCode] = useState<string>('');
-  const [zipToShow, setZipToShow] = useState<string>('');
-  const [isLoadingFromCache, setIsLoadingFromCache] = useState(true);
+    try {
+      console.log('💾 Saving dataset to IndexedDB:', {
+        name: metadata.name,
+        features: metadata.featureCount
+      });
+      await saveDataset(metadata, geoJson);
+      console.log('✅ Dataset saved to IndexedDB');
+    } catch (error) {
+      console.error('❌ Error saving dataset to IndexedDB:', error);
+    }
+    await refreshDatasets();
+  };
 
-  // Load data from cache on component mount
+  // Load the active dataset from the library on component mount
   useEffect(() => {
     const loadFromCache = async () => {
-      console.log('🔍 Checking for cached data in IndexedDB...');
+      console.log('🔍 Checking for saved datasets in IndexedDB...');
 
       // Check if IndexedDB is available
       if (!window.indexedDB) {
@@ -141,35 +167,58 @@ const Index = () => {
       console.log('✅ IndexedDB is available');
 
       try {
-        const cachedData = await loadFromIndexedDB();
+        const { datasets: library, invalidated } = await prepareLibrary();
+        setDatasets(library);
+        setStorageEstimate(await getStorageEstimate());
+
+        if (invalidated.length > 0) {
+          toast({
+            title: 'Some saved datasets were removed',
+            description: `${invalidated.join(', ')} used a storage format this version cannot read. Upload the files again to restore them.`,
+            variant: 'destructive',
+          });
+        }
+
+        // Fall back to the most recent dataset when the active one was deleted elsewhere
+        const storedId = getActiveDatasetId();
+        const active = library.find(dataset => dataset.id === storedId) || library[0];
+        const cachedData = active ? await loadDataset(active.id) : null;
 
-        if (cachedData) {
-          console.log('📊 Loaded GeoJSON from IndexedDB:', {
-            type: cachedData.type,
+        if (active && cachedData) {
+          console.log('📊 Loaded dataset from IndexedDB:', {
+            name: active.name,
             featureCount: cachedData.features?.length || 0
           });
 
           setOriginalGeoJson(cachedData);
           setFilteredGeoJson(cachedData);
-          console.log('✅ Successfully loaded data from IndexedDB cache');
+          setActiveDatasetIdState(active.id);
+          console.log('✅ Successfully loaded data from IndexedDB library');
         } else {
-          console.log('📭 No cached data found in IndexedDB');
+          console.log('📭 No saved datasets found in IndexedDB');
 
-          // Try to load from public folder if no cache exists
+          // Try to load from public folder if the library is empty
           try {
             console.log('🔍 Checking for public shapefile data...');
-            const hasPublicData = await checkShapefileExists();
+            const report = await inspectPublicData();
 
-            if (hasPublicData) {
-              console.log('📁 Public shapefile data found, loading automatically...');
-              const publicGeoJson = await loadShapefileFromPublic();
+            if (report.mode !== 'unavailable') {
+              console.log(report.mode === 'full'
+                ? '📁 Public shapefile data found, loading automatically...'
+                : '📁 Public data has no .shp, loading the attribute table only...');
+              const { data: publicGeoJson, source } = await loadPublicDataset(report);
 
+              const metadata = createDatasetMetadata(publicGeoJson, source);
               setOriginalGeoJson(publicGeoJson);
               setFilteredGeoJson(publicGeoJson);
-
-              // Save to cache for future use
-              await saveToIndexedDB(publicGeoJson);
-              console.log('✅ Successfully loaded and cached public shapefile data');
+              setActiveDatasetIdState(metadata.id);
+              setActiveDatasetId(metadata.id);
+
+              // Save to the library for future use
+              await saveDataset(metadata, publicGeoJson);
+              setDatasets(await listDatasets());
+              setStorageEstimate(await getStorageEstimate());
+              console.log('✅ Successfully loaded and saved public shapefile data');
             } else {
               console.log('📭 No public shapefile data found');
             }
@@ -178,12 +227,7 @@ const Index = () => {
           }
         }
       } catch (error) {
-        console.error('❌ Error loading from IndexedDB cache:', error);
-        try {
-          await clearIndexedDBCache();
-        } catch (clearError) {
-          console.error('❌ Error clearing corrupted cache:', clearError);
-        }
+        console.error('❌ Error loading from IndexedDB library:', error);
       } finally {
         setIsLoadingFromCache(false);
         console.log('🏁 Cache loading complete');
@@ -213,83 +257,211 @@ const Index = () => {
     };
   }, []);
 
-  const handleGeoJsonLoaded = async (geoJson: any) => {
+  // Territories belong to a dataset, so reload them whenever the active one changes
+  useEffect(() => {
+    if (!activeDatasetId) {
+      setTerritories([]);
+      return;
+    }
+
+    let cancelled = false;
+    listTerritories(activeDatasetId)
+      .then((list) => {
+        if (!cancelled) setTerritories(list);
+      })
+      .catch((error) => {
+        console.error('❌ Error loading territories:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDatasetId]);
+
+  const handleGeoJsonLoaded = async (geoJson: ZoneCollection, source: DatasetSource) => {
     console.log('📥 New GeoJSON data received:', {
       type: geoJson.type,
-      featureCount: geoJson.features?.length || 0
+      featureCount: geoJson.features?.length || 0,
+      source: source.name
     });
 
-    setOriginalGeoJson(geoJson);
-    setFilteredGeoJson(geoJson);
+    await addDataset(geoJson, source);
+  };
+
+  const handleDatasetSelect = async (id: string) => {
+    if (id === activeDatasetId) return;
 
-    // Save to IndexedDB cache
     try {
-      const dataString = JSON.stringify(geoJson);
-      console.log('💾 Saving to IndexedDB cache:', {
-        dataSize: `${Math.round(dataString.length / 1024)} KB`,
-        features: geoJson.features?.length || 0
-      });
+      const data = await loadDataset(id);
+      if (!data) {
+        console.error('❌ Dataset not found in IndexedDB:', id);
+        await refreshDatasets();
+        return;
+      }
+      showDataset(id, data);
+      updateView({ tab: 'data' });
+      console.log('🔀 Switched dataset:', id);
+    } catch (error) {
+      console.error('❌ Error switching dataset:', error);
+    }
+  };
+
+  const handleDatasetDelete = async (id: string) => {
+    try {
+      await deleteDataset(id);
+      console.log('🗑️ Dataset deleted:', id);
+
+      const remaining = await listDatasets();
+      setDatasets(remaining);
+
+      if (id === activeDatasetId) {
+        const next = remaining[0];
+        showDataset(next?.id ?? null, next ? await loadDataset(next.id) : null);
+        updateView({ tab: 'data' });
+      }
+    } catch (error) {
+      console.error('❌ Error deleting dataset:', error);
+    }
+  };
 
-      await saveToIndexedDB(geoJson);
-      console.log('✅ Data successfully saved to IndexedDB cache');
+  // Reload a public dataset in place, keeping its id so it stays where it was in the library
+  const updatePublicDataset = async (target: DatasetMetadata) => {
+    try {
+      const report = await inspectPublicData(target.publicBaseName);
+      const { data, source } = await loadPublicDataset(report);
+      const metadata: DatasetMetadata = { ...createDatasetMetadata(data, source), id: target.id };
 
+      await saveDataset(metadata, data);
+      if (target.id === getActiveDatasetId()) {
+        showDataset(target.id, data);
+      }
+      await refreshDatasets();
+      toast({ title: 'Public data updated', description: `${metadata.name} now has ${metadata.featureCount.toLocaleString()} features.` });
     } catch (error) {
-      console.error('❌ Error saving to IndexedDB cache:', error);
+      console.error('❌ Error updating public dataset:', error);
+      toast({ title: 'Could not update public data', description: String(error), variant: 'destructive' });
+    }
+  };
 
-      // Try to clear cache and retry
-      try {
-        console.log('🧹 Clearing IndexedDB cache and retrying...');
-        await clearIndexedDBCache();
-        await saveToIndexedDB(geoJson);
-        console.log('✅ Data saved to IndexedDB cache after clearing');
-      } catch (retryError) {
-        console.error('❌ Failed to save to IndexedDB cache even after clearing:', retryError);
+  const handleCheckPublicData = async () => {
+    const publicDatasets = datasets.filter(dataset => dataset.publicBaseName);
+    const target = publicDatasets.find(dataset => dataset.id === activeDatasetId) || publicDatasets[0];
+
+    if (!target) {
+      toast({ title: 'No public dataset saved', description: 'Load the public data from the upload panel to track updates to it.' });
+      return;
+    }
+
+    setIsCheckingPublicData(true);
+    try {
+      const status = await checkPublicDataUpdate(target);
+
+      if (status === 'current') {
+        toast({ title: 'Public data is up to date', description: `${target.name} matches the files in /data/.` });
+      } else if (status === 'unavailable') {
+        toast({ title: 'Public data not found', description: `/data/ no longer has usable files for ${target.name}.`, variant: 'destructive' });
+      } else {
+        toast({
+          title: 'Newer public data available',
+          description: `The files in /data/ differ from the saved ${target.name}.`,
+          action: (
+            <ToastAction altText="Update dataset" onClick={() => updatePublicDataset(target)}>
+              Update
+            </ToastAction>
+          ),
+        });
       }
+    } catch (error) {
+      console.error('❌ Error checking public data:', error);
+      toast({ title: 'Could not check public data', description: String(error), variant: 'destructive' });
+    } finally {
+      setIsCheckingPublicData(false);
     }
   };
 
   const clearCache = async () => {
+    if (activeDatasetId) {
+      await handleDatasetDelete(activeDatasetId);
+    }
+  };
+
+  const handleDerivedFieldsChange = (fields: DerivedField[]) => {
+    setDerivedFields(fields);
+    saveDerivedFields(fields);
+    console.log('🧮 Saved derived fields:', fields.map(field => field.label));
+  };
+
+  const handleGradeBandsChange = (bands: GradeBand[]) => {
+    setGradeBands(bands);
+    saveGradeBands(bands);
+    console.log('🎓 Saved grade bands:', bands.map(band => band.label));
+  };
+
+  const handleTerritorySave = async (draft: TerritoryDraft) => {
+    if (!activeDatasetId) return;
+    const territory: Territory = { ...draft, datasetId: activeDatasetId, updatedAt: Date.now() };
+
     try {
-      await clearIndexedDBCache();
-      setOriginalGeoJson(null);
-      setFilteredGeoJson(null);
-      setZipToShow('');
-      setActiveTab('data');
-      console.log('🗑️ IndexedDB cache cleared');
+      await saveTerritory(territory);
+      setTerritories(prev => [...prev.filter(candidate => candidate.id !== territory.id), territory]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      console.log('🚩 Saved territory:', { name: territory.name, zips: territory.zips.length });
     } catch (error) {
-      console.error('❌ Error clearing cache:', error);
+      console.error('❌ Error saving territory:', error);
+      toast({ title: 'Could not save territory', description: String(error), variant: 'destructive' });
     }
   };
 
-  const handleFilterChange = (filteredData: any) => {
-    setFilteredGeoJson(filteredData);
+  const handleTerritoryDelete = async (id: string) => {
+    try {
+      await deleteTerritory(id);
+      setTerritories(prev => prev.filter(territory => territory.id !== id));
+      console.log('🗑️ Territory deleted:', id);
+    } catch (error) {
+      console.error('❌ Error deleting territory:', error);
+      toast({ title: 'Could not delete territory', description: String(error), variant: 'destructive' });
+    }
   };
 
-  const handleFeatureClick = (feature: any) => {
-    setSelectedFeature(feature);
+  // Stable so FilterPanel's effect only reruns when the query or data changes
+  const handleFilterChange = useCallback((filteredData: ZoneCollection | null) => {
+    setFilteredGeoJson(filteredData);
+  }, []);
+
+  const handleFilterQueryChange = useCallback((query: ZoneQuery) => {
+    updateView({ filter: query }, { replace: true });
+  }, [updateView]);
+
+  const handleSelectionChange = useCallback((zips: string[]) => {
+    updateView({ selection: zips }, { replace: true });
+  }, [updateView]);
+
+  const handleMapViewChange = useCallback((view: MapView) => {
+    updateView({ mapView: view }, { replace: true });
+  }, [updateView]);
+
+  const openZip = useCallback((zipCode: string) => {
+    updateView({ tab: 'zip', zip: zipCode, zipView: 'map' });
+  }, [updateView]);
+
+  const handleSelectRankedZips = (zips: string[]) => {
+    updateView({ selection: zips, tab: 'data' });
   };
 
-  const handleCompareAreas = (area1: any, area2: any) => {
-    setComparisonAreas([area1, area2]);
+  const handleCompareZips = (zips: string[]) => {
+    updateView({ compareZips: zips.slice(0, MAX_COMPARISON_ZIPS), tab: 'compare' });
   };
 
-  const handleZipSelect = (zipCode: string) => {
-    setSelectedZipCode(zipCode);
-    // Filter data to show only selected ZIP
-    if (originalGeoJson) {
-      const filteredData = {
-        ...originalGeoJson,
-        features: originalGeoJson.features.filter((feature: any) => {
-          const zip = feature.properties?.Zip || feature.properties?.ZIP || feature.properties?.zipcode;
-          return zip === zipCode;
-        })
-      };
-      setFilteredGeoJson(filteredData);
-      setActiveTab('filters'); // Switch to map view
+  // From the ZIP tab, add to the ZIPs already being compared
+  const handleCompareZip = (zipCode: string) => {
+    if (!comparisonZips.includes(zipCode) && comparisonZips.length >= MAX_COMPARISON_ZIPS) {
+      toast({ title: 'Comparison is full', description: `Remove a ZIP to add ${zipCode}; up to ${MAX_COMPARISON_ZIPS} can be compared.` });
+      updateView({ tab: 'compare' });
+      return;
     }
+    handleCompareZips(comparisonZips.includes(zipCode) ? comparisonZips : [...comparisonZips, zipCode]);
   };
 
-  const displayedGeoJson = filteredGeoJson || originalGeoJson;
+  const displayedGeoJson = filteredGeoJson || enrichedGeoJson;
   const zoneCount = displayedGeoJson?.features?.length || 0;
 
   // Show loading state while checking cache
@@ -306,7 +478,16 @@ const Index = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <Header zoneCount={zoneCount} />
+      <Header
+        zoneCount={zoneCount}
+        datasets={datasets}
+        activeDatasetId={activeDatasetId}
+        onDatasetSelect={handleDatasetSelect}
+        onDatasetDelete={handleDatasetDelete}
+        storageEstimate={storageEstimate}
+        onCheckPublicData={handleCheckPublicData}
+        isCheckingPublicData={isCheckingPublicData}
+      />
 
       <div className="container mx-auto px-4 py-6">
         {/* Dynamic Layout based on active tab */}
@@ -320,33 +501,87 @@ const Index = () => {
               compact={!!originalGeoJson && !isLoadingFromCache}
             />
 
-            <Tabs value={activeTab} onValueChange={(value) => {
-              setActiveTab(value);
-              // Clear zipToShow when switching away from ZIP tab
-              if (value !== 'zip') {
-                setZipToShow('');
-              }
-            }} className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+            {originalGeoJson?.attributeOnly && (
+              <Alert>
+                <MapPinOff className="h-4 w-4" />
+                <AlertDescription>
+                  Attribute-only data: the table loaded without boundary geometry, so maps stay empty. Upload the matching .shp to draw zones.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {originalGeoJson && (
+              <FilterPanel
+                geoJsonData={enrichedGeoJson}
+                derivedFields={derivedFields}
+                query={filterQuery}
+                onQueryChange={handleFilterQueryChange}
+                onFilterChange={handleFilterChange}
+              />
+            )}
+
+            {/* A tab switch starts the ZIP tab at its picker, as the path only carries a ZIP for that tab */}
+            <Tabs value={activeTab} onValueChange={(value) => updateView({ tab: value as AppTab, zip: '' })} className="w-full">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="data">Data</TabsTrigger>
                 <TabsTrigger value="zip">ZIP</TabsTrigger>
+                <TabsTrigger value="rankings">Rankings</TabsTrigger>
+                <TabsTrigger value="compare">
+                  Compare{comparisonZips.length > 0 && ` (${comparisonZips.length})`}
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="data" className="space-y-4">
                 <DataExplorer
-                  geoJsonData={originalGeoJson}
-                  onZipSelect={(zipCode) => {
-                    setZipToShow(zipCode);
-                    setActiveTab('zip');
-                  }}
+                  geoJsonData={displayedGeoJson}
+                  statewideData={enrichedGeoJson}
+                  derivedFields={derivedFields}
+                  onDerivedFieldsChange={handleDerivedFieldsChange}
+                  gradeBands={gradeBands}
+                  onGradeBandsChange={handleGradeBandsChange}
+                  onZipSelect={openZip}
+                  onCompareZips={handleCompareZips}
+                  selectedZips={mapSelection}
+                  onSelectionChange={handleSelectionChange}
+                  mapView={mapView}
+                  onMapViewChange={handleMapViewChange}
+                  territories={territories}
+                  onTerritorySave={activeDatasetId ? handleTerritorySave : undefined}
+                  onTerritoryDelete={handleTerritoryDelete}
                 />
               </TabsContent>
 
               <TabsContent value="zip" className="space-y-4">
                 <ZipCodeAnalyzer
-                  geoJsonData={originalGeoJson}
-                  onZipSelect={handleZipSelect}
+                  geoJsonData={displayedGeoJson}
+                  statewideData={enrichedGeoJson}
+                  gradeBands={gradeBands}
                   initialSelectedZip={zipToShow}
+                  onSelectedZipChange={(zipCode) => updateView({ zip: zipCode })}
+                  selectedZips={mapSelection}
+                  detailView={zipView}
+                  onDetailViewChange={(view) => updateView({ zipView: view })}
+                  onCompare={handleCompareZip}
+                />
+              </TabsContent>
+
+              <TabsContent value="rankings" className="space-y-4">
+                <RankingsView
+                  geoJsonData={displayedGeoJson}
+                  derivedFields={derivedFields}
+                  onSelectZips={handleSelectRankedZips}
+                  onZipSelect={openZip}
+                />
+              </TabsContent>
+
+              <TabsContent value="compare" className="space-y-4">
+                <ZipComparisonView
+                  geoJsonData={enrichedGeoJson}
+                  zips={comparisonZips}
+                  onZipsChange={(zips) => updateView({ compareZips: zips }, { replace: true })}
+                  gradeBands={gradeBands}
+                  derivedFields={derivedFields}
+                  onZipSelect={openZip}
                 />
               </TabsContent>
             </Tabs>
@@ -0,0 +1,25 @@
+import type { ZoneNumericField, ZoneStringField } from '@/types/zones';
+
+export type AggregationRule = 'sum' | 'weighted-mean' | 'max' | 'first' | 'distinct-count';
+
+/**
+ * How one field combines when records are rolled up into a ZIP, a selection or a filter result
+ */
+export interface FieldAggregation {
+    rule: AggregationRule;
+    /** Weight of each value for 'weighted-mean' */
+    weight?: ZoneNumericField;
+    /** The value describes the whole ZIP and repeats on each of its records, so it is used once per ZIP */
+    perZip?: boolean;
+}
+
+/**
+ * Result of rolling up a set of zone records
+ */
+export interface ZoneRollup {
+    recordCount: number;
+    /** Numeric fields combined by their rule; null when no record had a value */
+    values: Record<ZoneNumericField, number | null>;
+    /** Text fields: the value itself for 'first', the number of distinct values for 'distinct-count' */
+    text: Record<ZoneStringField, string | number | null>;
+}
@@ -0,0 +1,25 @@
+import type { ZoneRollup } from '@/types/aggregation';
+
+export type ComparisonValueKind = 'count' | 'currency' | 'percent' | 'decimal';
+
+/**
+ * One ZIP in the comparison workspace, rolled up like the ZIP tab
+ */
+export interface ComparisonZip {
+    zip: string;
+    color: string;
+    values: ZoneRollup['values'];
+    /** Derived field values computed from the rolled-up counts, keyed by derived field id */
+    derived: Record<string, number | null>;
+}
+
+/**
+ * Row of the comparison table
+ */
+export interface ComparisonMetric {
+    id: string;
+    label: string;
+    group: string;
+    kind: ComparisonValueKind;
+    getValue: (zip: ComparisonZip) => number | null;
+}
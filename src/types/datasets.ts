@@ -0,0 +1,37 @@
+import type { FieldMapping, ZoneCollection } from '@/types/zones';
+
+/**
+ * Everything the dataset library lists without loading a dataset's features
+ */
+export interface DatasetMetadata {
+    id: string;
+    /** Storage format version, see DATASET_SCHEMA_VERSION */
+    schemaVersion: number;
+    name: string;
+    /** File names the dataset was built from, e.g. the .shp/.dbf pair or a .zip layer */
+    sourceFiles: string[];
+    featureCount: number;
+    /** Epoch milliseconds when the dataset was loaded */
+    loadedAt: number;
+    fieldMapping?: FieldMapping;
+    attributeOnly?: boolean;
+    /** Hash of the source file contents, see hashContent */
+    contentHash?: string;
+    /** Set for datasets loaded from /data/, so they can be checked for newer files */
+    publicBaseName?: string;
+}
+
+export interface StoredDataset {
+    id: string;
+    data: ZoneCollection;
+}
+
+/**
+ * Where a freshly loaded collection came from, used to name and describe the saved dataset
+ */
+export interface DatasetSource {
+    name: string;
+    files: string[];
+    contentHash?: string;
+    publicBaseName?: string;
+}
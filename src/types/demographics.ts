@@ -0,0 +1,21 @@
+import type { ZoneNumericField } from '@/types/zones';
+
+/**
+ * One race/ethnicity group's count and share of the students with a reported group
+ */
+export interface RaceGroupShare {
+    /** Column the count comes from; null for the remainder of Ttl_Std not in any column */
+    field: ZoneNumericField | null;
+    label: string;
+    color: string;
+    count: number;
+    /** 0 to 1 */
+    share: number;
+}
+
+export interface RaceComposition {
+    total: number;
+    groups: RaceGroupShare[];
+    /** Simpson's diversity index, 1 - Σ share²; null when no students are counted */
+    diversityIndex: number | null;
+}
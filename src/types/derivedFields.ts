@@ -0,0 +1,19 @@
+import type { ZoneNumericField } from '@/types/zones';
+
+/**
+ * User-defined metric computed per zone from an arithmetic expression over numeric columns,
+ * e.g. `(Hispanc / Ttl_Std) * 100`
+ */
+export interface DerivedField {
+    id: string;
+    label: string;
+    expression: string;
+    /** Shown after values, e.g. "%" or "per 1,000" */
+    unit?: string;
+}
+
+/** Key of a derived field wherever a numeric column key is accepted */
+export type DerivedFieldKey = `derived:${string}`;
+
+/** Any numeric attribute a view can display, classify or filter on */
+export type NumericFieldKey = ZoneNumericField | DerivedFieldKey;
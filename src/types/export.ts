@@ -0,0 +1,22 @@
+import type { Geometry } from 'geojson';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml' | 'shapefile';
+
+/** One row per zone record, or one row per ZIP with its records rolled up */
+export type ExportLevel = 'records' | 'zips';
+
+export interface ExportColumn {
+    /** Source column, or a derived field key */
+    key: string;
+    /** Header written to the file; derived fields use their label */
+    label: string;
+    type: 'text' | 'number';
+}
+
+/**
+ * Row ready to be written in any format
+ */
+export interface ExportRow {
+    values: Record<string, string | number | null>;
+    geometry: Geometry | null;
+}
@@ -0,0 +1,11 @@
+import type { ZoneNumericField } from '@/types/zones';
+
+/**
+ * Named group of grade columns, e.g. Middle = Grade_6 to Grade_8
+ */
+export interface GradeBand {
+    id: string;
+    label: string;
+    grades: ZoneNumericField[];
+    color: string;
+}
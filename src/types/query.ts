@@ -0,0 +1,42 @@
+import type { ZoneStringField } from '@/types/zones';
+import type { NumericFieldKey } from '@/types/derivedFields';
+
+export type QueryCombinator = 'and' | 'or';
+
+export type NumericOperator = 'between' | 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+export interface NumericCondition {
+    id: string;
+    kind: 'numeric';
+    field: NumericFieldKey;
+    operator: NumericOperator;
+    /** Lower bound for "between", otherwise the compared value; null leaves the condition inactive */
+    value: number | null;
+    /** Upper bound, only used by "between" */
+    max: number | null;
+}
+
+export interface CategoryCondition {
+    id: string;
+    kind: 'category';
+    field: ZoneStringField;
+    /** Accepted values; an empty list leaves the condition inactive */
+    values: string[];
+}
+
+export type QueryCondition = NumericCondition | CategoryCondition;
+
+export interface QueryGroup {
+    id: string;
+    combinator: QueryCombinator;
+    conditions: QueryCondition[];
+}
+
+/**
+ * Attribute query: free-text search AND the groups, which are combined with each other by `combinator`
+ */
+export interface ZoneQuery {
+    search: string;
+    combinator: QueryCombinator;
+    groups: QueryGroup[];
+}
@@ -0,0 +1,17 @@
+import type { ZoneRollup } from '@/types/aggregation';
+import type { NumericFieldKey } from '@/types/derivedFields';
+
+/**
+ * One ZIP in the rankings table, rolled up like the ZIP tab
+ */
+export interface ZipRankingRow {
+    zip: string;
+    values: ZoneRollup['values'];
+    /** Derived field values computed from the rolled-up counts, keyed by derived field id */
+    derived: Record<string, number | null>;
+}
+
+export interface RankingSort {
+    field: NumericFieldKey;
+    direction: 'asc' | 'desc';
+}
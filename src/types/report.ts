@@ -0,0 +1,31 @@
+import type { ZoneFeature } from '@/types/zones';
+import type { GradeBand } from '@/types/gradeBands';
+
+export type ReportPageSize = 'letter' | 'a4';
+
+/**
+ * What a report describes: a single ZIP or a territory of several
+ */
+export interface ReportSubject {
+    title: string;
+    subtitle: string;
+    /** Records rolled up for the metrics, drawn on the map and listed in the appendix */
+    features: ZoneFeature[];
+    /** Fill of the zones on the map */
+    color: string;
+}
+
+export interface ReportOptions {
+    pageSize: ReportPageSize;
+    includeAppendix: boolean;
+    gradeBands: GradeBand[];
+}
+
+/**
+ * A report ready to draw: its page count is known up front, and each page is drawn to a fresh canvas on demand
+ */
+export interface ReportLayout {
+    pageSize: ReportPageSize;
+    pageCount: number;
+    renderPage: (index: number) => HTMLCanvasElement;
+}
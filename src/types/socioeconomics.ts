@@ -0,0 +1,21 @@
+import type { ZoneNumericField } from '@/types/zones';
+
+export interface SocioeconomicMetric {
+    field: ZoneNumericField;
+    label: string;
+    format: 'currency' | 'percent';
+    /** Whether a high value is the favorable end, e.g. income but not poverty */
+    higherIsBetter: boolean;
+}
+
+/**
+ * Sorted per-ZIP values of one metric with the quartiles used for percentiles and outlier fences
+ */
+export interface MetricDistribution {
+    sorted: number[];
+    q1: number;
+    median: number;
+    q3: number;
+}
+
+export type OutlierFlag = 'high' | 'low';
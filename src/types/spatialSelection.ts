@@ -0,0 +1,6 @@
+export type DrawTool = 'lasso' | 'rectangle' | 'circle' | 'polygon';
+
+/**
+ * Whether a zone has to touch the drawn shape or lie entirely inside it
+ */
+export type SpatialMatchMode = 'intersect' | 'within';
@@ -0,0 +1,26 @@
+/**
+ * Named group of ZIPs, e.g. a sales region, saved with the dataset it was drawn on
+ */
+export interface Territory {
+    id: string;
+    datasetId: string;
+    name: string;
+    description: string;
+    color: string;
+    zips: string[];
+    /** Epoch milliseconds of the last save */
+    updatedAt: number;
+}
+
+/**
+ * Fields edited in the territory dialog; the dataset and timestamp are filled in on save
+ */
+export type TerritoryDraft = Omit<Territory, 'datasetId' | 'updatedAt'>;
+
+/**
+ * A ZIP that is already assigned to one or more other territories
+ */
+export interface TerritoryConflict {
+    zip: string;
+    territories: Territory[];
+}
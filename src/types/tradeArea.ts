@@ -0,0 +1,31 @@
+import type { ZoneRollup } from '@/types/aggregation';
+
+export type DistanceUnit = 'mi' | 'km';
+
+/**
+ * ZIP partly or wholly inside a ring, with the share of its area that falls there
+ */
+export interface TradeAreaShare {
+    zip: string;
+    share: number;
+}
+
+/**
+ * Band between two distances from the trade area center; the innermost band starts at the center
+ */
+export interface TradeAreaRing {
+    /** Distances in the unit the rings were entered in */
+    inner: number;
+    outer: number;
+    shares: TradeAreaShare[];
+    /** Counts scaled by each ZIP's share; rates weighted by the scaled population */
+    rollup: ZoneRollup;
+}
+
+export interface TradeAreaResult {
+    center: [number, number];
+    unit: DistanceUnit;
+    rings: TradeAreaRing[];
+    /** Everything within the outermost ring */
+    total: TradeAreaRing;
+}
@@ -0,0 +1,25 @@
+import type { ZoneQuery } from '@/types/query';
+
+export type AppTab = 'data' | 'zip' | 'rankings' | 'compare';
+
+export interface MapView {
+    center: [number, number];
+    zoom: number;
+}
+
+/**
+ * Everything a shared link restores. The tab and ZIP come from the path, the rest from query parameters.
+ */
+export interface ViewState {
+    tab: AppTab;
+    /** ZIP open in the ZIP tab; empty shows the picker */
+    zip: string;
+    /** Detail tab of the ZIP analyzer */
+    zipView: string;
+    compareZips: string[];
+    /** Overview map multi-selection */
+    selection: string[];
+    /** Null until the map has been moved, so the map fits the data */
+    mapView: MapView | null;
+    filter: ZoneQuery;
+}
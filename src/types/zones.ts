@@ -0,0 +1,100 @@
+import type { Geometry } from 'geojson';
+
+/**
+ * Attribute record of a single zone in the TXelementary layer.
+ * One field per DBF column; numeric columns are null when the source value is missing or unparseable.
+ */
+export interface ZoneProperties {
+    Zip: string;
+    Schl_Lv: string;
+    Ttl_Std: number | null;
+    Female: number | null;
+    Male: number | null;
+    Pre_K: number | null;
+    KG: number | null;
+    Grade_1: number | null;
+    Grade_2: number | null;
+    Grade_3: number | null;
+    Grade_4: number | null;
+    Grade_5: number | null;
+    Grade_6: number | null;
+    Grade_7: number | null;
+    Grade_8: number | null;
+    Grade_9: number | null;
+    Grad_10: number | null;
+    Grad_11: number | null;
+    Grad_12: number | null;
+    Asian: number | null;
+    Black: number | null;
+    Hispanc: number | null;
+    White: number | null;
+    Stdnt_R: number | null;
+    Schl_Cn: number | null;
+    state: string;
+    pop: number | null;
+    med_ncm: number | null;
+    pvrty_p: number | null;
+    unmply_: number | null;
+    bchAtl_: number | null;
+}
+
+export type ZoneStringField = 'Zip' | 'Schl_Lv' | 'state';
+export type ZoneNumericField = Exclude<keyof ZoneProperties, ZoneStringField>;
+
+export const ZONE_STRING_FIELDS: ZoneStringField[] = ['Zip', 'Schl_Lv', 'state'];
+
+export const ZONE_NUMERIC_FIELDS: ZoneNumericField[] = [
+    'Ttl_Std', 'Female', 'Male',
+    'Pre_K', 'KG', 'Grade_1', 'Grade_2', 'Grade_3', 'Grade_4', 'Grade_5', 'Grade_6',
+    'Grade_7', 'Grade_8', 'Grade_9', 'Grad_10', 'Grad_11', 'Grad_12',
+    'Asian', 'Black', 'Hispanc', 'White',
+    'Stdnt_R', 'Schl_Cn',
+    'pop', 'med_ncm', 'pvrty_p', 'unmply_', 'bchAtl_',
+];
+
+/**
+ * Semantic role of an attribute. Each role is stored under its TXelementary column name,
+ * so views read roles rather than whatever the source file called the column.
+ */
+export type FieldRole = keyof ZoneProperties;
+
+/** Source column chosen for each role; unmapped roles are omitted */
+export type FieldMapping = Partial<Record<FieldRole, string>>;
+
+export interface ZoneFeature {
+    type: 'Feature';
+    geometry: Geometry | null;
+    properties: ZoneProperties;
+    /** Values of the user's derived fields keyed by field id; computed on load, never persisted */
+    derived?: Record<string, number | null>;
+}
+
+export interface ZoneCollection {
+    type: 'FeatureCollection';
+    features: ZoneFeature[];
+    /** Mapping the features were normalized with, kept so it persists with the cached dataset */
+    fieldMapping?: FieldMapping;
+    /** Set when only the DBF table was loaded, so features have no geometry to draw */
+    attributeOnly?: boolean;
+}
+
+/**
+ * Per-ZIP roll-up built by the ZIP analyzer
+ */
+export interface ZipSummary {
+    zip: string;
+    rawRecords: ZoneProperties[];
+    count: number;
+    population: number;
+    totalStudents: number;
+    totalFemale: number;
+    totalMale: number;
+    totalSchools: number;
+    totalPreK: number;
+    totalKG: number;
+    totalGrade1: number;
+    totalGrade2: number;
+    totalGrade3: number;
+    /** Every numeric field rolled up by its aggregation rule; fields without values are absent */
+    processedTotals: Map<ZoneNumericField, number>;
+}
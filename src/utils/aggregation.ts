@@ -0,0 +1,150 @@
+import {
+    ZONE_NUMERIC_FIELDS,
+    ZONE_STRING_FIELDS,
+    type FieldRole,
+    type ZoneFeature,
+    type ZoneNumericField,
+    type ZoneProperties,
+    type ZoneStringField,
+} from '@/types/zones';
+import type { FieldAggregation, ZoneRollup } from '@/types/aggregation';
+
+const SUM: FieldAggregation = { rule: 'sum' };
+const ENROLLMENT_WEIGHTED: FieldAggregation = { rule: 'weighted-mean', weight: 'Ttl_Std' };
+// ZIP-level census context: rates are averaged by population, each ZIP counted once
+const POPULATION_WEIGHTED: FieldAggregation = { rule: 'weighted-mean', weight: 'pop', perZip: true };
+
+/**
+ * Roll-up rule of every field. Counts add up; ratios and rates are weighted means, since summing
+ * a median income or a poverty rate across zones means nothing.
+ */
+export const FIELD_AGGREGATIONS: Record<FieldRole, FieldAggregation> = {
+    Zip: { rule: 'distinct-count' },
+    Schl_Lv: { rule: 'distinct-count' },
+    state: { rule: 'first' },
+    Ttl_Std: SUM,
+    Female: SUM,
+    Male: SUM,
+    Pre_K: SUM,
+    KG: SUM,
+    Grade_1: SUM,
+    Grade_2: SUM,
+    Grade_3: SUM,
+    Grade_4: SUM,
+    Grade_5: SUM,
+    Grade_6: SUM,
+    Grade_7: SUM,
+    Grade_8: SUM,
+    Grade_9: SUM,
+    Grad_10: SUM,
+    Grad_11: SUM,
+    Grad_12: SUM,
+    Asian: SUM,
+    Black: SUM,
+    Hispanc: SUM,
+    White: SUM,
+    // Students per teacher
+    Stdnt_R: ENROLLMENT_WEIGHTED,
+    Schl_Cn: SUM,
+    pop: { rule: 'sum', perZip: true },
+    // A population-weighted mean of ZIP medians approximates the median of the combined area
+    med_ncm: POPULATION_WEIGHTED,
+    pvrty_p: POPULATION_WEIGHTED,
+    unmply_: POPULATION_WEIGHTED,
+    bchAtl_: POPULATION_WEIGHTED,
+};
+
+const isPresent = (value: unknown) => value != null && value !== '';
+
+/**
+ * Records whose values are used for a field: all of them, or the first record of each ZIP that has a value
+ */
+const getContributingRecords = (records: ZoneProperties[], field: FieldRole, aggregation: FieldAggregation) => {
+    if (!aggregation.perZip) return records;
+
+    const byZip = new Map<string, ZoneProperties>();
+    records.forEach(record => {
+        const value = record[field];
+        if (!byZip.has(record.Zip) && isPresent(value) && !(typeof value === 'number' && value < 0)) {
+            byZip.set(record.Zip, record);
+        }
+    });
+    return Array.from(byZip.values());
+};
+
+const aggregateNumeric = (records: ZoneProperties[], field: ZoneNumericField, aggregation: FieldAggregation): number | null => {
+    // Negative counts and rates are no-data codes in the source layers
+    const contributing = getContributingRecords(records, field, aggregation)
+        .filter(record => record[field] != null && record[field]! >= 0);
+    if (contributing.length === 0) return null;
+    const values = contributing.map(record => record[field]!);
+
+    switch (aggregation.rule) {
+        case 'sum':
+            return values.reduce((sum, value) => sum + value, 0);
+        case 'max':
+            return Math.max(...values);
+        case 'first':
+            return values[0];
+        case 'distinct-count':
+            return new Set(values).size;
+        case 'weighted-mean': {
+            let weightedSum = 0;
+            let totalWeight = 0;
+            contributing.forEach(record => {
+                const weight = aggregation.weight ? record[aggregation.weight] : 1;
+                if (weight != null && weight > 0) {
+                    weightedSum += record[field]! * weight;
+                    totalWeight += weight;
+                }
+            });
+            // Without usable weights every value counts equally
+            return totalWeight > 0
+                ? weightedSum / totalWeight
+                : values.reduce((sum, value) => sum + value, 0) / values.length;
+        }
+    }
+};
+
+const aggregateText = (records: ZoneProperties[], field: ZoneStringField, aggregation: FieldAggregation): string | number | null => {
+    const values = getContributingRecords(records, field, aggregation).map(record => record[field]).filter(isPresent);
+
+    if (aggregation.rule === 'distinct-count') return new Set(values).size;
+    return values[0] ?? null;
+};
+
+/**
+ * Combine zone records field by field according to FIELD_AGGREGATIONS
+ */
+export const rollUpZones = (records: ZoneProperties[]): ZoneRollup => {
+    const values = {} as ZoneRollup['values'];
+    const text = {} as ZoneRollup['text'];
+
+    ZONE_NUMERIC_FIELDS.forEach(field => {
+        values[field] = aggregateNumeric(records, field, FIELD_AGGREGATIONS[field]);
+    });
+    ZONE_STRING_FIELDS.forEach(field => {
+        text[field] = aggregateText(records, field, FIELD_AGGREGATIONS[field]);
+    });
+
+    return { recordCount: records.length, values, text };
+};
+
+/**
+ * Roll up the records of each ZIP separately, keyed by ZIP
+ */
+export const rollUpByZip = (features: ZoneFeature[]): Map<string, ZoneRollup> => {
+    const recordsByZip = new Map<string, ZoneProperties[]>();
+    features.forEach(feature => {
+        const zip = feature.properties.Zip;
+        if (!zip) return;
+        if (!recordsByZip.has(zip)) {
+            recordsByZip.set(zip, []);
+        }
+        recordsByZip.get(zip)!.push(feature.properties);
+    });
+
+    const rollups = new Map<string, ZoneRollup>();
+    recordsByZip.forEach((records, zip) => rollups.set(zip, rollUpZones(records)));
+    return rollups;
+};
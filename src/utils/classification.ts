@@ -0,0 +1,133 @@
+export type ClassificationMethod = 'quantile' | 'equal-interval' | 'jenks' | 'std-dev';
+
+export const CLASSIFICATION_METHODS: { value: ClassificationMethod; label: string }[] = [
+    { value: 'quantile', label: 'Quantile' },
+    { value: 'equal-interval', label: 'Equal interval' },
+    { value: 'jenks', label: 'Natural breaks (Jenks)' },
+    { value: 'std-dev', label: 'Standard deviation' },
+];
+
+// Jenks is O(n² · k); larger inputs are sampled down to this many sorted values
+const JENKS_SAMPLE_SIZE = 1000;
+
+const quantileBreaks = (sorted: number[], classCount: number): number[] =>
+    Array.from({ length: classCount + 1 }, (_, i) => {
+        if (i === 0) return sorted[0];
+        if (i === classCount) return sorted[sorted.length - 1];
+        const position = (i / classCount) * (sorted.length - 1);
+        const lower = Math.floor(position);
+        return sorted[lower] + (sorted[Math.min(lower + 1, sorted.length - 1)] - sorted[lower]) * (position - lower);
+    });
+
+const equalIntervalBreaks = (sorted: number[], classCount: number): number[] => {
+    const min = sorted[0];
+    const step = (sorted[sorted.length - 1] - min) / classCount;
+    return Array.from({ length: classCount + 1 }, (_, i) => min + step * i);
+};
+
+/**
+ * Classes one standard deviation wide, centred on the mean and clamped to the data range
+ */
+const standardDeviationBreaks = (sorted: number[], classCount: number): number[] => {
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const deviation = Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length);
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+
+    const inner = Array.from({ length: classCount - 1 }, (_, i) => mean + (i + 1 - classCount / 2) * deviation)
+        .filter(value => value > min && value < max);
+    return [min, ...inner, max];
+};
+
+/**
+ * Fisher-Jenks natural breaks, minimising the within-class variance
+ */
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+    const data = sorted.length > JENKS_SAMPLE_SIZE
+        ? Array.from({ length: JENKS_SAMPLE_SIZE }, (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (JENKS_SAMPLE_SIZE - 1))])
+        : sorted;
+    const n = data.length;
+    const lowerLimits = Array.from({ length: n + 1 }, () => new Array<number>(classCount + 1).fill(0));
+    const variances = Array.from({ length: n + 1 }, () => new Array<number>(classCount + 1).fill(Infinity));
+
+    for (let j = 1; j <= classCount; j++) {
+        lowerLimits[1][j] = 1;
+        variances[1][j] = 0;
+    }
+
+    for (let l = 2; l <= n; l++) {
+        let sum = 0;
+        let sumSquares = 0;
+        let variance = 0;
+
+        for (let m = 1; m <= l; m++) {
+            const lowerIndex = l - m + 1;
+            const value = data[lowerIndex - 1];
+            sum += value;
+            sumSquares += value * value;
+            variance = sumSquares - (sum * sum) / m;
+
+            if (lowerIndex > 1) {
+                for (let j = 2; j <= classCount; j++) {
+                    const candidate = variance + variances[lowerIndex - 1][j - 1];
+                    if (variances[l][j] >= candidate) {
+                        lowerLimits[l][j] = lowerIndex;
+                        variances[l][j] = candidate;
+                    }
+                }
+            }
+        }
+
+        lowerLimits[l][1] = 1;
+        variances[l][1] = variance;
+    }
+
+    const breaks = new Array<number>(classCount + 1);
+    breaks[0] = data[0];
+    breaks[classCount] = data[n - 1];
+    let upper = n;
+    for (let j = classCount; j >= 2; j--) {
+        const lowerIndex = lowerLimits[upper][j];
+        breaks[j - 1] = data[Math.max(lowerIndex - 2, 0)];
+        upper = lowerIndex - 1;
+    }
+    return breaks;
+};
+
+/**
+ * Compute class breaks [min, ..., max] for the values. Duplicate breaks (e.g. quantiles of zero-heavy data)
+ * are merged, so fewer classes than requested may come back.
+ */
+export const classifyValues = (values: number[], method: ClassificationMethod, classCount: number): number[] => {
+    const sorted = values.filter(value => Number.isFinite(value)).sort((a, b) => a - b);
+    if (sorted.length === 0) return [];
+    if (sorted[0] === sorted[sorted.length - 1]) return [sorted[0], sorted[0]];
+
+    const count = Math.max(1, Math.min(classCount, sorted.length));
+    const breaks = {
+        'quantile': quantileBreaks,
+        'equal-interval': equalIntervalBreaks,
+        'jenks': jenksBreaks,
+        'std-dev': standardDeviationBreaks,
+    }[method](sorted, count);
+
+    return breaks.filter((value, i) => i === 0 || value > breaks[i - 1]);
+};
+
+/**
+ * Index of the class a value falls in; each class includes its upper break, the first also its lower one
+ */
+export const getClassIndex = (value: number, breaks: number[]): number => {
+    for (let i = 1; i < breaks.length; i++) {
+        if (value <= breaks[i]) return i - 1;
+    }
+    return Math.max(breaks.length - 2, 0);
+};
+
+/**
+ * Short label for a class boundary
+ */
+export const formatBreak = (value: number): string =>
+    Math.abs(value) >= 1000
+        ? Math.round(value).toLocaleString()
+        : value.toLocaleString(undefined, { maximumFractionDigits: Number.isInteger(value) ? 0 : Math.abs(value) < 1 ? 2 : 1 });
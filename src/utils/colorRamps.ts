@@ -0,0 +1,37 @@
+export type ColorRampName = 'YlOrRd' | 'Blues' | 'Greens' | 'Purples' | 'Oranges' | 'Viridis' | 'RdYlBu';
+
+export interface ColorRamp {
+    name: ColorRampName;
+    label: string;
+    /** Nine stops from low to high; shorter ramps are sampled from these */
+    colors: string[];
+}
+
+// ColorBrewer 9-class schemes, plus viridis for colorblind-safe output
+export const COLOR_RAMPS: ColorRamp[] = [
+    { name: 'YlOrRd', label: 'Yellow-Orange-Red', colors: ['#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026'] },
+    { name: 'Blues', label: 'Blues', colors: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'] },
+    { name: 'Greens', label: 'Greens', colors: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'] },
+    { name: 'Purples', label: 'Purples', colors: ['#fcfbfd', '#efedf5', '#dadaeb', '#bcbddc', '#9e9ac8', '#807dba', '#6a51a3', '#54278f', '#3f007d'] },
+    { name: 'Oranges', label: 'Oranges', colors: ['#fff5eb', '#fee6ce', '#fdd0a2', '#fdae6b', '#fd8d3c', '#f16913', '#d94801', '#a63603', '#7f2704'] },
+    { name: 'Viridis', label: 'Viridis', colors: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'] },
+    { name: 'RdYlBu', label: 'Red-Yellow-Blue (diverging)', colors: ['#4575b4', '#74add1', '#abd9e9', '#e0f3f8', '#ffffbf', '#fee090', '#fdae61', '#f46d43', '#d73027'] },
+];
+
+/**
+ * Pick `count` evenly spaced colors from a ramp, always keeping both ends
+ */
+export const getRampColors = (name: ColorRampName, count: number): string[] => {
+    const colors = (COLOR_RAMPS.find(ramp => ramp.name === name) || COLOR_RAMPS[0]).colors;
+    if (count <= 1) return [colors[colors.length - 1]];
+    return Array.from({ length: count }, (_, i) => colors[Math.round((i * (colors.length - 1)) / (count - 1))]);
+};
+
+/**
+ * 3x3 bivariate palette, indexed [yClass][xClass] from low to high. Low/low is near white, high/high the darkest.
+ */
+export const BIVARIATE_COLORS: string[][] = [
+    ['#e8e8e8', '#ace4e4', '#5ac8c8'],
+    ['#dfb0d6', '#a5add3', '#5698b9'],
+    ['#be64ac', '#8c62aa', '#3b4994'],
+];
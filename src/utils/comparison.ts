@@ -0,0 +1,114 @@
+import type { ZoneFeature } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+import type { GradeBand } from '@/types/gradeBands';
+import type { ComparisonMetric, ComparisonValueKind, ComparisonZip } from '@/types/comparison';
+import { rollUpByZip } from '@/utils/aggregation';
+import { computeDerivedValues } from '@/utils/derivedFields';
+import { getBandTotal } from '@/utils/gradeBands';
+import { RACE_GROUPS, getRaceComposition } from '@/utils/demographics';
+import { SOCIOECONOMIC_METRICS } from '@/utils/socioeconomics';
+
+export const MIN_COMPARISON_ZIPS = 2;
+export const MAX_COMPARISON_ZIPS = 6;
+
+// One color per compared ZIP, used in the table headers, mini-maps and charts
+export const COMPARISON_COLORS = ['#7c3aed', '#f97316', '#0ea5e9', '#16a34a', '#e11d48', '#a16207'];
+
+/**
+ * Roll up the compared ZIPs, in the given order; ZIPs missing from the data are skipped
+ */
+export const buildComparisonZips = (features: ZoneFeature[], zips: string[], derivedFields: DerivedField[]): ComparisonZip[] => {
+    const rollups = rollUpByZip(features.filter(feature => zips.includes(feature.properties.Zip)));
+    return zips
+        .filter(zip => rollups.has(zip))
+        .map((zip, index) => {
+            const { values } = rollups.get(zip)!;
+            return {
+                zip,
+                color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+                values,
+                derived: computeDerivedValues(values, derivedFields),
+            };
+        });
+};
+
+const getStudents = (zip: ComparisonZip) => (zip.values.Female ?? 0) + (zip.values.Male ?? 0);
+
+/**
+ * Table rows: enrollment, grade bands, demographics, socioeconomic context and derived fields
+ */
+export const buildComparisonMetrics = (gradeBands: GradeBand[], derivedFields: DerivedField[]): ComparisonMetric[] => [
+    { id: 'students', label: 'Students', group: 'Enrollment', kind: 'count', getValue: getStudents },
+    { id: 'schools', label: 'Schools', group: 'Enrollment', kind: 'count', getValue: zip => zip.values.Schl_Cn },
+    { id: 'ratio', label: 'Student ratio', group: 'Enrollment', kind: 'decimal', getValue: zip => zip.values.Stdnt_R },
+    ...gradeBands.map((band): ComparisonMetric => ({
+        id: `band:${band.id}`,
+        label: band.label,
+        group: 'Grade Bands',
+        kind: 'count',
+        getValue: zip => getBandTotal(zip.values, band),
+    })),
+    {
+        id: 'female-share',
+        label: 'Female share',
+        group: 'Demographics',
+        kind: 'percent',
+        getValue: zip => (getStudents(zip) > 0 ? ((zip.values.Female ?? 0) / getStudents(zip)) * 100 : null),
+    },
+    ...RACE_GROUPS.map((group): ComparisonMetric => ({
+        id: `race:${group.field}`,
+        label: `${group.label} share`,
+        group: 'Demographics',
+        kind: 'percent',
+        getValue: zip => {
+            const composition = getRaceComposition(zip.values);
+            const share = composition.groups.find(candidate => candidate.field === group.field)?.share;
+            return composition.total > 0 && share != null ? share * 100 : null;
+        },
+    })),
+    { id: 'diversity', label: 'Diversity index', group: 'Demographics', kind: 'decimal', getValue: zip => getRaceComposition(zip.values).diversityIndex },
+    { id: 'pop', label: 'Population', group: 'Socioeconomic', kind: 'count', getValue: zip => zip.values.pop },
+    ...SOCIOECONOMIC_METRICS.map((metric): ComparisonMetric => ({
+        id: metric.field,
+        label: metric.label,
+        group: 'Socioeconomic',
+        kind: metric.format,
+        getValue: zip => zip.values[metric.field],
+    })),
+    ...derivedFields.map((field): ComparisonMetric => ({
+        id: `derived:${field.id}`,
+        label: field.label,
+        group: 'Derived',
+        kind: 'decimal',
+        getValue: zip => zip.derived[field.id] ?? null,
+    })),
+];
+
+export const formatComparisonValue = (kind: ComparisonValueKind, value: number | null): string => {
+    if (value == null) return '-';
+    switch (kind) {
+        case 'count':
+            return Math.round(value).toLocaleString();
+        case 'currency':
+            return `$${Math.round(value).toLocaleString()}`;
+        case 'percent':
+            return `${value.toFixed(1)}%`;
+        case 'decimal':
+            return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    }
+};
+
+/**
+ * Difference from the baseline ZIP and its relative size; rates differ in percentage points
+ */
+export const formatComparisonDelta = (kind: ComparisonValueKind, value: number | null, baseline: number | null): string | null => {
+    if (value == null || baseline == null) return null;
+    const delta = value - baseline;
+    const sign = delta > 0 ? '+' : delta < 0 ? '−' : '±';
+    const magnitude = Math.abs(delta);
+
+    const formatted = kind === 'percent'
+        ? `${sign}${magnitude.toFixed(1)} pts`
+        : `${sign}${formatComparisonValue(kind, magnitude)}`;
+    return baseline !== 0 ? `${formatted} (${sign}${((magnitude / Math.abs(baseline)) * 100).toFixed(1)}%)` : formatted;
+};
@@ -0,0 +1,39 @@
+type HashPart = ArrayBuffer | string | undefined | null;
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * 32-bit FNV-1a, for insecure origins where crypto.subtle is unavailable
+ */
+const fnv1a = (bytes: Uint8Array): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Hash source file contents so a dataset can be matched against the files it was built from.
+ * The algorithm is part of the result, so hashes from different origins never compare equal by accident.
+ */
+export const hashContent = async (parts: HashPart[]): Promise<string> => {
+    const encoder = new TextEncoder();
+    const chunks = parts
+        .filter((part): part is ArrayBuffer | string => part != null)
+        .map(part => (typeof part === 'string' ? encoder.encode(part) : new Uint8Array(part)));
+
+    const combined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        combined.set(chunk, offset);
+        offset += chunk.byteLength;
+    });
+
+    if (globalThis.crypto?.subtle) {
+        return `sha256:${toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', combined)))}`;
+    }
+    return `fnv1a:${fnv1a(combined)}`;
+};
@@ -0,0 +1,247 @@
+import type { ZoneCollection } from '@/types/zones';
+import type { DatasetMetadata, DatasetSource, StoredDataset } from '@/types/datasets';
+import type { Territory } from '@/types/territories';
+import { normalizeZoneCollection } from '@/utils/shapefileLoader';
+
+const DB_NAME = 'TexasZonesDB';
+const DB_VERSION = 3;
+const METADATA_STORE = 'datasets';
+const DATA_STORE = 'dataset-features';
+// Added in version 3; territories are indexed by the dataset they belong to
+const TERRITORY_STORE = 'territories';
+const TERRITORY_DATASET_INDEX = 'datasetId';
+// Version 1 kept a single upload under one fixed id
+const LEGACY_STORE = 'geojson-data';
+const LEGACY_RECORD_ID = 'geojson-cache';
+const ACTIVE_DATASET_KEY = 'texas-zones-active-dataset';
+
+/**
+ * Storage format of saved datasets. Bump it and add a migration whenever stored features or metadata change shape.
+ * 1: normalized zone properties with their field mapping
+ * 2: schema version and source content hash in the metadata
+ */
+export const DATASET_SCHEMA_VERSION = 2;
+
+type DatasetMigration = (metadata: DatasetMetadata, data: ZoneCollection) => { metadata: DatasetMetadata; data: ZoneCollection };
+
+// Keyed by the version each migration upgrades from
+const MIGRATIONS: Record<number, DatasetMigration> = {
+    1: (metadata, data) => {
+        // Version 1 records migrated from the single-upload cache may still hold raw DBF values
+        const normalized = data.fieldMapping ? data : normalizeZoneCollection(data);
+        return {
+            metadata: { ...metadata, schemaVersion: 2, fieldMapping: normalized.fieldMapping },
+            data: normalized,
+        };
+    },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+export const createDatasetId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Describe a collection for the library listing
+ */
+export const createDatasetMetadata = (data: ZoneCollection, source: DatasetSource): DatasetMetadata => ({
+    id: createDatasetId(),
+    schemaVersion: DATASET_SCHEMA_VERSION,
+    name: source.name,
+    sourceFiles: source.files,
+    featureCount: data.features.length,
+    loadedAt: Date.now(),
+    fieldMapping: data.fieldMapping,
+    attributeOnly: data.attributeOnly,
+    contentHash: source.contentHash,
+    publicBaseName: source.publicBaseName,
+});
+
+/**
+ * Move the single version 1 cache record into the library so an upgrade keeps the user's data
+ */
+const migrateLegacyCache = (db: IDBDatabase, transaction: IDBTransaction) => {
+    if (!db.objectStoreNames.contains(LEGACY_STORE)) return;
+
+    const request = transaction.objectStore(LEGACY_STORE).get(LEGACY_RECORD_ID);
+    request.onsuccess = () => {
+        const record = request.result as { data?: ZoneCollection; timestamp?: number } | undefined;
+        if (record?.data) {
+            const data = record.data.fieldMapping ? record.data : normalizeZoneCollection(record.data);
+            const metadata: DatasetMetadata = {
+                ...createDatasetMetadata(data, { name: 'Cached dataset', files: [] }),
+                loadedAt: record.timestamp || Date.now(),
+            };
+            const stored: StoredDataset = { id: metadata.id, data };
+            transaction.objectStore(METADATA_STORE).put(metadata);
+            transaction.objectStore(DATA_STORE).put(stored);
+            localStorage.setItem(ACTIVE_DATASET_KEY, metadata.id);
+            console.log('📦 Migrated cached upload into the dataset library');
+        }
+        db.deleteObjectStore(LEGACY_STORE);
+    };
+};
+
+const openDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(METADATA_STORE)) {
+                db.createObjectStore(METADATA_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(DATA_STORE)) {
+                db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(TERRITORY_STORE)) {
+                db.createObjectStore(TERRITORY_STORE, { keyPath: 'id' })
+                    .createIndex(TERRITORY_DATASET_INDEX, 'datasetId', { unique: false });
+            }
+            migrateLegacyCache(db, request.transaction!);
+        };
+    });
+};
+
+/**
+ * List every saved dataset, most recently loaded first
+ */
+export const listDatasets = async (): Promise<DatasetMetadata[]> => {
+    const db = await openDB();
+    const store = db.transaction([METADATA_STORE], 'readonly').objectStore(METADATA_STORE);
+    const datasets = await requestToPromise(store.getAll() as IDBRequest<DatasetMetadata[]>);
+    return datasets.sort((a, b) => b.loadedAt - a.loadedAt);
+};
+
+export const loadDataset = async (id: string): Promise<ZoneCollection | null> => {
+    const db = await openDB();
+    const store = db.transaction([DATA_STORE], 'readonly').objectStore(DATA_STORE);
+    const record = await requestToPromise(store.get(id) as IDBRequest<StoredDataset | undefined>);
+    return record?.data ?? null;
+};
+
+/**
+ * Write a dataset's metadata and features in one transaction
+ */
+export const saveDataset = async (metadata: DatasetMetadata, data: ZoneCollection): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([METADATA_STORE, DATA_STORE], 'readwrite');
+    const stored: StoredDataset = { id: metadata.id, data };
+    transaction.objectStore(METADATA_STORE).put(metadata);
+    transaction.objectStore(DATA_STORE).put(stored);
+    await transactionDone(transaction);
+};
+
+/**
+ * Delete a dataset along with the territories drawn on it
+ */
+export const deleteDataset = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([METADATA_STORE, DATA_STORE, TERRITORY_STORE], 'readwrite');
+    transaction.objectStore(METADATA_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    const territoryKeys = transaction.objectStore(TERRITORY_STORE).index(TERRITORY_DATASET_INDEX).getAllKeys(id);
+    territoryKeys.onsuccess = () => {
+        territoryKeys.result.forEach(key => transaction.objectStore(TERRITORY_STORE).delete(key));
+    };
+    await transactionDone(transaction);
+
+    if (getActiveDatasetId() === id) {
+        setActiveDatasetId(null);
+    }
+};
+
+/**
+ * Territories of a dataset, sorted by name
+ */
+export const listTerritories = async (datasetId: string): Promise<Territory[]> => {
+    const db = await openDB();
+    const index = db.transaction([TERRITORY_STORE], 'readonly').objectStore(TERRITORY_STORE).index(TERRITORY_DATASET_INDEX);
+    const territories = await requestToPromise(index.getAll(datasetId) as IDBRequest<Territory[]>);
+    return territories.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTerritory = async (territory: Territory): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([TERRITORY_STORE], 'readwrite');
+    transaction.objectStore(TERRITORY_STORE).put(territory);
+    await transactionDone(transaction);
+};
+
+export const deleteTerritory = async (id: string): Promise<void> => {
+    const db = await openDB();
+    const transaction = db.transaction([TERRITORY_STORE], 'readwrite');
+    transaction.objectStore(TERRITORY_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+/**
+ * Bring every saved dataset up to DATASET_SCHEMA_VERSION. Datasets that cannot be migrated, including ones written
+ * by a newer version of the app, are deleted rather than left to break the views that read them.
+ */
+export const prepareLibrary = async (): Promise<{ datasets: DatasetMetadata[]; invalidated: string[] }> => {
+    const invalidated: string[] = [];
+
+    for (const stored of await listDatasets()) {
+        // Metadata saved before versioning existed is version 1
+        let metadata: DatasetMetadata = { ...stored, schemaVersion: stored.schemaVersion || 1 };
+        if (metadata.schemaVersion === DATASET_SCHEMA_VERSION) continue;
+
+        try {
+            if (metadata.schemaVersion > DATASET_SCHEMA_VERSION) {
+                throw new Error(`Dataset schema ${metadata.schemaVersion} is newer than this app supports`);
+            }
+
+            let data = await loadDataset(metadata.id);
+            if (!data) throw new Error('Dataset features are missing');
+
+            while (metadata.schemaVersion < DATASET_SCHEMA_VERSION) {
+                const migrate = MIGRATIONS[metadata.schemaVersion];
+                if (!migrate) throw new Error(`No migration from dataset schema ${metadata.schemaVersion}`);
+                ({ metadata, data } = migrate(metadata, data));
+            }
+
+            await saveDataset(metadata, data);
+            console.log(`📦 Migrated dataset "${metadata.name}" to schema ${DATASET_SCHEMA_VERSION}`);
+        } catch (error) {
+            console.error(`❌ Invalidating dataset "${metadata.name}":`, error);
+            await deleteDataset(metadata.id);
+            invalidated.push(metadata.name);
+        }
+    }
+
+    return { datasets: await listDatasets(), invalidated };
+};
+
+/**
+ * Bytes used and available for this origin, when the browser reports them
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+export const getActiveDatasetId = (): string | null => localStorage.getItem(ACTIVE_DATASET_KEY);
+
+export const setActiveDatasetId = (id: string | null) => {
+    if (id) {
+        localStorage.setItem(ACTIVE_DATASET_KEY, id);
+    } else {
+        localStorage.removeItem(ACTIVE_DATASET_KEY);
+    }
+};
@@ -0,0 +1,45 @@
+import type { ZoneNumericField } from '@/types/zones';
+import type { RaceComposition, RaceGroupShare } from '@/types/demographics';
+
+/**
+ * Race/ethnicity count columns
+ */
+export const RACE_GROUPS: { field: ZoneNumericField; label: string; color: string }[] = [
+    { field: 'Hispanc', label: 'Hispanic', color: '#f59e0b' },
+    { field: 'White', label: 'White', color: '#3b82f6' },
+    { field: 'Black', label: 'Black', color: '#10b981' },
+    { field: 'Asian', label: 'Asian', color: '#ef4444' },
+];
+
+const OTHER_GROUP = { label: 'Other', color: '#94a3b8' };
+
+/**
+ * Share of each group among a zone's or selection's students, with Simpson's diversity index.
+ * Students in Ttl_Std but in none of the columns (two or more races, Native American, ...)
+ * count as one "Other" group.
+ */
+export const getRaceComposition = (values: Partial<Record<ZoneNumericField, number | null>>): RaceComposition => {
+    const counts = RACE_GROUPS.map(group => ({ ...group, count: Math.max(values[group.field] ?? 0, 0) }));
+    const reported = counts.reduce((sum, group) => sum + group.count, 0);
+    const other = Math.max((values.Ttl_Std ?? 0) - reported, 0);
+
+    const withOther: Omit<RaceGroupShare, 'share'>[] = other > 0
+        ? [...counts, { field: null, ...OTHER_GROUP, count: other }]
+        : counts;
+    const total = reported + other;
+
+    const groups = withOther.map(group => ({ ...group, share: total > 0 ? group.count / total : 0 }));
+    const diversityIndex = total > 0 ? 1 - groups.reduce((sum, group) => sum + group.share * group.share, 0) : null;
+
+    return { total, groups, diversityIndex };
+};
+
+/**
+ * Simpson's index reads as the chance that two students picked at random belong to different groups
+ */
+export const describeDiversityIndex = (index: number | null): string => {
+    if (index == null) return 'No data';
+    if (index < 0.3) return 'Low';
+    if (index < 0.5) return 'Moderate';
+    return 'High';
+};
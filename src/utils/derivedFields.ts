@@ -0,0 +1,102 @@
+import type { ZoneCollection, ZoneFeature, ZoneNumericField } from '@/types/zones';
+import type { DerivedField, DerivedFieldKey, NumericFieldKey } from '@/types/derivedFields';
+import { compileExpression, type NumericValues } from '@/utils/expression';
+import { getFieldRoleLabel } from '@/utils/fieldMapping';
+
+const DERIVED_FIELDS_KEY = 'texas-zones-derived-fields';
+const DERIVED_KEY_PREFIX = 'derived:';
+
+/**
+ * Rates most comparisons across ZIPs need, offered until the user edits the list
+ */
+export const DEFAULT_DERIVED_FIELDS: DerivedField[] = [
+    { id: 'students-per-1000', label: 'Students per 1,000 population', expression: '(Ttl_Std / pop) * 1000', unit: 'per 1,000' },
+    { id: 'female-share', label: 'Female share', expression: '(Female / Ttl_Std) * 100', unit: '%' },
+    { id: 'hispanic-share', label: 'Hispanic share', expression: '(Hispanc / Ttl_Std) * 100', unit: '%' },
+    { id: 'pre-k-share', label: 'Pre-K share of enrollment', expression: '(Pre_K / Ttl_Std) * 100', unit: '%' },
+    { id: 'students-per-school', label: 'Students per school', expression: 'Ttl_Std / Schl_Cn' },
+];
+
+export const createDerivedFieldId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const toDerivedKey = (id: string): DerivedFieldKey => `${DERIVED_KEY_PREFIX}${id}`;
+
+export const isDerivedKey = (key: string): key is DerivedFieldKey => key.startsWith(DERIVED_KEY_PREFIX);
+
+export const fromDerivedKey = (key: DerivedFieldKey): string => key.slice(DERIVED_KEY_PREFIX.length);
+
+/**
+ * Saved derived fields, or the defaults when none have been saved yet
+ */
+export const loadDerivedFields = (): DerivedField[] => {
+    try {
+        const stored = localStorage.getItem(DERIVED_FIELDS_KEY);
+        return stored ? (JSON.parse(stored) as DerivedField[]) : DEFAULT_DERIVED_FIELDS;
+    } catch (error) {
+        console.error('❌ Error reading derived fields:', error);
+        return DEFAULT_DERIVED_FIELDS;
+    }
+};
+
+export const saveDerivedFields = (fields: DerivedField[]) => {
+    localStorage.setItem(DERIVED_FIELDS_KEY, JSON.stringify(fields));
+};
+
+// Fields whose expression no longer compiles are skipped
+const compileDerivedFields = (fields: DerivedField[]) =>
+    fields.flatMap(field => {
+        try {
+            return [{ id: field.id, evaluate: compileExpression(field.expression).evaluate }];
+        } catch (error) {
+            console.warn(`⚠️ Skipping derived field "${field.label}":`, error);
+            return [];
+        }
+    });
+
+/**
+ * Evaluate every derived field for each feature, storing results under `derived` by field id
+ */
+export const applyDerivedFields = (collection: ZoneCollection, fields: DerivedField[]): ZoneCollection => {
+    const compiled = compileDerivedFields(fields);
+    if (compiled.length === 0) return collection;
+
+    return {
+        ...collection,
+        features: collection.features.map((feature): ZoneFeature => ({
+            ...feature,
+            derived: Object.fromEntries(compiled.map(({ id, evaluate }) => [id, evaluate(feature.properties)])),
+        })),
+    };
+};
+
+/**
+ * Evaluate derived fields on rolled-up values, so a rate over several zones is recomputed from their
+ * combined counts instead of averaging each zone's rate
+ */
+export const computeDerivedValues = (values: NumericValues, fields: DerivedField[]): Record<string, number | null> =>
+    Object.fromEntries(compileDerivedFields(fields).map(({ id, evaluate }) => [id, evaluate(values)]));
+
+/**
+ * Read a column or derived value from a feature
+ */
+export const getNumericValue = (feature: ZoneFeature, key: NumericFieldKey): number | null =>
+    isDerivedKey(key)
+        ? feature.derived?.[fromDerivedKey(key)] ?? null
+        : feature.properties[key];
+
+export const getNumericFieldLabel = (key: NumericFieldKey, derivedFields: DerivedField[]): string => {
+    if (!isDerivedKey(key)) return getFieldRoleLabel(key as ZoneNumericField);
+    const field = derivedFields.find(candidate => toDerivedKey(candidate.id) === key);
+    return field ? field.label : 'Removed derived field';
+};
+
+/**
+ * Display a derived value rounded to two decimals, with its unit
+ */
+export const formatDerivedValue = (value: number | null, field: DerivedField): string => {
+    if (value == null) return '-';
+    const text = value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    if (!field.unit) return text;
+    return field.unit === '%' ? `${text}%` : `${text} ${field.unit}`;
+};
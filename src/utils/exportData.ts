@@ -0,0 +1,180 @@
+import type { Feature, FeatureCollection, Geometry, Polygon, Position } from 'geojson';
+import { ZONE_NUMERIC_FIELDS, type ZoneFeature, type ZoneStringField } from '@/types/zones';
+import type { DerivedField } from '@/types/derivedFields';
+import type { ExportColumn, ExportFormat, ExportLevel, ExportRow } from '@/types/export';
+import { rollUpByZip } from '@/utils/aggregation';
+import { computeDerivedValues, toDerivedKey } from '@/utils/derivedFields';
+import { buildShapefileArchive } from '@/utils/shapefileWriter';
+import { getPolygons } from '@/utils/geometry';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; hasGeometry: boolean }[] = [
+    { value: 'csv', label: 'CSV', extension: 'csv', hasGeometry: false },
+    { value: 'geojson', label: 'GeoJSON', extension: 'geojson', hasGeometry: true },
+    { value: 'kml', label: 'KML (Google Earth)', extension: 'kml', hasGeometry: true },
+    { value: 'shapefile', label: 'Shapefile (zipped)', extension: 'zip', hasGeometry: true },
+];
+
+// Number of source records behind a ZIP row
+const RECORD_COUNT_KEY = 'Records';
+
+/**
+ * Columns available at a level. ZIP rows drop the school level, which rolls up to a count of distinct levels.
+ */
+export const getExportColumns = (level: ExportLevel, derivedFields: DerivedField[]): ExportColumn[] => {
+    const textFields: ZoneStringField[] = level === 'zips' ? ['Zip', 'state'] : ['Zip', 'Schl_Lv', 'state'];
+    return [
+        ...textFields.map((field): ExportColumn => ({ key: field, label: field, type: 'text' })),
+        ...(level === 'zips' ? [{ key: RECORD_COUNT_KEY, label: RECORD_COUNT_KEY, type: 'number' } as ExportColumn] : []),
+        ...ZONE_NUMERIC_FIELDS.map((field): ExportColumn => ({ key: field, label: field, type: 'number' })),
+        ...derivedFields.map((field): ExportColumn => ({ key: toDerivedKey(field.id), label: field.label, type: 'number' })),
+    ];
+};
+
+/**
+ * Polygons of several zones as one geometry, without dissolving shared edges
+ */
+const combineGeometries = (geometries: (Geometry | null)[]): Geometry | null => {
+    const polygons = geometries.flatMap(getPolygons);
+    if (polygons.length === 0) return null;
+    return polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+/**
+ * Rows for the features, either as they are or rolled up per ZIP. Derived fields are recomputed from
+ * the rolled-up counts, as in the comparison and rankings views.
+ */
+export const buildExportRows = (features: ZoneFeature[], level: ExportLevel, derivedFields: DerivedField[]): ExportRow[] => {
+    if (level === 'records') {
+        return features.map(feature => ({
+            values: {
+                ...feature.properties,
+                ...Object.fromEntries(derivedFields.map(field => [toDerivedKey(field.id), feature.derived?.[field.id] ?? null])),
+            },
+            geometry: feature.geometry,
+        }));
+    }
+
+    const geometriesByZip = new Map<string, (Geometry | null)[]>();
+    features.forEach(feature => {
+        const zip = feature.properties.Zip;
+        if (!zip) return;
+        if (!geometriesByZip.has(zip)) {
+            geometriesByZip.set(zip, []);
+        }
+        geometriesByZip.get(zip)!.push(feature.geometry);
+    });
+
+    return Array.from(rollUpByZip(features), ([zip, rollup]) => {
+        const derived = computeDerivedValues(rollup.values, derivedFields);
+        return {
+            values: {
+                Zip: zip,
+                state: rollup.text.state,
+                [RECORD_COUNT_KEY]: rollup.recordCount,
+                ...rollup.values,
+                ...Object.fromEntries(derivedFields.map(field => [toDerivedKey(field.id), derived[field.id] ?? null])),
+            },
+            geometry: combineGeometries(geometriesByZip.get(zip) || []),
+        };
+    }).sort((a, b) => String(a.values.Zip).localeCompare(String(b.values.Zip)));
+};
+
+const escapeCsv = (value: string | number | null): string => {
+    if (value == null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ExportRow[], columns: ExportColumn[]): string =>
+    [
+        columns.map(column => escapeCsv(column.label)).join(','),
+        ...rows.map(row => columns.map(column => escapeCsv(row.values[column.key] ?? null)).join(',')),
+    ].join('\r\n');
+
+export const toGeoJson = (rows: ExportRow[], columns: ExportColumn[]): string => {
+    const collection: FeatureCollection = {
+        type: 'FeatureCollection',
+        features: rows.map((row): Feature => ({
+            type: 'Feature',
+            geometry: row.geometry,
+            properties: Object.fromEntries(columns.map(column => [column.label, row.values[column.key] ?? null])),
+        })),
+    };
+    return JSON.stringify(collection);
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toKmlRing = (ring: Position[]) =>
+    `<LinearRing><coordinates>${ring.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates></LinearRing>`;
+
+const toKmlPolygon = ([outer, ...holes]: Polygon['coordinates']) =>
+    `<Polygon><outerBoundaryIs>${toKmlRing(outer)}</outerBoundaryIs>${holes.map(hole => `<innerBoundaryIs>${toKmlRing(hole)}</innerBoundaryIs>`).join('')}</Polygon>`;
+
+/**
+ * KML 2.2 document with one placemark per row, named by ZIP, and the columns as extended data
+ */
+export const toKml = (rows: ExportRow[], columns: ExportColumn[], name: string): string => {
+    const placemarks = rows.map(row => {
+        const polygons = getPolygons(row.geometry);
+        const geometry = polygons.length === 1
+            ? toKmlPolygon(polygons[0])
+            : polygons.length > 1 ? `<MultiGeometry>${polygons.map(toKmlPolygon).join('')}</MultiGeometry>` : '';
+        const data = columns
+            .map(column => `<Data name="${escapeXml(column.label)}"><value>${escapeXml(String(row.values[column.key] ?? ''))}</value></Data>`)
+            .join('');
+        return `<Placemark><name>${escapeXml(String(row.values.Zip ?? ''))}</name><ExtendedData>${data}</ExtendedData>${geometry}</Placemark>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+        `<name>${escapeXml(name)}</name>`,
+        ...placemarks,
+        '</Document></kml>',
+    ].join('\n');
+};
+
+/**
+ * Write the rows in a format, as a file named after the export
+ */
+export const buildExportFile = (format: ExportFormat, rows: ExportRow[], columns: ExportColumn[], name: string): File => {
+    const extension = EXPORT_FORMATS.find(candidate => candidate.value === format)!.extension;
+    const fileName = `${name}.${extension}`;
+
+    switch (format) {
+        case 'csv':
+            // Byte order mark so Excel reads the file as UTF-8
+            return new File(['\uFEFF', toCsv(rows, columns)], fileName, { type: 'text/csv;charset=utf-8' });
+        case 'geojson':
+            return new File([toGeoJson(rows, columns)], fileName, { type: 'application/geo+json' });
+        case 'kml':
+            return new File([toKml(rows, columns, name)], fileName, { type: 'application/vnd.google-earth.kml+xml' });
+        case 'shapefile':
+            return new File([buildShapefileArchive(rows, columns, name)], fileName, { type: 'application/zip' });
+    }
+};
+
+/**
+ * Hand a file to the browser as a download
+ */
+export const downloadFile = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke after the click has been handled, or some browsers cancel the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * File name safe on every platform, from a free-form title
+ */
+export const toExportFileName = (title: string): string =>
+    title.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'texas-zones-export';
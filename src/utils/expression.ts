@@ -0,0 +1,171 @@
+import { ZONE_NUMERIC_FIELDS, type ZoneNumericField } from '@/types/zones';
+
+/**
+ * Raised for an expression that cannot be parsed or references an unknown column
+ */
+export class ExpressionError extends Error {
+    /** Character offset in the expression where the problem was found */
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+/** A zone's numeric attributes, or a roll-up of several zones */
+export type NumericValues = Record<ZoneNumericField, number | null>;
+
+type Token =
+    | { type: 'number'; value: number; position: number }
+    | { type: 'field'; value: ZoneNumericField; position: number }
+    | { type: 'operator'; value: '+' | '-' | '*' | '/' | '(' | ')'; position: number };
+
+type ExpressionNode =
+    | { type: 'number'; value: number }
+    | { type: 'field'; field: ZoneNumericField }
+    | { type: 'negate'; operand: ExpressionNode }
+    | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode };
+
+export interface CompiledExpression {
+    /** Columns the expression reads */
+    fields: ZoneNumericField[];
+    /** Null when a referenced value is missing or the result is not a finite number (e.g. division by zero) */
+    evaluate: (values: NumericValues) => number | null;
+}
+
+// Column names are matched case-insensitively so "hispanc" and "Hispanc" both work
+const FIELD_LOOKUP = new Map(ZONE_NUMERIC_FIELDS.map(field => [field.toLowerCase(), field]));
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (/[\d.]/.test(char)) {
+            const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+            if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`, i);
+            tokens.push({ type: 'number', value: Number(match[0]), position: i });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(char)) {
+            const name = expression.slice(i).match(/^[A-Za-z_]\w*/)![0];
+            const field = FIELD_LOOKUP.get(name.toLowerCase());
+            if (!field) throw new ExpressionError(`Unknown column "${name}"`, i);
+            tokens.push({ type: 'field', value: field, position: i });
+            i += name.length;
+        } else if ('+-*/()'.includes(char)) {
+            tokens.push({ type: 'operator', value: char as '+' | '-' | '*' | '/' | '(' | ')', position: i });
+            i++;
+        } else {
+            throw new ExpressionError(`Unexpected "${char}" at position ${i + 1}`, i);
+        }
+    }
+
+    return tokens;
+};
+
+/**
+ * Recursive descent over: sum := product (("+" | "-") product)*, product := unary (("*" | "/") unary)*,
+ * unary := "-" unary | primary, primary := number | column | "(" sum ")"
+ */
+const parse = (tokens: Token[], length: number): ExpressionNode => {
+    let index = 0;
+    const peek = () => tokens[index];
+    const isOperator = (value: string) => peek()?.type === 'operator' && peek().value === value;
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[index++];
+        if (!token) throw new ExpressionError('Expression ends unexpectedly', length);
+        if (token.type === 'number') return { type: 'number', value: token.value };
+        if (token.type === 'field') return { type: 'field', field: token.value };
+        if (token.value === '(') {
+            const inner = parseSum();
+            if (!isOperator(')')) throw new ExpressionError('Missing closing parenthesis', peek()?.position ?? length);
+            index++;
+            return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`, token.position);
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isOperator('-')) {
+            index++;
+            return { type: 'negate', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parseProduct = (): ExpressionNode => {
+        let node = parseUnary();
+        while (isOperator('*') || isOperator('/')) {
+            const operator = tokens[index++].value as '*' | '/';
+            node = { type: 'binary', operator, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseSum = (): ExpressionNode => {
+        let node = parseProduct();
+        while (isOperator('+') || isOperator('-')) {
+            const operator = tokens[index++].value as '+' | '-';
+            node = { type: 'binary', operator, left: node, right: parseProduct() };
+        }
+        return node;
+    };
+
+    const root = parseSum();
+    if (index < tokens.length) {
+        const token = tokens[index];
+        throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`, token.position);
+    }
+    return root;
+};
+
+const evaluateNode = (node: ExpressionNode, values: NumericValues): number | null => {
+    switch (node.type) {
+        case 'number':
+            return node.value;
+        case 'field':
+            return values[node.field];
+        case 'negate': {
+            const operand = evaluateNode(node.operand, values);
+            return operand == null ? null : -operand;
+        }
+        case 'binary': {
+            const left = evaluateNode(node.left, values);
+            const right = evaluateNode(node.right, values);
+            if (left == null || right == null) return null;
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right === 0 ? null : left / right;
+            }
+        }
+    }
+};
+
+/**
+ * Parse an arithmetic expression over numeric zone columns. Supports numbers, column names, + - * /,
+ * unary minus and parentheses. Throws ExpressionError for invalid input.
+ */
+export const compileExpression = (expression: string): CompiledExpression => {
+    const tokens = tokenize(expression);
+    if (tokens.length === 0) throw new ExpressionError('Expression is empty', 0);
+
+    const root = parse(tokens, expression.length);
+    const fields = Array.from(new Set(tokens.filter(token => token.type === 'field').map(token => token.value as ZoneNumericField)));
+
+    return {
+        fields,
+        evaluate: (values) => {
+            const value = evaluateNode(root, values);
+            return value != null && Number.isFinite(value) ? value : null;
+        },
+    };
+};
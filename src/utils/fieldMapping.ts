@@ -0,0 +1,90 @@
+import type { FieldMapping, FieldRole } from '@/types/zones';
+
+export interface FieldRoleDefinition {
+    role: FieldRole;
+    label: string;
+    group: 'Identity' | 'Enrollment' | 'Grades' | 'Ethnicity' | 'Schools' | 'Socioeconomic';
+    required?: boolean;
+    aliases: string[];
+}
+
+export const FIELD_ROLES: FieldRoleDefinition[] = [
+    { role: 'Zip', label: 'ZIP code', group: 'Identity', required: true, aliases: ['zip', 'zipcode', 'zip_code', 'zcta', 'zcta5', 'postal_code', 'postcode'] },
+    { role: 'Schl_Lv', label: 'School level', group: 'Identity', aliases: ['school_level', 'schl_lvl', 'level', 'sch_level'] },
+    { role: 'state', label: 'State', group: 'Identity', aliases: ['st', 'state_abbr', 'stusps'] },
+    { role: 'Ttl_Std', label: 'Total students', group: 'Enrollment', aliases: ['total_students', 'tot_std', 'enrollment', 'students'] },
+    { role: 'Female', label: 'Female students', group: 'Enrollment', aliases: ['fem', 'females'] },
+    { role: 'Male', label: 'Male students', group: 'Enrollment', aliases: ['males'] },
+    { role: 'Pre_K', label: 'Pre-K', group: 'Grades', aliases: ['prek', 'pk', 'grade_pk'] },
+    { role: 'KG', label: 'Kindergarten', group: 'Grades', aliases: ['k', 'kinder', 'kindergarten', 'grade_k'] },
+    { role: 'Grade_1', label: 'Grade 1', group: 'Grades', aliases: ['grade1', 'gr1', 'g01'] },
+    { role: 'Grade_2', label: 'Grade 2', group: 'Grades', aliases: ['grade2', 'gr2', 'g02'] },
+    { role: 'Grade_3', label: 'Grade 3', group: 'Grades', aliases: ['grade3', 'gr3', 'g03'] },
+    { role: 'Grade_4', label: 'Grade 4', group: 'Grades', aliases: ['grade4', 'gr4', 'g04'] },
+    { role: 'Grade_5', label: 'Grade 5', group: 'Grades', aliases: ['grade5', 'gr5', 'g05'] },
+    { role: 'Grade_6', label: 'Grade 6', group: 'Grades', aliases: ['grade6', 'gr6', 'g06'] },
+    { role: 'Grade_7', label: 'Grade 7', group: 'Grades', aliases: ['grade7', 'gr7', 'g07'] },
+    { role: 'Grade_8', label: 'Grade 8', group: 'Grades', aliases: ['grade8', 'gr8', 'g08'] },
+    { role: 'Grade_9', label: 'Grade 9', group: 'Grades', aliases: ['grade9', 'gr9', 'g09'] },
+    { role: 'Grad_10', label: 'Grade 10', group: 'Grades', aliases: ['grade_10', 'grade10', 'gr10', 'g10'] },
+    { role: 'Grad_11', label: 'Grade 11', group: 'Grades', aliases: ['grade_11', 'grade11', 'gr11', 'g11'] },
+    { role: 'Grad_12', label: 'Grade 12', group: 'Grades', aliases: ['grade_12', 'grade12', 'gr12', 'g12'] },
+    { role: 'Asian', label: 'Asian students', group: 'Ethnicity', aliases: ['asian_std'] },
+    { role: 'Black', label: 'Black students', group: 'Ethnicity', aliases: ['african_american', 'black_std'] },
+    { role: 'Hispanc', label: 'Hispanic students', group: 'Ethnicity', aliases: ['hispanic', 'hisp', 'latino'] },
+    { role: 'White', label: 'White students', group: 'Ethnicity', aliases: ['white_std'] },
+    { role: 'Stdnt_R', label: 'Student ratio', group: 'Schools', aliases: ['student_ratio', 'std_ratio', 'teacher_ratio'] },
+    { role: 'Schl_Cn', label: 'School count', group: 'Schools', aliases: ['school_count', 'schools', 'num_schools', 'schl_cnt'] },
+    { role: 'pop', label: 'Population', group: 'Socioeconomic', aliases: ['population', 'total_pop', 'tot_pop'] },
+    { role: 'med_ncm', label: 'Median household income', group: 'Socioeconomic', aliases: ['median_income', 'med_income', 'medhhinc', 'med_hh_inc'] },
+    { role: 'pvrty_p', label: 'Poverty rate (%)', group: 'Socioeconomic', aliases: ['poverty', 'poverty_pct', 'pov_pct', 'poverty_rate'] },
+    { role: 'unmply_', label: 'Unemployment rate (%)', group: 'Socioeconomic', aliases: ['unemployment', 'unemp', 'unemp_rate', 'unmply_p'] },
+    { role: 'bchAtl_', label: "Bachelor's attainment (%)", group: 'Socioeconomic', aliases: ['bachelors', 'bach_pct', 'bachelor_p', 'ba_plus'] },
+];
+
+const simplify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Suggest a source column for every role, preferring exact names, then case-insensitive and alias matches
+ */
+export const suggestFieldMapping = (columns: string[]): FieldMapping => {
+    const mapping: FieldMapping = {};
+    const used = new Set<string>();
+
+    const claim = (role: FieldRole, column: string | undefined) => {
+        if (!column || used.has(column)) return false;
+        mapping[role] = column;
+        used.add(column);
+        return true;
+    };
+
+    // Exact names first so aliases never steal a column that matches another role verbatim
+    FIELD_ROLES.forEach(({ role }) => {
+        claim(role, columns.find(column => column === role));
+    });
+
+    FIELD_ROLES.forEach(({ role, aliases }) => {
+        if (mapping[role]) return;
+        const candidates = [role, ...aliases].map(simplify);
+        const match = candidates
+            .map(candidate => columns.find(column => !used.has(column) && simplify(column) === candidate))
+            .find(Boolean);
+        claim(role, match);
+    });
+
+    return mapping;
+};
+
+/**
+ * Collect every attribute column that appears in a raw collection
+ */
+export const getSourceColumns = (features: Array<{ properties?: Record<string, unknown> | null }>): string[] => {
+    const columns = new Set<string>();
+    features.forEach(feature => {
+        Object.keys(feature.properties || {}).forEach(key => columns.add(key));
+    });
+    return Array.from(columns);
+};
+
+export const getFieldRoleLabel = (role: FieldRole): string =>
+    FIELD_ROLES.find(definition => definition.role === role)?.label || role;
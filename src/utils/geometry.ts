@@ -0,0 +1,16 @@
+import type { Geometry, Position } from 'geojson';
+
+/** Mean earth radius used for distances and local projections */
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+export const METERS_PER_MILE = 1609.344;
+
+/**
+ * Polygons of a zone geometry, each as its outer ring followed by any holes; other geometry types have none
+ */
+export const getPolygons = (geometry: Geometry | null): Position[][][] => {
+    if (!geometry) return [];
+    if (geometry.type === 'Polygon') return [geometry.coordinates];
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+    return [];
+};
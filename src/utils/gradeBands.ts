@@ -0,0 +1,60 @@
+import type { ZoneNumericField } from '@/types/zones';
+import type { GradeBand } from '@/types/gradeBands';
+import type { NumericValues } from '@/utils/expression';
+
+const GRADE_BANDS_KEY = 'texas-zones-grade-bands';
+
+/**
+ * Grade enrollment columns from Pre-K to Grade 12, in order
+ */
+export const GRADE_LEVELS: { field: ZoneNumericField; label: string; color: string }[] = [
+    { field: 'Pre_K', label: 'Pre-K', color: '#3b82f6' },
+    { field: 'KG', label: 'KG', color: '#10b981' },
+    { field: 'Grade_1', label: 'Grade 1', color: '#f59e0b' },
+    { field: 'Grade_2', label: 'Grade 2', color: '#ef4444' },
+    { field: 'Grade_3', label: 'Grade 3', color: '#8b5cf6' },
+    { field: 'Grade_4', label: 'Grade 4', color: '#06b6d4' },
+    { field: 'Grade_5', label: 'Grade 5', color: '#84cc16' },
+    { field: 'Grade_6', label: 'Grade 6', color: '#f97316' },
+    { field: 'Grade_7', label: 'Grade 7', color: '#ec4899' },
+    { field: 'Grade_8', label: 'Grade 8', color: '#14b8a6' },
+    { field: 'Grade_9', label: 'Grade 9', color: '#6366f1' },
+    { field: 'Grad_10', label: 'Grade 10', color: '#eab308' },
+    { field: 'Grad_11', label: 'Grade 11', color: '#a855f7' },
+    { field: 'Grad_12', label: 'Grade 12', color: '#64748b' },
+];
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+    { id: 'early-childhood', label: 'Early Childhood', grades: ['Pre_K', 'KG'], color: '#3b82f6' },
+    { id: 'elementary', label: 'Elementary', grades: ['Grade_1', 'Grade_2', 'Grade_3', 'Grade_4', 'Grade_5'], color: '#10b981' },
+    { id: 'middle', label: 'Middle', grades: ['Grade_6', 'Grade_7', 'Grade_8'], color: '#f59e0b' },
+    { id: 'high', label: 'High', grades: ['Grade_9', 'Grad_10', 'Grad_11', 'Grad_12'], color: '#8b5cf6' },
+];
+
+/**
+ * Saved grade bands, or the defaults when none have been saved yet
+ */
+export const loadGradeBands = (): GradeBand[] => {
+    try {
+        const stored = localStorage.getItem(GRADE_BANDS_KEY);
+        return stored ? (JSON.parse(stored) as GradeBand[]) : DEFAULT_GRADE_BANDS;
+    } catch (error) {
+        console.error('❌ Error reading grade bands:', error);
+        return DEFAULT_GRADE_BANDS;
+    }
+};
+
+export const saveGradeBands = (bands: GradeBand[]) => {
+    localStorage.setItem(GRADE_BANDS_KEY, JSON.stringify(bands));
+};
+
+export const getGradeLabel = (field: ZoneNumericField): string =>
+    GRADE_LEVELS.find(level => level.field === field)?.label || field;
+
+/**
+ * Students enrolled in the band's grades; null when none of them has a value
+ */
+export const getBandTotal = (values: NumericValues, band: GradeBand): number | null => {
+    const present = band.grades.map(field => values[field]).filter((value): value is number => value != null && value >= 0);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) : null;
+};
@@ -0,0 +1,76 @@
+/**
+ * JPEG image filling one PDF page
+ */
+export interface PdfImagePage {
+    jpeg: Uint8Array;
+    /** Pixel size of the image */
+    width: number;
+    height: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Minimal PDF 1.4 with one full-page JPEG per page. Images are embedded as DCTDecode streams, so any
+ * viewer can show them without the app having to lay out text in PDF operators.
+ */
+export const buildImagePdf = (pages: PdfImagePage[], pageWidth: number, pageHeight: number): Uint8Array<ArrayBuffer> => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Objects 1 and 2 are the catalog and page tree; each page then takes three: page, content, image
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageIds[index];
+        const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+        startObject(pageId);
+        write(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+            `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+        );
+        startObject(pageId + 1);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+        startObject(pageId + 2);
+        write(
+            `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB ` +
+            `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+        );
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = 3 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+        pdf.set(chunk, position);
+        position += chunk.length;
+    });
+    return pdf;
+};
@@ -0,0 +1,145 @@
+import proj4, { type ProjectionDefinition } from 'proj4';
+import type { GeoJsonCollection } from '@/utils/shapefileLoader';
+
+/**
+ * Raised when a layer's coordinate system cannot be converted to WGS84 lon/lat
+ */
+export class UnsupportedProjectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UnsupportedProjectionError';
+    }
+}
+
+type Position = number[];
+type Transform = (position: Position) => Position;
+
+// Projected systems TEA and TxDOT layers commonly ship in, for sources that only carry an EPSG code
+proj4.defs([
+    ['EPSG:3081', '+proj=lcc +lat_0=31.1666666666667 +lon_0=-100 +lat_1=27.4166666666667 +lat_2=34.9166666666667 +x_0=1000000 +y_0=1000000 +datum=NAD83 +units=m +no_defs'],
+    ['EPSG:3083', '+proj=aea +lat_0=18 +lon_0=-100 +lat_1=27.5 +lat_2=35 +x_0=1500000 +y_0=6000000 +datum=NAD83 +units=m +no_defs'],
+    ['EPSG:26913', '+proj=utm +zone=13 +datum=NAD83 +units=m +no_defs'],
+    ['EPSG:26914', '+proj=utm +zone=14 +datum=NAD83 +units=m +no_defs'],
+    ['EPSG:26915', '+proj=utm +zone=15 +datum=NAD83 +units=m +no_defs'],
+]);
+
+// Datums that differ from WGS84 by well under a metre at map scale
+const WGS84_COMPATIBLE_DATUMS = ['wgs84', 'north_american_1983', 'nad83'];
+
+/**
+ * Read the coordinate system name from the outermost WKT node
+ */
+export const getProjectionName = (wkt: string): string =>
+    wkt.match(/^\s*[A-Z_]+\s*\[\s*"([^"]*)"/i)?.[1] || 'unknown coordinate system';
+
+/**
+ * Build a transform from a .prj WKT string to WGS84; null means coordinates are already lon/lat degrees
+ */
+export const createPrjTransform = (wkt?: string): Transform | null => {
+    if (!wkt || !wkt.trim()) return null;
+
+    let projection: ProjectionDefinition;
+    try {
+        // The parsed projection carries its definition fields at runtime
+        projection = proj4.Proj(wkt.trim()) as unknown as ProjectionDefinition;
+    } catch (error) {
+        console.error('Error parsing .prj:', error);
+        throw new UnsupportedProjectionError(
+            `The .prj describes a coordinate system that cannot be converted (${getProjectionName(wkt)}). Reproject the layer to WGS84 (EPSG:4326) and upload it again.`
+        );
+    }
+
+    const isLonLat = projection.projName === 'longlat';
+    const isCompatibleDatum = WGS84_COMPATIBLE_DATUMS.includes(String(projection.datumCode || '').toLowerCase());
+    if (isLonLat && isCompatibleDatum) return null;
+
+    const converter = proj4(wkt.trim(), 'WGS84');
+    return (position) => converter.forward(position.slice(0, 2)).concat(position.slice(2));
+};
+
+/**
+ * Build a transform from an EPSG code (FlatGeobuf header or legacy GeoJSON "crs" member) to WGS84
+ */
+export const createEpsgTransform = (code?: number | null): Transform | null => {
+    if (!code || code === 4326 || code === 4269) return null;
+
+    if (!proj4.defs(`EPSG:${code}`)) {
+        throw new UnsupportedProjectionError(
+            `Coordinate system EPSG:${code} is not supported. Reproject the layer to WGS84 (EPSG:4326) and upload it again.`
+        );
+    }
+
+    const converter = proj4(`EPSG:${code}`, 'WGS84');
+    return (position) => converter.forward(position.slice(0, 2)).concat(position.slice(2));
+};
+
+const transformCoordinates = (coordinates: unknown, transform: Transform): unknown => {
+    if (!Array.isArray(coordinates)) return coordinates;
+    if (typeof coordinates[0] === 'number') return transform(coordinates as Position);
+    return coordinates.map(child => transformCoordinates(child, transform));
+};
+
+const transformGeometry = (geometry: unknown, transform: Transform): unknown => {
+    if (!geometry || typeof geometry !== 'object') return geometry;
+
+    const shape = geometry as { type: string; coordinates?: unknown; geometries?: unknown[] };
+    if (shape.type === 'GeometryCollection') {
+        return { ...shape, geometries: (shape.geometries || []).map(child => transformGeometry(child, transform)) };
+    }
+    return { ...shape, coordinates: transformCoordinates(shape.coordinates, transform) };
+};
+
+const forEachPosition = (coordinates: unknown, visit: (position: Position) => void) => {
+    if (!Array.isArray(coordinates)) return;
+    if (typeof coordinates[0] === 'number') {
+        visit(coordinates as Position);
+        return;
+    }
+    coordinates.forEach(child => forEachPosition(child, visit));
+};
+
+/**
+ * Check that every position is a plausible lon/lat pair
+ */
+export const hasGeographicCoordinates = (collection: GeoJsonCollection): boolean => {
+    let valid = true;
+
+    collection.features.forEach(feature => {
+        if (!valid) return;
+        const shape = feature.geometry as { coordinates?: unknown; geometries?: Array<{ coordinates?: unknown }> } | null;
+        const parts = shape?.geometries ? shape.geometries.map(part => part.coordinates) : [shape?.coordinates];
+
+        parts.forEach(part => forEachPosition(part, ([x, y]) => {
+            if (!Number.isFinite(x) || !Number.isFinite(y) || Math.abs(x) > 180 || Math.abs(y) > 90) {
+                valid = false;
+            }
+        }));
+    });
+
+    return valid;
+};
+
+/**
+ * Reproject every geometry in a collection, then verify the result is WGS84 lon/lat
+ */
+export const reprojectCollection = (collection: GeoJsonCollection, transform: Transform | null): GeoJsonCollection => {
+    const result = transform
+        ? {
+            ...collection,
+            features: collection.features.map(feature => ({
+                ...feature,
+                geometry: transformGeometry(feature.geometry, transform),
+            })),
+        }
+        : collection;
+
+    if (!hasGeographicCoordinates(result)) {
+        throw new UnsupportedProjectionError(
+            transform
+                ? 'Reprojected coordinates fall outside valid longitude/latitude ranges. Check that the .prj matches the data.'
+                : 'Coordinates are not longitude/latitude degrees and no usable projection was provided. Include the .prj file or reproject the layer to WGS84 (EPSG:4326).'
+        );
+    }
+
+    return result;
+};
@@ -0,0 +1,225 @@
+import type { ZoneCollection } from '@/types/zones';
+import type { DatasetMetadata, DatasetSource } from '@/types/datasets';
+import { getDbfEncoding, getDbfRecordCount, getShxRecordCount } from '@/utils/shapefileLoader';
+import { createPrjTransform, getProjectionName } from '@/utils/projection';
+import { hashContent } from '@/utils/contentHash';
+import { loadAttributesInWorker, loadShapefileInWorker, type ParseOptions } from '@/utils/shapefileWorkerClient';
+
+export type ShapefileComponent = 'shp' | 'dbf' | 'shx' | 'prj' | 'cpg';
+
+/**
+ * What the public folder holds for a layer and how much of it can be loaded
+ */
+export interface PublicDataReport {
+    baseName: string;
+    components: Record<ShapefileComponent, boolean>;
+    dbfRecordCount: number | null;
+    shxRecordCount: number | null;
+    encoding: string;
+    encodingSource: 'cpg' | 'default';
+    projection: string | null;
+    /** full: geometry and attributes; attributes: DBF table only; unavailable: nothing usable */
+    mode: 'full' | 'attributes' | 'unavailable';
+    issues: string[];
+}
+
+/**
+ * Fetch a public data file, treating failures and SPA index.html fallbacks as missing
+ */
+const fetchComponent = async (url: string, init?: RequestInit): Promise<Response | null> => {
+    try {
+        const response = await fetch(url, init);
+        // SPA hosts answer missing files with index.html
+        const isHtml = response.headers.get('content-type')?.includes('text/html');
+        return response.ok && !isHtml ? response : null;
+    } catch (error) {
+        console.error(`Error fetching ${url}:`, error);
+        return null;
+    }
+};
+
+const fetchSidecars = async (baseName: string): Promise<{ prj?: string; cpg?: string }> => {
+    const [prj, cpg] = await Promise.all(['prj', 'cpg'].map(async (extension) => {
+        const response = await fetchComponent(`/data/${baseName}.${extension}`);
+        return response ? (await response.text()).trim() : undefined;
+    }));
+    return { prj, cpg };
+};
+
+/**
+ * Inspect the public folder without downloading geometry: which components exist, what the DBF and SHX
+ * headers say about record counts, and which encoding and projection a load would use
+ */
+export const inspectPublicData = async (baseName: string = 'TXelementary'): Promise<PublicDataReport> => {
+    const [shp, dbf, shx, sidecars] = await Promise.all([
+        fetchComponent(`/data/${baseName}.shp`, { method: 'HEAD' }),
+        // Only the headers are needed; servers that ignore Range send the whole file, which still works
+        fetchComponent(`/data/${baseName}.dbf`, { headers: { Range: 'bytes=0-31' } }),
+        fetchComponent(`/data/${baseName}.shx`, { headers: { Range: 'bytes=0-99' } }),
+        fetchSidecars(baseName),
+    ]);
+
+    const dbfRecordCount = dbf ? getDbfRecordCount(await dbf.arrayBuffer()) : null;
+    const shxRecordCount = shx ? getShxRecordCount(await shx.arrayBuffer()) : null;
+    const issues: string[] = [];
+
+    if (!dbf) {
+        issues.push(`${baseName}.dbf is missing, so there is no attribute table to load.`);
+    } else if (!shp) {
+        issues.push(`${baseName}.shp is missing, so zone boundaries cannot be drawn. Attribute-only mode loads the DBF table without geometry.`);
+    }
+    if (dbfRecordCount != null && shxRecordCount != null && dbfRecordCount !== shxRecordCount) {
+        issues.push(`The DBF header lists ${dbfRecordCount} records but the SHX index has ${shxRecordCount}.`);
+    }
+
+    let projection: string | null = null;
+    if (sidecars.prj) {
+        projection = getProjectionName(sidecars.prj);
+        try {
+            createPrjTransform(sidecars.prj);
+        } catch (error) {
+            issues.push(error instanceof Error ? error.message : String(error));
+        }
+    } else if (shp) {
+        issues.push('No .prj file; coordinates are assumed to be WGS84 longitude/latitude.');
+    }
+
+    const report: PublicDataReport = {
+        baseName,
+        components: { shp: !!shp, dbf: !!dbf, shx: !!shx, prj: !!sidecars.prj, cpg: !!sidecars.cpg },
+        dbfRecordCount,
+        shxRecordCount,
+        encoding: getDbfEncoding(sidecars.cpg),
+        encodingSource: sidecars.cpg ? 'cpg' : 'default',
+        projection,
+        mode: shp && dbf ? 'full' : dbf ? 'attributes' : 'unavailable',
+        issues,
+    };
+
+    console.log('🩺 Public data report:', report);
+    return report;
+};
+
+/**
+ * A dataset built from the public folder, with the source description the library stores
+ */
+export interface PublicDataset {
+    data: ZoneCollection;
+    source: DatasetSource;
+}
+
+export type PublicDataStatus = 'current' | 'changed' | 'unavailable';
+
+interface PublicComponents {
+    shp?: ArrayBuffer;
+    dbf: ArrayBuffer;
+    prj?: string;
+    cpg?: string;
+}
+
+/**
+ * Download the files a load in the given mode reads; attribute-only loads skip the .shp and .prj
+ */
+const fetchPublicComponents = async (baseName: string, mode: 'full' | 'attributes'): Promise<PublicComponents> => {
+    // Load required files (.shp and .dbf)
+    const [shpResponse, dbfResponse] = await Promise.all([
+        mode === 'full' ? fetch(`/data/${baseName}.shp`) : Promise.resolve(null),
+        fetch(`/data/${baseName}.dbf`),
+    ]);
+
+    if ((shpResponse && !shpResponse.ok) || !dbfResponse.ok) {
+        throw new Error(`Failed to load required shapefile components. SHP: ${shpResponse?.status ?? 'skipped'}, DBF: ${dbfResponse.status}`);
+    }
+
+    const { prj, cpg } = await fetchSidecars(baseName);
+    return {
+        shp: shpResponse ? await shpResponse.arrayBuffer() : undefined,
+        dbf: await dbfResponse.arrayBuffer(),
+        prj: mode === 'full' ? prj : undefined,
+        cpg,
+    };
+};
+
+const hashPublicComponents = (components: PublicComponents): Promise<string> =>
+    hashContent([components.shp, components.dbf, components.prj, components.cpg]);
+
+const describePublicSource = async (baseName: string, components: PublicComponents): Promise<DatasetSource> => ({
+    name: components.shp ? baseName : `${baseName} (attributes only)`,
+    files: (['shp', 'dbf', 'prj', 'cpg'] as const)
+        .filter(component => components[component] != null)
+        .map(component => `${baseName}.${component}`),
+    contentHash: await hashPublicComponents(components),
+    publicBaseName: baseName,
+});
+
+/**
+ * Load shapefile data from the public folder
+ */
+export const loadShapefileFromPublic = async (baseName: string = 'TXelementary', options?: ParseOptions): Promise<PublicDataset> => {
+    try {
+        console.log(`🔄 Loading shapefile data from public folder: ${baseName}`);
+
+        const components = await fetchPublicComponents(baseName, 'full');
+        console.log('✅ Successfully loaded SHP and DBF files from public folder');
+
+        // Parse and normalize in a worker so the page stays responsive
+        const [data, source] = await Promise.all([
+            loadShapefileInWorker({ shp: components.shp!, dbf: components.dbf, prj: components.prj, cpg: components.cpg }, options),
+            describePublicSource(baseName, components),
+        ]);
+
+        console.log(`📊 Processed shapefile: ${data.features.length} features loaded`);
+        return { data, source };
+
+    } catch (error) {
+        console.error('❌ Error loading shapefile from public folder:', error);
+        throw error;
+    }
+};
+
+/**
+ * Load only the DBF table from the public folder, for when the .shp is missing
+ */
+export const loadAttributesFromPublic = async (baseName: string = 'TXelementary', options?: ParseOptions): Promise<PublicDataset> => {
+    try {
+        console.log(`🔄 Loading attribute table from public folder: ${baseName}`);
+
+        const components = await fetchPublicComponents(baseName, 'attributes');
+        const [data, source] = await Promise.all([
+            loadAttributesInWorker(components.dbf, components.cpg, options),
+            describePublicSource(baseName, components),
+        ]);
+
+        console.log(`📊 Processed attribute table: ${data.features.length} records loaded without geometry`);
+        return { data, source };
+
+    } catch (error) {
+        console.error('❌ Error loading attribute table from public folder:', error);
+        throw error;
+    }
+};
+
+/**
+ * Load whatever the report says the public folder supports
+ */
+export const loadPublicDataset = (report: PublicDataReport, options?: ParseOptions): Promise<PublicDataset> => {
+    if (report.mode === 'full') return loadShapefileFromPublic(report.baseName, options);
+    if (report.mode === 'attributes') return loadAttributesFromPublic(report.baseName, options);
+    return Promise.reject(new Error(`No usable public data for ${report.baseName}`));
+};
+
+/**
+ * Compare a dataset loaded from /data/ against the files there now. A .shp appearing next to a dataset that was
+ * loaded as attributes only also counts as a change.
+ */
+export const checkPublicDataUpdate = async (dataset: DatasetMetadata): Promise<PublicDataStatus> => {
+    const baseName = dataset.publicBaseName || 'TXelementary';
+    const report = await inspectPublicData(baseName);
+    if (report.mode === 'unavailable') return 'unavailable';
+
+    const components = await fetchPublicComponents(baseName, report.mode);
+    const contentHash = await hashPublicComponents(components);
+    console.log('🔎 Public data check:', { dataset: dataset.name, stored: dataset.contentHash, current: contentHash });
+
+    return contentHash === dataset.contentHash ? 'current' : 'changed';
+};
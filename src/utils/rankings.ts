@@ -0,0 +1,55 @@
+import type { ZoneFeature, ZoneNumericField } from '@/types/zones';
+import type { DerivedField, NumericFieldKey } from '@/types/derivedFields';
+import type { NumericCondition } from '@/types/query';
+import type { MetricDistribution } from '@/types/socioeconomics';
+import type { RankingSort, ZipRankingRow } from '@/types/rankings';
+import { rollUpByZip } from '@/utils/aggregation';
+import { computeDerivedValues, fromDerivedKey, isDerivedKey } from '@/utils/derivedFields';
+import { isConditionActive, matchesNumeric } from '@/utils/zoneQuery';
+import { buildMetricDistribution } from '@/utils/socioeconomics';
+
+export const RANKING_LIMITS = [10, 25, 50, 100];
+
+export const buildZipRankingRows = (features: ZoneFeature[], derivedFields: DerivedField[]): ZipRankingRow[] =>
+    Array.from(rollUpByZip(features).entries()).map(([zip, { values }]) => ({
+        zip,
+        values,
+        derived: computeDerivedValues(values, derivedFields),
+    }));
+
+export const getRankingValue = (row: ZipRankingRow, field: NumericFieldKey): number | null =>
+    isDerivedKey(field)
+        ? row.derived[fromDerivedKey(field)] ?? null
+        : row.values[field as ZoneNumericField];
+
+/**
+ * Rows passing every active threshold, sorted by the field; ZIPs without a value sort last either way
+ */
+export const rankZips = (rows: ZipRankingRow[], sort: RankingSort, thresholds: NumericCondition[]): ZipRankingRow[] => {
+    const active = thresholds.filter(isConditionActive);
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return rows
+        .filter(row => active.every(condition => matchesNumeric(condition, getRankingValue(row, condition.field))))
+        .sort((a, b) => {
+            const aValue = getRankingValue(a, sort.field);
+            const bValue = getRankingValue(b, sort.field);
+            if (aValue == null) return bValue == null ? a.zip.localeCompare(b.zip) : 1;
+            if (bValue == null) return -1;
+            return (aValue - bValue) * direction || a.zip.localeCompare(b.zip);
+        });
+};
+
+/**
+ * Distribution of each field across all ZIPs, before thresholds, for percentile badges
+ */
+export const buildRankingDistributions = (rows: ZipRankingRow[], fields: NumericFieldKey[]): Map<NumericFieldKey, MetricDistribution> => {
+    const distributions = new Map<NumericFieldKey, MetricDistribution>();
+    fields.forEach(field => {
+        const distribution = buildMetricDistribution(rows.map(row => getRankingValue(row, field)));
+        if (distribution) {
+            distributions.set(field, distribution);
+        }
+    });
+    return distributions;
+};
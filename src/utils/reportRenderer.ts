@@ -0,0 +1,456 @@
+import { zipSync } from 'fflate';
+import type { Position } from 'geojson';
+import type { ZoneProperties } from '@/types/zones';
+import type { ZoneRollup } from '@/types/aggregation';
+import type { ComparisonValueKind } from '@/types/comparison';
+import type { ReportLayout, ReportOptions, ReportPageSize, ReportSubject } from '@/types/report';
+import { rollUpZones } from '@/utils/aggregation';
+import { GRADE_LEVELS, getBandTotal } from '@/utils/gradeBands';
+import { describeDiversityIndex, getRaceComposition } from '@/utils/demographics';
+import { formatComparisonValue } from '@/utils/comparison';
+import { getPolygons } from '@/utils/geometry';
+import { buildImagePdf, type PdfImagePage } from '@/utils/pdfWriter';
+
+// Page sizes in PDF points (1/72 inch)
+export const REPORT_PAGE_SIZES: Record<ReportPageSize, { label: string; width: number; height: number }> = {
+    letter: { label: 'US Letter', width: 612, height: 792 },
+    a4: { label: 'A4', width: 595, height: 842 },
+};
+
+// Pixels per point; 2 renders at 144 dpi, sharp in print without huge files
+const RENDER_SCALE = 2;
+const MARGIN = 40;
+const FONT = 'Helvetica, Arial, sans-serif';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const BORDER_COLOR = '#e5e7eb';
+const APPENDIX_ROW_HEIGHT = 14;
+// Browsers refuse canvases much taller than this, so longer reports export one PNG per page
+const MAX_SHEET_HEIGHT = 16384;
+
+// Rolled-up columns plus the figures computed from them
+type ReportValues = ZoneRollup['values'] & { students: number; diversity: number | null };
+
+const REPORT_METRICS: { label: string; kind: ComparisonValueKind; field: keyof ReportValues }[] = [
+    { label: 'Students', kind: 'count', field: 'students' },
+    { label: 'Schools', kind: 'count', field: 'Schl_Cn' },
+    { label: 'Population', kind: 'count', field: 'pop' },
+    { label: 'Median income', kind: 'currency', field: 'med_ncm' },
+    { label: 'Poverty rate', kind: 'percent', field: 'pvrty_p' },
+    { label: 'Unemployment', kind: 'percent', field: 'unmply_' },
+    { label: "Bachelor's or higher", kind: 'percent', field: 'bchAtl_' },
+    { label: 'Diversity index', kind: 'decimal', field: 'diversity' },
+];
+
+const APPENDIX_COLUMNS: { field: keyof ZoneProperties; label: string; width: number }[] = [
+    { field: 'Zip', label: 'ZIP', width: 46 },
+    { field: 'Schl_Lv', label: 'Level', width: 60 },
+    { field: 'Ttl_Std', label: 'Students', width: 54 },
+    { field: 'Female', label: 'Female', width: 48 },
+    { field: 'Male', label: 'Male', width: 48 },
+    { field: 'Schl_Cn', label: 'Schools', width: 46 },
+    { field: 'Stdnt_R', label: 'Ratio', width: 40 },
+    { field: 'pop', label: 'Population', width: 60 },
+    { field: 'med_ncm', label: 'Income', width: 58 },
+    { field: 'pvrty_p', label: 'Poverty %', width: 54 },
+];
+
+type Context = CanvasRenderingContext2D;
+
+const createPage = (pageSize: ReportPageSize): { canvas: HTMLCanvasElement; ctx: Context } => {
+    const { width, height } = REPORT_PAGE_SIZES[pageSize];
+    const canvas = document.createElement('canvas');
+    canvas.width = width * RENDER_SCALE;
+    canvas.height = height * RENDER_SCALE;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(RENDER_SCALE, RENDER_SCALE);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.textBaseline = 'alphabetic';
+    return { canvas, ctx };
+};
+
+const drawText = (ctx: Context, text: string, x: number, y: number, options: { size?: number; bold?: boolean; color?: string; align?: CanvasTextAlign; maxWidth?: number } = {}) => {
+    const { size = 10, bold = false, color = TEXT_COLOR, align = 'left', maxWidth } = options;
+    ctx.font = `${bold ? 'bold ' : ''}${size}px ${FONT}`;
+    ctx.fillStyle = color;
+    ctx.textAlign = align;
+
+    // Shorten with an ellipsis rather than letting canvas squeeze the glyphs
+    let fitted = text;
+    if (maxWidth != null && ctx.measureText(fitted).width > maxWidth) {
+        while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+            fitted = fitted.slice(0, -1);
+        }
+        fitted = `${fitted}…`;
+    }
+    ctx.fillText(fitted, x, y);
+};
+
+const drawSectionTitle = (ctx: Context, title: string, x: number, y: number) => {
+    drawText(ctx, title, x, y, { size: 11, bold: true });
+};
+
+/**
+ * Static map: the zones projected equirectangularly (longitude scaled by the cosine of the mid latitude)
+ * and fitted to the box. No basemap, so the page never depends on tiles loading.
+ */
+const drawMap = (ctx: Context, subject: ReportSubject, x: number, y: number, width: number, height: number) => {
+    ctx.fillStyle = '#f8fafc';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = BORDER_COLOR;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, width, height);
+
+    const shapes = subject.features.map(feature => ({
+        zip: feature.properties.Zip,
+        polygons: getPolygons(feature.geometry),
+    })).filter(shape => shape.polygons.length > 0);
+
+    if (shapes.length === 0) {
+        drawText(ctx, 'No boundary geometry in this dataset', x + width / 2, y + height / 2, { color: MUTED_COLOR, align: 'center' });
+        return;
+    }
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    shapes.forEach(shape => shape.polygons.flat(2).forEach(([lon, lat]) => {
+        minX = Math.min(minX, lon);
+        maxX = Math.max(maxX, lon);
+        minY = Math.min(minY, lat);
+        maxY = Math.max(maxY, lat);
+    }));
+
+    const padding = 12;
+    const xScale = Math.cos(((minY + maxY) / 2) * (Math.PI / 180));
+    const scale = Math.min(
+        (width - padding * 2) / Math.max((maxX - minX) * xScale, 1e-9),
+        (height - padding * 2) / Math.max(maxY - minY, 1e-9)
+    );
+    const offsetX = x + (width - (maxX - minX) * xScale * scale) / 2;
+    const offsetY = y + (height - (maxY - minY) * scale) / 2;
+    const project = ([lon, lat]: Position): [number, number] => [
+        offsetX + (lon - minX) * xScale * scale,
+        offsetY + (maxY - lat) * scale,
+    ];
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, width, height);
+    ctx.clip();
+
+    ctx.fillStyle = `${subject.color}59`;
+    ctx.strokeStyle = subject.color;
+    ctx.lineWidth = 0.75;
+    shapes.forEach(shape => {
+        ctx.beginPath();
+        shape.polygons.forEach(polygon => polygon.forEach(ring => {
+            ring.forEach((position, index) => {
+                const [px, py] = project(position);
+                if (index === 0) ctx.moveTo(px, py);
+                else ctx.lineTo(px, py);
+            });
+            ctx.closePath();
+        }));
+        ctx.fill('evenodd');
+        ctx.stroke();
+    });
+
+    // Label each ZIP at the middle of its extent, unless there are too many to read
+    const zipBounds = new Map<string, [number, number, number, number]>();
+    shapes.forEach(shape => shape.polygons.flat(2).forEach(position => {
+        const [px, py] = project(position);
+        const bounds = zipBounds.get(shape.zip) || [Infinity, Infinity, -Infinity, -Infinity];
+        zipBounds.set(shape.zip, [Math.min(bounds[0], px), Math.min(bounds[1], py), Math.max(bounds[2], px), Math.max(bounds[3], py)]);
+    }));
+    if (zipBounds.size <= 40) {
+        zipBounds.forEach(([x1, y1, x2, y2], zip) => {
+            drawText(ctx, zip, (x1 + x2) / 2, (y1 + y2) / 2 + 3, { size: 8, bold: true, align: 'center' });
+        });
+    }
+    ctx.restore();
+};
+
+const drawMetricCards = (ctx: Context, values: ReportValues, x: number, y: number, width: number): number => {
+    const columns = 4;
+    const gap = 8;
+    const cardWidth = (width - gap * (columns - 1)) / columns;
+    const cardHeight = 46;
+
+    REPORT_METRICS.forEach((metric, index) => {
+        const cardX = x + (index % columns) * (cardWidth + gap);
+        const cardY = y + Math.floor(index / columns) * (cardHeight + gap);
+        ctx.fillStyle = '#f5f3ff';
+        ctx.fillRect(cardX, cardY, cardWidth, cardHeight);
+        drawText(ctx, metric.label, cardX + 8, cardY + 16, { size: 8, color: MUTED_COLOR, maxWidth: cardWidth - 16 });
+        drawText(ctx, formatComparisonValue(metric.kind, values[metric.field] ?? null), cardX + 8, cardY + 35, { size: 15, bold: true, maxWidth: cardWidth - 16 });
+    });
+
+    return y + Math.ceil(REPORT_METRICS.length / columns) * (cardHeight + gap);
+};
+
+const drawGradeChart = (ctx: Context, values: ReportValues, x: number, y: number, width: number, height: number) => {
+    const counts = GRADE_LEVELS.map(level => Math.max(values[level.field] ?? 0, 0));
+    const max = Math.max(...counts, 1);
+    const labelHeight = 14;
+    const chartHeight = height - labelHeight - 12;
+    const slot = width / counts.length;
+
+    ctx.strokeStyle = BORDER_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(x, y + chartHeight);
+    ctx.lineTo(x + width, y + chartHeight);
+    ctx.stroke();
+
+    counts.forEach((count, index) => {
+        const barHeight = (count / max) * (chartHeight - 12);
+        const barX = x + index * slot + slot * 0.15;
+        ctx.fillStyle = GRADE_LEVELS[index].color;
+        ctx.fillRect(barX, y + chartHeight - barHeight, slot * 0.7, barHeight);
+        if (count > 0) {
+            drawText(ctx, count.toLocaleString(), barX + slot * 0.35, y + chartHeight - barHeight - 3, { size: 6, color: MUTED_COLOR, align: 'center' });
+        }
+        const label = GRADE_LEVELS[index].label.replace('Grade ', '');
+        drawText(ctx, label, x + index * slot + slot / 2, y + chartHeight + labelHeight, { size: 7, color: MUTED_COLOR, align: 'center' });
+    });
+};
+
+const drawDemographics = (ctx: Context, values: ReportValues, x: number, y: number, width: number) => {
+    const composition = getRaceComposition(values);
+    if (composition.total === 0) {
+        drawText(ctx, 'No race/ethnicity counts in this data', x, y + 12, { color: MUTED_COLOR });
+        return;
+    }
+
+    const radius = 44;
+    const centerX = x + radius;
+    const centerY = y + radius + 4;
+    let angle = -Math.PI / 2;
+    composition.groups.forEach(group => {
+        const end = angle + group.share * Math.PI * 2;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        ctx.arc(centerX, centerY, radius, angle, end);
+        ctx.closePath();
+        ctx.fillStyle = group.color;
+        ctx.fill();
+        angle = end;
+    });
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius * 0.6, 0, Math.PI * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    drawText(ctx, composition.diversityIndex?.toFixed(2) ?? '-', centerX, centerY + 2, { size: 12, bold: true, align: 'center' });
+    drawText(ctx, 'Diversity', centerX, centerY + 12, { size: 6, color: MUTED_COLOR, align: 'center' });
+
+    const legendX = x + radius * 2 + 16;
+    const legendWidth = width - radius * 2 - 16;
+    composition.groups.forEach((group, index) => {
+        const rowY = y + 12 + index * 16;
+        ctx.fillStyle = group.color;
+        ctx.fillRect(legendX, rowY - 7, 8, 8);
+        drawText(ctx, group.label, legendX + 14, rowY, { size: 8 });
+        drawText(ctx, `${group.count.toLocaleString()} (${(group.share * 100).toFixed(1)}%)`, legendX + legendWidth, rowY, { size: 8, align: 'right' });
+    });
+    drawText(ctx, describeDiversityIndex(composition.diversityIndex), legendX, y + 12 + composition.groups.length * 16 + 4, { size: 8, color: MUTED_COLOR, maxWidth: legendWidth });
+};
+
+const drawGradeBands = (ctx: Context, values: ReportValues, options: ReportOptions, x: number, y: number, width: number) => {
+    const students = (values.Female ?? 0) + (values.Male ?? 0);
+    options.gradeBands.forEach((band, index) => {
+        const rowY = y + index * 16;
+        const total = getBandTotal(values, band);
+        ctx.fillStyle = band.color;
+        ctx.fillRect(x, rowY - 7, 8, 8);
+        drawText(ctx, band.label, x + 14, rowY, { size: 9 });
+        drawText(ctx, formatComparisonValue('count', total), x + width * 0.7, rowY, { size: 9, align: 'right' });
+        drawText(
+            ctx,
+            total != null && students > 0 ? `${((total / students) * 100).toFixed(1)}%` : '-',
+            x + width,
+            rowY,
+            { size: 9, color: MUTED_COLOR, align: 'right' }
+        );
+    });
+};
+
+const drawFooter = (ctx: Context, pageSize: ReportPageSize, pageNumber: number, pageCount: number, generated: string) => {
+    const { width, height } = REPORT_PAGE_SIZES[pageSize];
+    drawText(ctx, `Generated ${generated}`, MARGIN, height - 24, { size: 8, color: MUTED_COLOR });
+    drawText(ctx, `Page ${pageNumber} of ${pageCount}`, width - MARGIN, height - 24, { size: 8, color: MUTED_COLOR, align: 'right' });
+};
+
+const formatCell = (value: string | number | null): string => {
+    if (value == null || value === '') return '-';
+    return typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+};
+
+/**
+ * Lay out the report: a summary page with the map, metric cards and charts, then the raw records spread
+ * over as many appendix pages as they need. Pages are drawn only when asked for, since a large territory
+ * can run to dozens of full-resolution canvases.
+ */
+export const createReportLayout = (subject: ReportSubject, options: ReportOptions): ReportLayout => {
+    const { width, height } = REPORT_PAGE_SIZES[options.pageSize];
+    const contentWidth = width - MARGIN * 2;
+    const generated = new Date().toLocaleString();
+
+    const rollup = rollUpZones(subject.features.map(feature => feature.properties));
+    const values: ReportValues = {
+        ...rollup.values,
+        students: (rollup.values.Female ?? 0) + (rollup.values.Male ?? 0),
+        diversity: getRaceComposition(rollup.values).diversityIndex,
+    };
+
+    const rowsPerPage = Math.floor((height - MARGIN * 2 - 60) / APPENDIX_ROW_HEIGHT);
+    const records = options.includeAppendix ? subject.features.map(feature => feature.properties) : [];
+    const pageCount = 1 + Math.ceil(records.length / rowsPerPage);
+
+    const renderSummaryPage = (): HTMLCanvasElement => {
+        const { canvas, ctx } = createPage(options.pageSize);
+        drawText(ctx, subject.title, MARGIN, MARGIN + 16, { size: 20, bold: true, maxWidth: contentWidth });
+        drawText(ctx, subject.subtitle, MARGIN, MARGIN + 34, { size: 10, color: MUTED_COLOR, maxWidth: contentWidth });
+        ctx.fillStyle = subject.color;
+        ctx.fillRect(MARGIN, MARGIN + 44, contentWidth, 2);
+
+        const mapTop = MARGIN + 58;
+        const mapHeight = 230;
+        drawMap(ctx, subject, MARGIN, mapTop, contentWidth, mapHeight);
+
+        const chartsTop = drawMetricCards(ctx, values, MARGIN, mapTop + mapHeight + 14, contentWidth) + 10;
+        const columnWidth = (contentWidth - 24) / 2;
+        drawSectionTitle(ctx, 'Enrollment by grade', MARGIN, chartsTop);
+        drawGradeChart(ctx, values, MARGIN, chartsTop + 8, columnWidth, 130);
+        drawSectionTitle(ctx, 'Race/ethnicity', MARGIN + columnWidth + 24, chartsTop);
+        drawDemographics(ctx, values, MARGIN + columnWidth + 24, chartsTop + 8, columnWidth);
+
+        const bandsTop = chartsTop + 160;
+        if (options.gradeBands.length > 0) {
+            drawSectionTitle(ctx, 'Grade bands', MARGIN, bandsTop);
+            drawGradeBands(ctx, values, options, MARGIN, bandsTop + 18, columnWidth);
+        }
+        drawFooter(ctx, options.pageSize, 1, pageCount, generated);
+        return canvas;
+    };
+
+    const renderAppendixPage = (pageIndex: number): HTMLCanvasElement => {
+        const page = createPage(options.pageSize);
+        const pageRecords = records.slice(pageIndex * rowsPerPage, (pageIndex + 1) * rowsPerPage);
+        const first = pageIndex * rowsPerPage + 1;
+        drawText(page.ctx, 'Appendix: Raw Records', MARGIN, MARGIN + 12, { size: 14, bold: true });
+        drawText(
+            page.ctx,
+            `${subject.title} · records ${first}–${first + pageRecords.length - 1} of ${records.length}`,
+            MARGIN,
+            MARGIN + 28,
+            { size: 9, color: MUTED_COLOR, maxWidth: contentWidth }
+        );
+
+        // Columns share out the content width in proportion to their nominal widths
+        const totalWidth = APPENDIX_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+        const tableTop = MARGIN + 50;
+        let columnX = MARGIN;
+        APPENDIX_COLUMNS.forEach(column => {
+            const columnWidth = (column.width / totalWidth) * contentWidth;
+            const isText = column.field === 'Zip' || column.field === 'Schl_Lv';
+            const textX = isText ? columnX + 2 : columnX + columnWidth - 2;
+            const align: CanvasTextAlign = isText ? 'left' : 'right';
+            drawText(page.ctx, column.label, textX, tableTop, { size: 8, bold: true, align, maxWidth: columnWidth - 4 });
+            pageRecords.forEach((record, rowIndex) => {
+                drawText(page.ctx, formatCell(record[column.field]), textX, tableTop + (rowIndex + 1) * APPENDIX_ROW_HEIGHT, {
+                    size: 8,
+                    align,
+                    maxWidth: columnWidth - 4,
+                });
+            });
+            columnX += columnWidth;
+        });
+
+        page.ctx.strokeStyle = BORDER_COLOR;
+        pageRecords.forEach((_, rowIndex) => {
+            const lineY = tableTop + rowIndex * APPENDIX_ROW_HEIGHT + 4;
+            page.ctx.beginPath();
+            page.ctx.moveTo(MARGIN, lineY);
+            page.ctx.lineTo(MARGIN + contentWidth, lineY);
+            page.ctx.stroke();
+        });
+
+        drawFooter(page.ctx, options.pageSize, pageIndex + 2, pageCount, generated);
+        return page.canvas;
+    };
+
+    return {
+        pageSize: options.pageSize,
+        pageCount,
+        renderPage: (index) => (index === 0 ? renderSummaryPage() : renderAppendixPage(index - 1)),
+    };
+};
+
+// Shrinking a canvas to nothing hands its pixels back right away instead of whenever it is collected
+export const releaseCanvas = (canvas: HTMLCanvasElement) => {
+    canvas.width = 0;
+    canvas.height = 0;
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array<ArrayBuffer>> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) {
+                reject(new Error(`Could not encode the report page as ${type}`));
+                return;
+            }
+            blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+        }, type, quality);
+    });
+
+/**
+ * One PDF page per report page. Pages are drawn and encoded one at a time, so only one canvas is alive at once.
+ */
+export const buildReportPdf = async (layout: ReportLayout, name: string): Promise<File> => {
+    const { width, height } = REPORT_PAGE_SIZES[layout.pageSize];
+    const images: PdfImagePage[] = [];
+    for (let index = 0; index < layout.pageCount; index++) {
+        const canvas = layout.renderPage(index);
+        images.push({ jpeg: await canvasToBytes(canvas, 'image/jpeg', 0.92), width: canvas.width, height: canvas.height });
+        releaseCanvas(canvas);
+    }
+    return new File([buildImagePdf(images, width, height)], `${name}.pdf`, { type: 'application/pdf' });
+};
+
+/**
+ * All pages stacked into one tall PNG, separated by a gray gap, or a zip of page PNGs when that would be too tall
+ */
+export const buildReportPng = async (layout: ReportLayout, name: string): Promise<File> => {
+    const { width, height } = REPORT_PAGE_SIZES[layout.pageSize];
+    const pageWidth = width * RENDER_SCALE;
+    const pageHeight = height * RENDER_SCALE;
+    const gap = 16 * RENDER_SCALE;
+    const sheetHeight = layout.pageCount * pageHeight + gap * (layout.pageCount - 1);
+
+    if (sheetHeight > MAX_SHEET_HEIGHT) {
+        const entries: Record<string, Uint8Array> = {};
+        for (let index = 0; index < layout.pageCount; index++) {
+            const page = layout.renderPage(index);
+            entries[`${name}-page-${index + 1}.png`] = await canvasToBytes(page, 'image/png');
+            releaseCanvas(page);
+        }
+        const archive = zipSync(entries) as Uint8Array<ArrayBuffer>;
+        return new File([archive], `${name}-pages.zip`, { type: 'application/zip' });
+    }
+
+    const sheet = document.createElement('canvas');
+    sheet.width = pageWidth;
+    sheet.height = sheetHeight;
+    const ctx = sheet.getContext('2d')!;
+    ctx.fillStyle = '#d1d5db';
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+
+    for (let index = 0; index < layout.pageCount; index++) {
+        const page = layout.renderPage(index);
+        ctx.drawImage(page, 0, index * (pageHeight + gap));
+        releaseCanvas(page);
+    }
+
+    const file = new File([await canvasToBytes(sheet, 'image/png')], `${name}.png`, { type: 'image/png' });
+    releaseCanvas(sheet);
+    return file;
+};
@@ -0,0 +1,69 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import type { ShapefileData } from '@/utils/shapefileLoader';
+
+export interface ShapefileLayer {
+    /** Path of the layer inside the archive without extension, unique within it */
+    id: string;
+    /** File name, or the full path when another layer in the archive shares the file name */
+    name: string;
+    files: string[];
+    data: Partial<ShapefileData>;
+}
+
+const COMPONENT_EXTENSIONS = ['shp', 'dbf', 'shx', 'prj', 'cpg'];
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+/**
+ * Check whether a layer has the components needed to build features
+ */
+export const isCompleteLayer = (layer: ShapefileLayer): layer is ShapefileLayer & { data: ShapefileData } =>
+    !!layer.data.shp && !!layer.data.dbf;
+
+/**
+ * Find every shapefile set inside a zip archive, grouping components by their path without extension
+ */
+export const extractShapefileLayers = (archive: ArrayBuffer): ShapefileLayer[] => {
+    const entries = unzipSync(new Uint8Array(archive), {
+        // Skip macOS resource forks and anything that is not a shapefile component
+        filter: (file) => !file.name.startsWith('__MACOSX/') && COMPONENT_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() || ''),
+    });
+
+    const layers = new Map<string, ShapefileLayer>();
+
+    Object.entries(entries).forEach(([path, bytes]) => {
+        const dotIndex = path.lastIndexOf('.');
+        const extension = path.slice(dotIndex + 1).toLowerCase();
+        const basePath = path.slice(0, dotIndex);
+        const key = basePath.toLowerCase();
+
+        if (!layers.has(key)) {
+            layers.set(key, {
+                id: basePath,
+                name: basePath.split('/').pop() || basePath,
+                files: [],
+                data: {},
+            });
+        }
+
+        const layer = layers.get(key)!;
+        layer.files.push(path);
+
+        if (extension === 'prj' || extension === 'cpg') {
+            layer.data[extension] = strFromU8(bytes).trim();
+        } else {
+            layer.data[extension as 'shp' | 'dbf' | 'shx'] = toArrayBuffer(bytes);
+        }
+    });
+
+    // Layers with the same file name in different folders are told apart by their folder
+    const result = Array.from(layers.values());
+    const nameCounts = new Map<string, number>();
+    result.forEach(layer => nameCounts.set(layer.name.toLowerCase(), (nameCounts.get(layer.name.toLowerCase()) || 0) + 1));
+    result.forEach(layer => {
+        if (nameCounts.get(layer.name.toLowerCase())! > 1) layer.name = layer.id;
+    });
+
+    return result.sort((a, b) => a.name.localeCompare(b.name));
+};
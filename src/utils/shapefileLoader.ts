@@ -1,10 +1,24 @@
 import * as shapefile from 'shapefile';
+import * as topojson from 'topojson-client';
+import { deserialize as deserializeFlatGeobuf } from 'flatgeobuf/lib/mjs/geojson.js';
+import type { Feature, FeatureCollection } from 'geojson';
+import {
+    ZONE_NUMERIC_FIELDS,
+    ZONE_STRING_FIELDS,
+    type FieldMapping,
+    type ZoneCollection,
+    type ZoneFeature,
+    type ZoneProperties,
+} from '@/types/zones';
+import { getSourceColumns, suggestFieldMapping } from '@/utils/fieldMapping';
+import { createEpsgTransform, createPrjTransform, reprojectCollection } from '@/utils/projection';
 
 export interface ShapefileData {
     shp: ArrayBuffer;
     dbf: ArrayBuffer;
     shx?: ArrayBuffer;
     prj?: string;
+    cpg?: string;
 }
 
 export interface GeoJsonCollection {
@@ -16,65 +30,259 @@ export interface GeoJsonCollection {
     }>;
 }
 
+export type VectorFormat = 'geojson' | 'topojson' | 'flatgeobuf';
+
+/**
+ * Called while features are read; total is null when the source does not state its feature count
+ */
+export type ProgressCallback = (processed: number, total: number | null) => void;
+
+// Features read between progress reports
+const PROGRESS_INTERVAL = 250;
+
+type RawFeature = GeoJsonCollection['features'][number];
+type Topology = Parameters<typeof topojson.feature>[0];
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string' || value.trim() === '') return null;
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toText = (value: unknown): string => (value == null ? '' : String(value).trim());
+
+/**
+ * Convert a raw DBF record into a typed zone attribute record, reading each role from its mapped column
+ */
+export const normalizeZoneProperties = (raw: Record<string, unknown> | null | undefined, mapping: FieldMapping): ZoneProperties => {
+    const record = raw || {};
+    const properties = {} as ZoneProperties;
+    const read = (field: keyof ZoneProperties) => {
+        const column = mapping[field];
+        return column ? record[column] : undefined;
+    };
+
+    ZONE_STRING_FIELDS.forEach(field => {
+        properties[field] = toText(read(field));
+    });
+    ZONE_NUMERIC_FIELDS.forEach(field => {
+        properties[field] = toNumber(read(field));
+    });
+
+    return properties;
+};
+
+/**
+ * Convert a raw GeoJSON collection into typed zone features.
+ * Without an explicit mapping the suggested one for the collection's columns is used.
+ */
+export const normalizeZoneCollection = (collection: GeoJsonCollection | ZoneCollection, mapping?: FieldMapping): ZoneCollection => {
+    const features = (collection.features || []) as GeoJsonCollection['features'];
+    const fieldMapping = mapping || suggestFieldMapping(getSourceColumns(features));
+
+    return {
+        type: 'FeatureCollection',
+        features: features.map((feature): ZoneFeature => ({
+            type: 'Feature',
+            geometry: (feature.geometry ?? null) as ZoneFeature['geometry'],
+            properties: normalizeZoneProperties(feature.properties, fieldMapping),
+        })),
+        fieldMapping,
+    };
+};
+
 /**
- * Load shapefile data from the public folder
+ * Resolve the text encoding named in a .cpg file; DBF files default to Windows-1252
  */
-export const loadShapefileFromPublic = async (baseName: string = 'TXelementary'): Promise<GeoJsonCollection> => {
-    try {
-        console.log(`🔄 Loading shapefile data from public folder: ${baseName}`);
+export const getDbfEncoding = (cpg?: string): string => {
+    const codePage = (cpg || '').trim().toLowerCase().replace(/^ansi\s*/, '');
 
-        // Load required files (.shp and .dbf)
-        const shpResponse = await fetch(`/data/${baseName}.shp`);
-        const dbfResponse = await fetch(`/data/${baseName}.dbf`);
+    if (!codePage) return 'windows-1252';
+    if (codePage === 'utf8' || codePage === 'utf-8') return 'utf-8';
+    if (/^\d+$/.test(codePage)) {
+        if (codePage === '65001') return 'utf-8';
+        if (codePage.startsWith('8859')) return `iso-8859-${codePage.slice(4)}`;
+        return `windows-${codePage}`;
+    }
+    return codePage;
+};
 
-        if (!shpResponse.ok || !dbfResponse.ok) {
-            throw new Error(`Failed to load required shapefile components. SHP: ${shpResponse.status}, DBF: ${dbfResponse.status}`);
+/**
+ * Read the record count from a DBF header (uint32 at byte 4)
+ */
+export const getDbfRecordCount = (dbf: ArrayBuffer): number | null =>
+    dbf.byteLength >= 8 ? new DataView(dbf).getUint32(4, true) : null;
+
+/**
+ * Derive the record count from an SHX header: a 100 byte header followed by one 8 byte entry per record.
+ * The file length at byte 24 is a big-endian count of 16-bit words.
+ */
+export const getShxRecordCount = (shx: ArrayBuffer): number | null => {
+    if (shx.byteLength < 28) return null;
+    const fileLength = new DataView(shx).getInt32(24, false) * 2;
+    return fileLength >= 100 ? (fileLength - 100) / 8 : null;
+};
+
+/**
+ * Parse shapefile components into a raw GeoJSON collection, reprojected to WGS84 using the .prj
+ */
+export const readShapefile = async (data: ShapefileData, onProgress?: ProgressCallback): Promise<GeoJsonCollection> => {
+    // Fail on an unsupported .prj before spending time on the geometry
+    const transform = createPrjTransform(data.prj);
+    const source = await shapefile.open(data.shp, data.dbf, { encoding: getDbfEncoding(data.cpg) });
+    const total = getDbfRecordCount(data.dbf);
+    const features: RawFeature[] = [];
+
+    for (let result = await source.read(); !result.done; result = await source.read()) {
+        features.push({
+            type: result.value.type,
+            geometry: result.value.geometry,
+            properties: (result.value.properties || {}) as Record<string, unknown>,
+        });
+        if (features.length % PROGRESS_INTERVAL === 0) {
+            onProgress?.(features.length, total);
         }
+    }
+    onProgress?.(features.length, features.length);
 
-        const shpBuffer = await shpResponse.arrayBuffer();
-        const dbfBuffer = await dbfResponse.arrayBuffer();
+    return reprojectCollection({ type: 'FeatureCollection', features }, transform);
+};
 
-        console.log('✅ Successfully loaded SHP and DBF files from public folder');
+/**
+ * Read only the DBF table into a raw collection whose features have no geometry
+ */
+export const readAttributeTable = async (dbf: ArrayBuffer, cpg?: string, onProgress?: ProgressCallback): Promise<GeoJsonCollection> => {
+    const source = await shapefile.openDbf(dbf, { encoding: getDbfEncoding(cpg) });
+    const total = getDbfRecordCount(dbf);
+    const features: RawFeature[] = [];
 
-        // Process the shapefile using the shapefile library
-        const features: Array<{
-            type: string;
-            geometry: unknown;
-            properties: Record<string, unknown>;
-        }> = [];
+    for (let result = await source.read(); !result.done; result = await source.read()) {
+        features.push({ type: 'Feature', geometry: null, properties: (result.value || {}) as Record<string, unknown> });
+        if (features.length % PROGRESS_INTERVAL === 0) {
+            onProgress?.(features.length, total);
+        }
+    }
+    onProgress?.(features.length, features.length);
 
-        await shapefile.read(shpBuffer, dbfBuffer)
-            .then((collection) => {
-                if (collection.features) {
-                    features.push(...collection.features);
-                }
-            });
+    return { type: 'FeatureCollection', features };
+};
 
-        const geoJson: GeoJsonCollection = {
-            type: 'FeatureCollection',
-            features: features,
-        };
+const toRawFeature = (feature: { type?: string; geometry?: unknown; properties?: unknown }): RawFeature => ({
+    type: feature.type || 'Feature',
+    geometry: feature.geometry ?? null,
+    properties: (feature.properties || {}) as Record<string, unknown>,
+});
 
-        console.log(`📊 Processed shapefile: ${features.length} features loaded`);
-        return geoJson;
+/**
+ * Detect a non-shapefile vector format from its file name
+ */
+export const getVectorFormat = (fileName: string): VectorFormat | null => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'geojson' || extension === 'json') return 'geojson';
+    if (extension === 'topojson') return 'topojson';
+    if (extension === 'fgb') return 'flatgeobuf';
+    return null;
+};
 
-    } catch (error) {
-        console.error('❌ Error loading shapefile from public folder:', error);
-        throw error;
+/**
+ * Convert a TopoJSON topology into a raw GeoJSON collection, concatenating every object in it
+ */
+export const readTopoJson = (topology: Topology): GeoJsonCollection => {
+    const features: RawFeature[] = [];
+
+    Object.values(topology.objects || {}).forEach(object => {
+        const converted = topojson.feature(topology, object) as Feature | FeatureCollection;
+        if (converted.type === 'FeatureCollection') {
+            features.push(...converted.features.map(toRawFeature));
+        } else {
+            features.push(toRawFeature(converted));
+        }
+    });
+
+    return { type: 'FeatureCollection', features };
+};
+
+const parseGeoJson = (parsed: { type?: string; features?: RawFeature[] }): GeoJsonCollection => {
+    switch (parsed?.type) {
+        case 'FeatureCollection':
+            return { type: 'FeatureCollection', features: (parsed.features || []).map(toRawFeature) };
+        case 'Feature':
+            return { type: 'FeatureCollection', features: [toRawFeature(parsed)] };
+        case 'Topology':
+            return readTopoJson(parsed as unknown as Topology);
+        case 'Point':
+        case 'MultiPoint':
+        case 'LineString':
+        case 'MultiLineString':
+        case 'Polygon':
+        case 'MultiPolygon':
+        case 'GeometryCollection':
+            return { type: 'FeatureCollection', features: [toRawFeature({ geometry: parsed })] };
+        default:
+            throw new Error(`Unsupported GeoJSON type: ${parsed?.type ?? 'missing'}`);
     }
 };
 
 /**
- * Check if shapefile data exists in the public folder
+ * Read the EPSG code from a legacy GeoJSON "crs" member, e.g. "urn:ogc:def:crs:EPSG::3083"
  */
-export const checkShapefileExists = async (baseName: string = 'TXelementary'): Promise<boolean> => {
-    try {
-        const shpResponse = await fetch(`/data/${baseName}.shp`, { method: 'HEAD' });
-        const dbfResponse = await fetch(`/data/${baseName}.dbf`, { method: 'HEAD' });
-
-        return shpResponse.ok && dbfResponse.ok;
-    } catch (error) {
-        console.error('Error checking shapefile existence:', error);
-        return false;
+const getGeoJsonEpsgCode = (crs: unknown): number | null => {
+    const name = (crs as { properties?: { name?: string } } | undefined)?.properties?.name;
+    const code = name?.match(/EPSG:{1,2}(\d+)/i)?.[1];
+    return code ? Number(code) : null;
+};
+
+/**
+ * Parse GeoJSON text into a WGS84 raw collection. Accepts a FeatureCollection, a single Feature or a bare geometry,
+ * and hands TopoJSON saved with a .json extension to the TopoJSON reader.
+ */
+export const readGeoJson = (text: string): GeoJsonCollection => {
+    const parsed = JSON.parse(text);
+    return reprojectCollection(parseGeoJson(parsed), createEpsgTransform(getGeoJsonEpsgCode(parsed?.crs)));
+};
+
+/**
+ * Decode a FlatGeobuf file into a WGS84 raw GeoJSON collection
+ */
+export const readFlatGeobuf = async (buffer: ArrayBuffer, onProgress?: ProgressCallback): Promise<GeoJsonCollection> => {
+    const features: RawFeature[] = [];
+    let crs: { code: number; wkt: string | null } | null = null;
+    let total: number | null = null;
+
+    const reader = deserializeFlatGeobuf(new Uint8Array(buffer), {
+        headerMetaFn: (header) => {
+            crs = header.crs;
+            total = header.featuresCount || null;
+        },
+    });
+    for await (const feature of reader) {
+        features.push(toRawFeature(feature));
+        if (features.length % PROGRESS_INTERVAL === 0) {
+            onProgress?.(features.length, total);
+        }
     }
-};
\ No newline at end of file
+    onProgress?.(features.length, features.length);
+
+    const transform = crs?.wkt ? createPrjTransform(crs.wkt) : createEpsgTransform(crs?.code);
+    return reprojectCollection({ type: 'FeatureCollection', features }, transform);
+};
+
+/**
+ * Read a GeoJSON, TopoJSON or FlatGeobuf file into a raw GeoJSON collection
+ */
+export const readVectorFile = async (file: File, onProgress?: ProgressCallback): Promise<GeoJsonCollection> => {
+    switch (getVectorFormat(file.name)) {
+        case 'geojson':
+        case 'topojson': {
+            // readGeoJson dispatches on the parsed "type", so both text formats share it
+            const collection = readGeoJson(await file.text());
+            onProgress?.(collection.features.length, collection.features.length);
+            return collection;
+        }
+        case 'flatgeobuf':
+            return readFlatGeobuf(await file.arrayBuffer(), onProgress);
+        default:
+            throw new Error(`Unsupported file format: ${file.name}`);
+    }
+};
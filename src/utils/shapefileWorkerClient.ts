@@ -0,0 +1,120 @@
+import type { GeoJsonCollection, ShapefileData } from '@/utils/shapefileLoader';
+import { UnsupportedProjectionError } from '@/utils/projection';
+import type { FieldMapping, ZoneCollection } from '@/types/zones';
+
+export type ParseStage = 'reading' | 'normalizing';
+
+export interface ParseProgress {
+    stage: ParseStage;
+    processed: number;
+    total: number | null;
+}
+
+export interface ParseOptions {
+    onProgress?: (progress: ParseProgress) => void;
+    signal?: AbortSignal;
+}
+
+export type WorkerJob =
+    | { type: 'read-shapefile'; data: ShapefileData; normalize?: boolean }
+    | { type: 'read-attributes'; dbf: ArrayBuffer; cpg?: string }
+    | { type: 'read-vector'; file: File }
+    | { type: 'normalize'; collection: GeoJsonCollection; mapping?: FieldMapping };
+
+export type WorkerMessage =
+    | ({ type: 'progress' } & ParseProgress)
+    | { type: 'done'; result: GeoJsonCollection | ZoneCollection }
+    | { type: 'error'; name: string; message: string };
+
+/**
+ * Raised when a background parse is cancelled by the user
+ */
+export class ParseCancelledError extends Error {
+    constructor() {
+        super('Parsing was cancelled');
+        this.name = 'ParseCancelledError';
+    }
+}
+
+/**
+ * Run one job in a dedicated worker, forwarding progress until it finishes, fails or is aborted
+ */
+const runWorkerJob = <T extends GeoJsonCollection | ZoneCollection>(job: WorkerJob, options: ParseOptions = {}): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        const { onProgress, signal } = options;
+        if (signal?.aborted) {
+            reject(new ParseCancelledError());
+            return;
+        }
+
+        const worker = new Worker(new URL('../workers/shapefileWorker.ts', import.meta.url), { type: 'module' });
+
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+
+        // Terminating the worker is the only way to interrupt a synchronous parse
+        const handleAbort = () => {
+            finish();
+            reject(new ParseCancelledError());
+        };
+        signal?.addEventListener('abort', handleAbort);
+
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'progress':
+                    onProgress?.({ stage: message.stage, processed: message.processed, total: message.total });
+                    break;
+                case 'done':
+                    finish();
+                    resolve(message.result as T);
+                    break;
+                case 'error':
+                    finish();
+                    // Errors lose their class crossing the worker boundary, so rebuild the ones callers check for
+                    reject(message.name === 'UnsupportedProjectionError'
+                        ? new UnsupportedProjectionError(message.message)
+                        : new Error(message.message));
+                    break;
+            }
+        };
+
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'Background parser failed to start'));
+        };
+
+        worker.postMessage(job);
+    });
+
+/**
+ * Parse shapefile components off the main thread into a raw WGS84 collection
+ */
+export const parseShapefileInWorker = (data: ShapefileData, options?: ParseOptions): Promise<GeoJsonCollection> =>
+    runWorkerJob<GeoJsonCollection>({ type: 'read-shapefile', data }, options);
+
+/**
+ * Parse shapefile components and normalize them with the suggested field mapping in one worker pass
+ */
+export const loadShapefileInWorker = (data: ShapefileData, options?: ParseOptions): Promise<ZoneCollection> =>
+    runWorkerJob<ZoneCollection>({ type: 'read-shapefile', data, normalize: true }, options);
+
+/**
+ * Read only the DBF table and normalize it, for sources that have no .shp geometry
+ */
+export const loadAttributesInWorker = (dbf: ArrayBuffer, cpg?: string, options?: ParseOptions): Promise<ZoneCollection> =>
+    runWorkerJob<ZoneCollection>({ type: 'read-attributes', dbf, cpg }, options);
+
+/**
+ * Parse a GeoJSON, TopoJSON or FlatGeobuf file off the main thread into a raw WGS84 collection
+ */
+export const parseVectorFileInWorker = (file: File, options?: ParseOptions): Promise<GeoJsonCollection> =>
+    runWorkerJob<GeoJsonCollection>({ type: 'read-vector', file }, options);
+
+/**
+ * Apply a field mapping to a raw collection off the main thread
+ */
+export const normalizeInWorker = (collection: GeoJsonCollection, mapping?: FieldMapping, options?: ParseOptions): Promise<ZoneCollection> =>
+    runWorkerJob<ZoneCollection>({ type: 'normalize', collection, mapping }, options);
@@ -0,0 +1,221 @@
+import { zipSync, strToU8 } from 'fflate';
+import type { Geometry, Position } from 'geojson';
+import type { ExportColumn, ExportRow } from '@/types/export';
+import { getPolygons } from '@/utils/geometry';
+
+// Features are normalized to WGS84 lon/lat on load, so exports always carry this coordinate system
+export const WGS84_PRJ =
+    'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const FILE_CODE = 9994;
+const FILE_VERSION = 1000;
+const HEADER_BYTES = 100;
+const RECORD_HEADER_BYTES = 8;
+const SHAPE_NULL = 0;
+const SHAPE_POLYGON = 5;
+
+// dBASE III limits
+const FIELD_NAME_LENGTH = 10;
+const MAX_TEXT_LENGTH = 254;
+const NUMBER_LENGTH = 19;
+const NUMBER_DECIMALS = 6;
+
+type Box = [number, number, number, number];
+
+interface ShapeRecord {
+    rings: Position[][];
+    box: Box | null;
+}
+
+/**
+ * Positive for clockwise rings, in lon/lat axis order
+ */
+const getRingOrientation = (ring: Position[]): number =>
+    ring.reduce((sum, [x1, y1], i) => {
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        return sum + (x2 - x1) * (y2 + y1);
+    }, 0);
+
+/**
+ * Rings in shapefile order: outer rings clockwise, holes counter-clockwise, which is the reverse of GeoJSON
+ */
+const toShapeRecord = (geometry: Geometry | null): ShapeRecord => {
+    const rings = getPolygons(geometry).flatMap(polygon => polygon
+        .filter(ring => ring.length >= 4)
+        .map((ring, index) => {
+            const isClockwise = getRingOrientation(ring) > 0;
+            return (index === 0) === isClockwise ? ring : [...ring].reverse();
+        }));
+    if (rings.length === 0) return { rings, box: null };
+
+    return {
+        rings,
+        box: rings.flat().reduce<Box>(
+            (box, [x, y]) => [Math.min(box[0], x), Math.min(box[1], y), Math.max(box[2], x), Math.max(box[3], y)],
+            [Infinity, Infinity, -Infinity, -Infinity]
+        ),
+    };
+};
+
+const getContentBytes = (record: ShapeRecord): number =>
+    record.box ? 44 + 4 * record.rings.length + 16 * record.rings.reduce((sum, ring) => sum + ring.length, 0) : 4;
+
+const writeMainHeader = (view: DataView, fileBytes: number, box: Box) => {
+    view.setInt32(0, FILE_CODE);
+    view.setInt32(24, fileBytes / 2);
+    view.setInt32(28, FILE_VERSION, true);
+    view.setInt32(32, SHAPE_POLYGON, true);
+    box.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+};
+
+/**
+ * Main (.shp) and index (.shx) files for the row geometries; rows without polygons become null shapes
+ */
+const writeShapes = (rows: ExportRow[]): { shp: Uint8Array; shx: Uint8Array } => {
+    const records = rows.map(row => toShapeRecord(row.geometry));
+    const boxes = records.map(record => record.box).filter((box): box is Box => !!box);
+    const fileBox: Box = boxes.length > 0
+        ? boxes.reduce((merged, box) => [
+            Math.min(merged[0], box[0]),
+            Math.min(merged[1], box[1]),
+            Math.max(merged[2], box[2]),
+            Math.max(merged[3], box[3]),
+        ])
+        : [0, 0, 0, 0];
+
+    const shpBytes = HEADER_BYTES + records.reduce((sum, record) => sum + RECORD_HEADER_BYTES + getContentBytes(record), 0);
+    const shxBytes = HEADER_BYTES + records.length * 8;
+    const shp = new DataView(new ArrayBuffer(shpBytes));
+    const shx = new DataView(new ArrayBuffer(shxBytes));
+    writeMainHeader(shp, shpBytes, fileBox);
+    writeMainHeader(shx, shxBytes, fileBox);
+
+    let offset = HEADER_BYTES;
+    records.forEach((record, index) => {
+        const contentBytes = getContentBytes(record);
+        // Offsets and lengths are counted in 16-bit words
+        shx.setInt32(HEADER_BYTES + index * 8, offset / 2);
+        shx.setInt32(HEADER_BYTES + index * 8 + 4, contentBytes / 2);
+        shp.setInt32(offset, index + 1);
+        shp.setInt32(offset + 4, contentBytes / 2);
+        offset += RECORD_HEADER_BYTES;
+
+        if (!record.box) {
+            shp.setInt32(offset, SHAPE_NULL, true);
+            offset += 4;
+            return;
+        }
+
+        shp.setInt32(offset, SHAPE_POLYGON, true);
+        record.box.forEach((value, i) => shp.setFloat64(offset + 4 + i * 8, value, true));
+        shp.setInt32(offset + 36, record.rings.length, true);
+        shp.setInt32(offset + 40, record.rings.reduce((sum, ring) => sum + ring.length, 0), true);
+        offset += 44;
+
+        let pointIndex = 0;
+        record.rings.forEach(ring => {
+            shp.setInt32(offset, pointIndex, true);
+            offset += 4;
+            pointIndex += ring.length;
+        });
+        record.rings.flat().forEach(([x, y]) => {
+            shp.setFloat64(offset, x, true);
+            shp.setFloat64(offset + 8, y, true);
+            offset += 16;
+        });
+    });
+
+    return { shp: new Uint8Array(shp.buffer), shx: new Uint8Array(shx.buffer) };
+};
+
+/**
+ * DBF column names: at most 10 characters of letters, digits and underscores, unique within the table
+ */
+const toFieldNames = (columns: ExportColumn[]): string[] => {
+    const used = new Set<string>();
+    return columns.map(column => {
+        const base = column.label.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+/, '').slice(0, FIELD_NAME_LENGTH) || 'FIELD';
+        let name = base;
+        for (let suffix = 1; used.has(name.toUpperCase()); suffix++) {
+            name = `${base.slice(0, FIELD_NAME_LENGTH - String(suffix).length - 1)}_${suffix}`;
+        }
+        used.add(name.toUpperCase());
+        return name;
+    });
+};
+
+/**
+ * dBASE III attribute table with UTF-8 text, as declared by the .cpg written alongside it
+ */
+const writeDbf = (rows: ExportRow[], columns: ExportColumn[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const names = toFieldNames(columns);
+
+    const fields = columns.map((column, index) => {
+        if (column.type === 'number') {
+            const values = rows.map(row => row.values[column.key]).filter((value): value is number => typeof value === 'number');
+            const decimals = values.every(Number.isInteger) ? 0 : NUMBER_DECIMALS;
+            return { name: names[index], column, type: 'N', length: NUMBER_LENGTH, decimals };
+        }
+        const longest = Math.max(1, ...rows.map(row => encoder.encode(String(row.values[column.key] ?? '')).length));
+        return { name: names[index], column, type: 'C', length: Math.min(longest, MAX_TEXT_LENGTH), decimals: 0 };
+    });
+
+    const headerBytes = 32 + fields.length * 32 + 1;
+    const recordBytes = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+    const bytes = new Uint8Array(headerBytes + rows.length * recordBytes + 1);
+    const view = new DataView(bytes.buffer);
+
+    const today = new Date();
+    bytes[0] = 0x03;
+    bytes[1] = today.getFullYear() - 1900;
+    bytes[2] = today.getMonth() + 1;
+    bytes[3] = today.getDate();
+    view.setUint32(4, rows.length, true);
+    view.setUint16(8, headerBytes, true);
+    view.setUint16(10, recordBytes, true);
+
+    fields.forEach((field, index) => {
+        const offset = 32 + index * 32;
+        bytes.set(encoder.encode(field.name), offset);
+        bytes[offset + 11] = field.type.charCodeAt(0);
+        bytes[offset + 16] = field.length;
+        bytes[offset + 17] = field.decimals;
+    });
+    bytes[headerBytes - 1] = 0x0d;
+
+    // Records are space-padded: text to the left, numbers to the right, missing values blank
+    bytes.fill(0x20, headerBytes, bytes.length - 1);
+    rows.forEach((row, rowIndex) => {
+        let offset = headerBytes + rowIndex * recordBytes + 1;
+        fields.forEach(field => {
+            const value = row.values[field.column.key];
+            if (field.type === 'N') {
+                if (typeof value === 'number' && Number.isFinite(value)) {
+                    const text = encoder.encode(value.toFixed(field.decimals).slice(0, field.length));
+                    bytes.set(text, offset + field.length - text.length);
+                }
+            } else if (value != null) {
+                bytes.set(encoder.encode(String(value)).slice(0, field.length), offset);
+            }
+            offset += field.length;
+        });
+    });
+    bytes[bytes.length - 1] = 0x1a;
+
+    return bytes;
+};
+
+/**
+ * Zip holding a polygon shapefile of the rows: .shp, .shx, .dbf, .prj and .cpg under one base name
+ */
+export const buildShapefileArchive = (rows: ExportRow[], columns: ExportColumn[], name: string): Uint8Array<ArrayBuffer> => {
+    const { shp, shx } = writeShapes(rows);
+    return zipSync({
+        [`${name}.shp`]: shp,
+        [`${name}.shx`]: shx,
+        [`${name}.dbf`]: writeDbf(rows, columns),
+        [`${name}.prj`]: strToU8(WGS84_PRJ),
+        [`${name}.cpg`]: strToU8('UTF-8'),
+    }) as Uint8Array<ArrayBuffer>;
+};
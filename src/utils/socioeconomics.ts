@@ -0,0 +1,79 @@
+import type { ZoneFeature, ZoneNumericField } from '@/types/zones';
+import type { MetricDistribution, OutlierFlag, SocioeconomicMetric } from '@/types/socioeconomics';
+import { rollUpByZip } from '@/utils/aggregation';
+
+export const SOCIOECONOMIC_METRICS: SocioeconomicMetric[] = [
+    { field: 'med_ncm', label: 'Median income', format: 'currency', higherIsBetter: true },
+    { field: 'pvrty_p', label: 'Poverty rate', format: 'percent', higherIsBetter: false },
+    { field: 'unmply_', label: 'Unemployment', format: 'percent', higherIsBetter: false },
+    { field: 'bchAtl_', label: "Bachelor's+", format: 'percent', higherIsBetter: true },
+];
+
+// Tukey fences: values beyond 1.5 interquartile ranges from the quartiles are outliers
+const OUTLIER_IQR_MULTIPLIER = 1.5;
+
+/**
+ * Linearly interpolated quantile of sorted values, q from 0 to 1
+ */
+const quantile = (sorted: number[], q: number): number => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const buildMetricDistribution = (values: (number | null)[]): MetricDistribution | null => {
+    const sorted = values.filter((value): value is number => value != null).sort((a, b) => a - b);
+    if (sorted.length === 0) return null;
+    return { sorted, q1: quantile(sorted, 0.25), median: quantile(sorted, 0.5), q3: quantile(sorted, 0.75) };
+};
+
+/**
+ * Roll each ZIP up once and build a distribution of every socioeconomic metric across ZIPs,
+ * so a ZIP with many school records does not count more than one with a single record
+ */
+export const buildSocioeconomicDistributions = (features: ZoneFeature[]): Map<ZoneNumericField, MetricDistribution> => {
+    const zipValues = Array.from(rollUpByZip(features).values()).map(rollup => rollup.values);
+
+    const distributions = new Map<ZoneNumericField, MetricDistribution>();
+    SOCIOECONOMIC_METRICS.forEach(metric => {
+        const distribution = buildMetricDistribution(zipValues.map(values => values[metric.field]));
+        if (distribution) {
+            distributions.set(metric.field, distribution);
+        }
+    });
+    return distributions;
+};
+
+/**
+ * Share of ZIPs below the value, counting ties as half, from 0 to 100
+ */
+export const getPercentileRank = (distribution: MetricDistribution, value: number): number => {
+    const below = distribution.sorted.filter(candidate => candidate < value).length;
+    const equal = distribution.sorted.filter(candidate => candidate === value).length;
+    return ((below + equal / 2) / distribution.sorted.length) * 100;
+};
+
+export const getOutlierFlag = (distribution: MetricDistribution, value: number): OutlierFlag | null => {
+    const fence = (distribution.q3 - distribution.q1) * OUTLIER_IQR_MULTIPLIER;
+    if (value > distribution.q3 + fence) return 'high';
+    if (value < distribution.q1 - fence) return 'low';
+    return null;
+};
+
+export const formatMetricValue = (metric: SocioeconomicMetric, value: number | null): string => {
+    if (value == null) return '-';
+    return metric.format === 'currency'
+        ? `$${Math.round(value).toLocaleString()}`
+        : `${value.toFixed(1)}%`;
+};
+
+/**
+ * "73rd" style ordinal for a percentile rank
+ */
+export const formatPercentile = (rank: number): string => {
+    const rounded = Math.round(rank);
+    const lastTwo = rounded % 100;
+    const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][rounded % 10] || 'th';
+    return `${rounded}${suffix}`;
+};
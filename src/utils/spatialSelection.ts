@@ -0,0 +1,126 @@
+import type { Position } from 'geojson';
+import type { ZoneFeature } from '@/types/zones';
+import type { SpatialMatchMode } from '@/types/spatialSelection';
+import { EARTH_RADIUS_METERS, getPolygons } from '@/utils/geometry';
+
+interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+const getBounds = (ring: Position[]): Bounds =>
+    ring.reduce<Bounds>((bounds, [x, y]) => ({
+        minX: Math.min(bounds.minX, x),
+        minY: Math.min(bounds.minY, y),
+        maxX: Math.max(bounds.maxX, x),
+        maxY: Math.max(bounds.maxY, y),
+    }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+const boundsOverlap = (a: Bounds, b: Bounds) =>
+    a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+/**
+ * Even-odd test, so a self-crossing lasso still selects what it loops around
+ */
+export const isPointInRing = ([x, y]: Position, ring: Position[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+const orientation = (a: Position, b: Position, c: Position) =>
+    Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+const segmentsCross = (a: Position, b: Position, c: Position, d: Position): boolean =>
+    orientation(a, b, c) !== orientation(a, b, d) && orientation(c, d, a) !== orientation(c, d, b);
+
+/**
+ * Any edge of one ring crossing an edge of the other. Rings may be open or closed.
+ */
+const ringsCross = (a: Position[], b: Position[]): boolean => {
+    for (let i = 0; i < a.length; i++) {
+        const a1 = a[i];
+        const a2 = a[(i + 1) % a.length];
+        const edge = getBounds([a1, a2]);
+        for (let j = 0; j < b.length; j++) {
+            const b1 = b[j];
+            const b2 = b[(j + 1) % b.length];
+            if (boundsOverlap(edge, getBounds([b1, b2])) && segmentsCross(a1, a2, b1, b2)) return true;
+        }
+    }
+    return false;
+};
+
+// Inside the outer ring and outside every hole
+const isPointInPolygon = (point: Position, [outer, ...holes]: Position[][]) =>
+    isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole));
+
+const polygonIntersectsShape = (polygon: Position[][], shape: Position[], shapeBounds: Bounds): boolean => {
+    const outer = polygon[0];
+    if (!outer || !boundsOverlap(getBounds(outer), shapeBounds)) return false;
+
+    return outer.some(point => isPointInRing(point, shape))
+        || shape.some(point => isPointInPolygon(point, polygon))
+        || polygon.some(ring => ringsCross(ring, shape));
+};
+
+const polygonWithinShape = (polygon: Position[][], shape: Position[], shapeBounds: Bounds): boolean => {
+    const outer = polygon[0];
+    if (!outer) return false;
+
+    const bounds = getBounds(outer);
+    return bounds.minX >= shapeBounds.minX && bounds.maxX <= shapeBounds.maxX
+        && bounds.minY >= shapeBounds.minY && bounds.maxY <= shapeBounds.maxY
+        && outer.every(point => isPointInRing(point, shape))
+        && !ringsCross(outer, shape);
+};
+
+/**
+ * Polygon approximating a circle on the ground, in [lng, lat]
+ */
+export const circleToRing = ([lng, lat]: Position, radiusMeters: number, steps = 64): Position[] => {
+    const latRadius = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+    const lngRadius = latRadius / Math.max(Math.cos((lat * Math.PI) / 180), 1e-6);
+
+    return Array.from({ length: steps + 1 }, (_, index) => {
+        const angle = (index / steps) * 2 * Math.PI;
+        return [lng + lngRadius * Math.cos(angle), lat + latRadius * Math.sin(angle)];
+    });
+};
+
+export const rectangleToRing = ([x1, y1]: Position, [x2, y2]: Position): Position[] =>
+    [[x1, y1], [x2, y1], [x2, y2], [x1, y2], [x1, y1]];
+
+/**
+ * ZIPs whose zones fall in a drawn shape. With "intersect" a ZIP matches when any of its zones touches the
+ * shape; with "within" every zone of the ZIP that has geometry has to lie inside it.
+ */
+export const findZipsInShape = (features: ZoneFeature[], shape: Position[], mode: SpatialMatchMode): string[] => {
+    if (shape.length < 3) return [];
+    const shapeBounds = getBounds(shape);
+    const matches = new Map<string, boolean>();
+
+    features.forEach(feature => {
+        const zip = feature.properties.Zip;
+        const polygons = getPolygons(feature.geometry);
+        if (!zip || polygons.length === 0) return;
+
+        if (mode === 'intersect') {
+            if (!matches.get(zip) && polygons.some(polygon => polygonIntersectsShape(polygon, shape, shapeBounds))) {
+                matches.set(zip, true);
+            }
+        } else if (matches.get(zip) !== false) {
+            matches.set(zip, polygons.every(polygon => polygonWithinShape(polygon, shape, shapeBounds)));
+        }
+    });
+
+    return Array.from(matches.entries()).filter(([, matched]) => matched).map(([zip]) => zip);
+};
@@ -0,0 +1,127 @@
+import type { MultiLineString, Position } from 'geojson';
+import type { ZoneFeature } from '@/types/zones';
+import type { ZoneRollup } from '@/types/aggregation';
+import type { Territory, TerritoryConflict } from '@/types/territories';
+import { rollUpZones } from '@/utils/aggregation';
+import { getPolygons } from '@/utils/geometry';
+
+export const TERRITORY_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#4d7c0f'];
+
+// Vertices closer than this (in degrees) are treated as the same point when dissolving
+const COORDINATE_PRECISION = 1e6;
+
+export const createTerritoryId = (): string =>
+    `t-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * First color not used by another territory, cycling once all are taken
+ */
+export const getNextTerritoryColor = (territories: Territory[]): string =>
+    TERRITORY_COLORS.find(color => !territories.some(territory => territory.color === color))
+        || TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length];
+
+/**
+ * ZIPs from the list that already belong to a territory other than the one being edited, one entry per ZIP
+ */
+export const findTerritoryConflicts = (territories: Territory[], zips: string[], editingId?: string): TerritoryConflict[] =>
+    zips.flatMap(zip => {
+        const owners = territories.filter(territory => territory.id !== editingId && territory.zips.includes(zip));
+        return owners.length > 0 ? [{ zip, territories: owners }] : [];
+    });
+
+/**
+ * ZIPs each territory shares with at least one other territory, keyed by territory id
+ */
+export const getOverlappingZips = (territories: Territory[]): Map<string, string[]> => {
+    const overlaps = new Map<string, string[]>();
+    territories.forEach(territory => {
+        const shared = territory.zips.filter(zip => territories.some(other => other.id !== territory.id && other.zips.includes(zip)));
+        if (shared.length > 0) {
+            overlaps.set(territory.id, shared);
+        }
+    });
+    return overlaps;
+};
+
+/**
+ * Features of the territory's ZIPs
+ */
+export const getTerritoryFeatures = (features: ZoneFeature[], territory: Territory): ZoneFeature[] => {
+    const zips = new Set(territory.zips);
+    return features.filter(feature => zips.has(feature.properties.Zip));
+};
+
+/**
+ * Roll up every record of the territory as one area
+ */
+export const rollUpTerritory = (features: ZoneFeature[], territory: Territory): ZoneRollup =>
+    rollUpZones(getTerritoryFeatures(features, territory).map(feature => feature.properties));
+
+const getRings = (feature: ZoneFeature): Position[][] => getPolygons(feature.geometry).flat();
+
+const toPointKey = (position: Position) =>
+    `${Math.round(position[0] * COORDINATE_PRECISION)},${Math.round(position[1] * COORDINATE_PRECISION)}`;
+
+/**
+ * Join two-point segments that meet end to end into longer lines, so dashed outlines render evenly
+ */
+const chainSegments = (segments: Position[][]): Position[][] => {
+    const byPoint = new Map<string, number[]>();
+    segments.forEach((segment, index) => {
+        segment.forEach(position => {
+            const key = toPointKey(position);
+            if (!byPoint.has(key)) {
+                byPoint.set(key, []);
+            }
+            byPoint.get(key)!.push(index);
+        });
+    });
+
+    const used = new Set<number>();
+    const lines: Position[][] = [];
+    segments.forEach((segment, index) => {
+        if (used.has(index)) return;
+        used.add(index);
+        const line = [...segment];
+
+        let next: number | undefined;
+        do {
+            const tail = toPointKey(line[line.length - 1]);
+            next = byPoint.get(tail)?.find(candidate => !used.has(candidate));
+            if (next != null) {
+                used.add(next);
+                const [a, b] = segments[next];
+                line.push(toPointKey(a) === tail ? b : a);
+            }
+        } while (next != null);
+
+        lines.push(line);
+    });
+    return lines;
+};
+
+/**
+ * Outer boundary of the union of the features, as line work. Edges shared by two polygons are interior and
+ * cancel out; this relies on neighbouring zones sharing vertices, as they do in topologically clean layers.
+ */
+export const dissolveOutline = (features: ZoneFeature[]): MultiLineString | null => {
+    const edges = new Map<string, { count: number; segment: Position[] }>();
+
+    features.flatMap(getRings).forEach(ring => {
+        for (let i = 0; i < ring.length - 1; i++) {
+            const start = toPointKey(ring[i]);
+            const end = toPointKey(ring[i + 1]);
+            if (start === end) continue;
+            const key = start < end ? `${start}|${end}` : `${end}|${start}`;
+            const edge = edges.get(key);
+            if (edge) {
+                edge.count++;
+            } else {
+                edges.set(key, { count: 1, segment: [ring[i], ring[i + 1]] });
+            }
+        }
+    });
+
+    const boundary = Array.from(edges.values()).filter(edge => edge.count === 1).map(edge => edge.segment);
+    return boundary.length > 0 ? { type: 'MultiLineString', coordinates: chainSegments(boundary) } : null;
+};
@@ -0,0 +1,223 @@
+import type { Position } from 'geojson';
+import type { ZoneFeature, ZoneProperties } from '@/types/zones';
+import { ZONE_NUMERIC_FIELDS } from '@/types/zones';
+import type { DistanceUnit, TradeAreaRing, TradeAreaResult, TradeAreaShare } from '@/types/tradeArea';
+import { FIELD_AGGREGATIONS, rollUpZones } from '@/utils/aggregation';
+import { EARTH_RADIUS_METERS, METERS_PER_MILE, getPolygons } from '@/utils/geometry';
+
+export const DISTANCE_UNITS: Record<DistanceUnit, { label: string; meters: number }> = {
+    mi: { label: 'miles', meters: METERS_PER_MILE },
+    km: { label: 'km', meters: 1000 },
+};
+
+// Vertices of the polygon standing in for each circle; the area error at 128 is under 0.05%
+const CIRCLE_STEPS = 128;
+// Shares below this are rounding noise from zones that only touch a ring
+const MIN_SHARE = 1e-6;
+
+type Point = [number, number];
+
+/**
+ * "lat, lng" in decimal degrees, as copied from most map sites
+ */
+export const parseCoordinates = (text: string): [number, number] | null => {
+    const parts = text.split(/[,\s]+/).filter(Boolean).map(Number);
+    if (parts.length !== 2 || !parts.every(Number.isFinite)) return null;
+
+    const [lat, lng] = parts;
+    return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? [lat, lng] : null;
+};
+
+/**
+ * Ring distances from a list like "5, 10, 15": positive, distinct and ascending
+ */
+export const parseRingDistances = (text: string): number[] =>
+    Array.from(new Set(text.split(/[,\s]+/).map(Number).filter(value => Number.isFinite(value) && value > 0)))
+        .sort((a, b) => a - b);
+
+/**
+ * Equirectangular projection in meters around the center; accurate enough for trade areas of a few
+ * hundred kilometers
+ */
+const createProjection = ([lat, lng]: [number, number]) => {
+    const scale = (Math.PI / 180) * EARTH_RADIUS_METERS;
+    const cosLat = Math.cos((lat * Math.PI) / 180);
+    return ([x, y]: Position): Point => [(x - lng) * scale * cosLat, (y - lat) * scale];
+};
+
+const ringArea = (ring: Point[]): number => {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += (ring[j][0] + ring[i][0]) * (ring[j][1] - ring[i][1]);
+    }
+    return Math.abs(area / 2);
+};
+
+const createCircle = (radius: number): Point[] =>
+    Array.from({ length: CIRCLE_STEPS }, (_, index) => {
+        const angle = (index / CIRCLE_STEPS) * 2 * Math.PI;
+        return [radius * Math.cos(angle), radius * Math.sin(angle)];
+    });
+
+/**
+ * Sutherland-Hodgman clip of a ring to a convex, counter-clockwise clip polygon
+ */
+const clipRing = (ring: Point[], clip: Point[]): Point[] => {
+    let output = ring;
+    for (let i = 0; i < clip.length && output.length > 0; i++) {
+        const [ax, ay] = clip[i];
+        const [bx, by] = clip[(i + 1) % clip.length];
+        const isInside = ([x, y]: Point) => (bx - ax) * (y - ay) - (by - ay) * (x - ax) >= 0;
+        const intersect = ([px, py]: Point, [qx, qy]: Point): Point => {
+            const a1 = by - ay;
+            const b1 = ax - bx;
+            const a2 = qy - py;
+            const b2 = px - qx;
+            const determinant = a1 * b2 - a2 * b1;
+            const c1 = a1 * ax + b1 * ay;
+            const c2 = a2 * px + b2 * py;
+            return [(b2 * c1 - b1 * c2) / determinant, (a1 * c2 - a2 * c1) / determinant];
+        };
+
+        const input = output;
+        output = [];
+        input.forEach((current, index) => {
+            const previous = input[(index + input.length - 1) % input.length];
+            if (isInside(current)) {
+                if (!isInside(previous)) output.push(intersect(previous, current));
+                output.push(current);
+            } else if (isInside(previous)) {
+                output.push(intersect(previous, current));
+            }
+        });
+    }
+    return output;
+};
+
+interface ProjectedZone {
+    zip: string;
+    record: ZoneProperties;
+    polygons: Point[][][];
+    area: number;
+    /** Nearest and farthest distance of the bounding box from the center */
+    minDistance: number;
+    maxDistance: number;
+}
+
+const projectZone = (feature: ZoneFeature, project: (position: Position) => Point): ProjectedZone | null => {
+    const polygons = getPolygons(feature.geometry).map(polygon => polygon.map(ring => ring.map(project)));
+    const area = polygons.reduce((sum, [outer, ...holes]) =>
+        sum + (outer ? ringArea(outer) : 0) - holes.reduce((holeSum, hole) => holeSum + ringArea(hole), 0), 0);
+    if (!feature.properties.Zip || area <= 0) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    polygons.forEach(([outer]) => outer?.forEach(([x, y]) => {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+    }));
+    const nearX = Math.max(minX, 0, -maxX);
+    const nearY = Math.max(minY, 0, -maxY);
+    const farX = Math.max(Math.abs(minX), Math.abs(maxX));
+    const farY = Math.max(Math.abs(minY), Math.abs(maxY));
+
+    return {
+        zip: feature.properties.Zip,
+        record: feature.properties,
+        polygons,
+        area,
+        minDistance: Math.hypot(nearX, nearY),
+        maxDistance: Math.hypot(farX, farY),
+    };
+};
+
+// Area of the zone within the circle, clipping only zones that straddle its edge
+const getAreaWithin = (zone: ProjectedZone, radius: number, circle: Point[]): number => {
+    if (zone.minDistance >= radius) return 0;
+    if (zone.maxDistance <= radius) return zone.area;
+
+    return zone.polygons.reduce((sum, [outer, ...holes]) =>
+        sum + (outer ? ringArea(clipRing(outer, circle)) : 0)
+        - holes.reduce((holeSum, hole) => holeSum + ringArea(clipRing(hole, circle)), 0), 0);
+};
+
+// Share of each zone's own area within the radius, in the order of the zones
+const getZoneCoverage = (zones: ProjectedZone[], radius: number): number[] => {
+    const circle = createCircle(radius);
+    return zones.map(zone => Math.min(1, getAreaWithin(zone, radius, circle) / zone.area));
+};
+
+/**
+ * Share of each ZIP's area given the share of each of its zones. Records of a ZIP may repeat the same
+ * polygon, which scales both sides of the ratio alike.
+ */
+const getZipShares = (zones: ProjectedZone[], zoneShares: number[]): TradeAreaShare[] => {
+    const totals = new Map<string, { within: number; area: number }>();
+    zones.forEach((zone, index) => {
+        const total = totals.get(zone.zip) || { within: 0, area: 0 };
+        total.within += zoneShares[index] * zone.area;
+        total.area += zone.area;
+        totals.set(zone.zip, total);
+    });
+
+    return Array.from(totals.entries())
+        .map(([zip, { within, area }]) => ({ zip, share: Math.min(1, within / area) }))
+        .filter(({ share }) => share > MIN_SHARE)
+        .sort((a, b) => b.share - a.share);
+};
+
+/**
+ * Roll up the zones in a ring. Counts are scaled by the share of the zone's own polygon inside it; fields
+ * that describe the whole ZIP, like population, by the ZIP's share instead. Weighted means pick up the
+ * scaled weights, so a ZIP half in the ring counts half as much toward the median income.
+ */
+const rollUpShares = (zones: ProjectedZone[], zoneShares: number[], zipShares: TradeAreaShare[]) => {
+    const zipShareByZip = new Map(zipShares.map(({ zip, share }) => [zip, share]));
+    const records = zones.flatMap((zone, index) => {
+        const share = zoneShares[index];
+        if (share <= MIN_SHARE) return [];
+
+        const scaled = { ...zone.record };
+        ZONE_NUMERIC_FIELDS.forEach(field => {
+            const value = zone.record[field];
+            const aggregation = FIELD_AGGREGATIONS[field];
+            if (aggregation.rule === 'sum' && value != null && value >= 0) {
+                scaled[field] = value * (aggregation.perZip ? zipShareByZip.get(zone.zip) ?? 0 : share);
+            }
+        });
+        return [scaled];
+    });
+    return rollUpZones(records);
+};
+
+/**
+ * Area-weighted aggregates of the zones in concentric rings around a point. Each ring holds the band
+ * between the previous distance and its own, and the total covers everything inside the last one.
+ * Records without geometry cannot be placed and are left out.
+ */
+export const computeTradeArea = (
+    features: ZoneFeature[],
+    center: [number, number],
+    distances: number[],
+    unit: DistanceUnit
+): TradeAreaResult => {
+    const project = createProjection(center);
+    const zones = features.map(feature => projectZone(feature, project)).filter((zone): zone is ProjectedZone => zone !== null);
+
+    const coverages = distances.map(distance => getZoneCoverage(zones, distance * DISTANCE_UNITS[unit].meters));
+    const toRing = (inner: number, outer: number, zoneShares: number[]): TradeAreaRing => {
+        const shares = getZipShares(zones, zoneShares);
+        return { inner, outer, shares, rollup: rollUpShares(zones, zoneShares, shares) };
+    };
+
+    const rings = distances.map((distance, index) => toRing(
+        index > 0 ? distances[index - 1] : 0,
+        distance,
+        coverages[index].map((share, zoneIndex) => share - (index > 0 ? coverages[index - 1][zoneIndex] : 0))
+    ));
+    const last = distances.length - 1;
+    const total = toRing(0, distances[last] ?? 0, last >= 0 ? coverages[last] : zones.map(() => 0));
+
+    return { center, unit, rings, total };
+};
@@ -0,0 +1,78 @@
+import type { AppTab, MapView, ViewState } from '@/types/viewState';
+import { MAX_COMPARISON_ZIPS } from '@/utils/comparison';
+import { serializeZoneQuery } from '@/utils/zoneQuery';
+
+/** Detail tabs of the ZIP analyzer; the first is the default and stays out of the URL */
+export const ZIP_DETAIL_VIEWS = ['map', 'charts', 'demographics', 'socioeconomic', 'processed', 'raw'];
+
+const TAB_PATHS: Record<AppTab, string> = {
+    data: '/map',
+    zip: '/zip',
+    rankings: '/rankings',
+    compare: '/compare',
+};
+
+// Enough precision for about 10 m, without the noise of every pan in the link
+const COORDINATE_DECIMALS = 4;
+
+/**
+ * Tab and ZIP from the path: /, /map, /zip, /zip/:zip, /rankings and /compare
+ */
+export const parseViewPath = (pathname: string): { tab: AppTab; zip: string } => {
+    const [section = '', zip = ''] = pathname.split('/').filter(Boolean);
+    const tab = (Object.keys(TAB_PATHS) as AppTab[]).find(key => TAB_PATHS[key] === `/${section}`) || 'data';
+    if (tab !== 'zip') return { tab, zip: '' };
+
+    // A mistyped link must not take the app down; it just opens the ZIP picker
+    try {
+        return { tab, zip: decodeURIComponent(zip) };
+    } catch (error) {
+        console.error('❌ Error reading ZIP from URL:', error);
+        return { tab, zip: '' };
+    }
+};
+
+export const parseZipList = (value: string | null, limit = Infinity): string[] =>
+    Array.from(new Set((value || '').split(',').map(zip => zip.trim()).filter(Boolean))).slice(0, limit);
+
+export const parseCompareZips = (value: string | null): string[] => parseZipList(value, MAX_COMPARISON_ZIPS);
+
+export const parseZipView = (value: string | null): string =>
+    value && ZIP_DETAIL_VIEWS.includes(value) ? value : ZIP_DETAIL_VIEWS[0];
+
+/**
+ * Map view from `c=lat,lng` and `z=zoom`; null when either is missing or out of range
+ */
+export const parseMapView = (center: string | null, zoom: string | null): MapView | null => {
+    if (!center || !zoom) return null;
+
+    const [lat, lng] = center.split(',').map(Number);
+    const level = Number(zoom);
+    if (![lat, lng, level].every(Number.isFinite) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return { center: [lat, lng], zoom: level };
+};
+
+/**
+ * Path and query string for a view. Parameters at their defaults are left out, so links stay short.
+ */
+export const buildViewUrl = (state: ViewState): string => {
+    const path = state.tab === 'zip' && state.zip
+        ? `${TAB_PATHS.zip}/${encodeURIComponent(state.zip)}`
+        : TAB_PATHS[state.tab];
+
+    const params = new URLSearchParams();
+    if (state.tab === 'zip' && state.zip && state.zipView !== ZIP_DETAIL_VIEWS[0]) params.set('view', state.zipView);
+    if (state.compareZips.length > 0) params.set('zips', state.compareZips.join(','));
+    if (state.selection.length > 0) params.set('sel', state.selection.join(','));
+    if (state.mapView) {
+        const [lat, lng] = state.mapView.center;
+        params.set('z', String(state.mapView.zoom));
+        params.set('c', `${lat.toFixed(COORDINATE_DECIMALS)},${lng.toFixed(COORDINATE_DECIMALS)}`);
+    }
+    const filter = serializeZoneQuery(state.filter);
+    if (filter) params.set('f', filter);
+
+    // Commas are legal in a query string and keep ZIP lists readable
+    const search = params.toString().replace(/%2C/g, ',');
+    return search ? `${path}?${search}` : path;
+};
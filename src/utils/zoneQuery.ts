@@ -0,0 +1,205 @@
+import type {
+    CategoryCondition,
+    NumericCondition,
+    NumericOperator,
+    QueryCombinator,
+    QueryCondition,
+    QueryGroup,
+    ZoneQuery,
+} from '@/types/query';
+import { ZONE_NUMERIC_FIELDS, ZONE_STRING_FIELDS } from '@/types/zones';
+import type { ZoneCollection, ZoneFeature, ZoneNumericField, ZoneStringField } from '@/types/zones';
+import type { NumericFieldKey } from '@/types/derivedFields';
+import { getNumericValue, isDerivedKey } from '@/utils/derivedFields';
+
+export const NUMERIC_OPERATORS: { value: NumericOperator; label: string }[] = [
+    { value: 'between', label: 'between' },
+    { value: 'lt', label: '<' },
+    { value: 'lte', label: '≤' },
+    { value: 'gt', label: '>' },
+    { value: 'gte', label: '≥' },
+    { value: 'eq', label: '=' },
+];
+
+let nextId = 0;
+const createQueryId = () => `q${++nextId}`;
+
+export const createEmptyQuery = (): ZoneQuery => ({ search: '', combinator: 'and', groups: [] });
+
+export const createNumericCondition = (field: NumericFieldKey): NumericCondition => ({
+    id: createQueryId(),
+    kind: 'numeric',
+    field,
+    operator: 'between',
+    value: null,
+    max: null,
+});
+
+export const createCategoryCondition = (field: ZoneStringField): CategoryCondition => ({
+    id: createQueryId(),
+    kind: 'category',
+    field,
+    values: [],
+});
+
+export const createQueryGroup = (condition: QueryCondition): QueryGroup => ({
+    id: createQueryId(),
+    combinator: 'and',
+    conditions: [condition],
+});
+
+/**
+ * Conditions without values are still being edited and should not filter anything yet
+ */
+export const isConditionActive = (condition: QueryCondition): boolean => {
+    if (condition.kind === 'category') return condition.values.length > 0;
+    if (condition.operator === 'between') return condition.value != null || condition.max != null;
+    return condition.value != null;
+};
+
+/**
+ * Test a value against a numeric condition; missing values never match
+ */
+export const matchesNumeric = (condition: NumericCondition, value: number | null): boolean => {
+    if (value == null) return false;
+
+    switch (condition.operator) {
+        case 'between':
+            return (condition.value == null || value >= condition.value) && (condition.max == null || value <= condition.max);
+        case 'lt':
+            return value < condition.value!;
+        case 'lte':
+            return value <= condition.value!;
+        case 'gt':
+            return value > condition.value!;
+        case 'gte':
+            return value >= condition.value!;
+        case 'eq':
+            return value === condition.value;
+    }
+};
+
+const matchesCondition = (condition: QueryCondition, feature: ZoneFeature): boolean =>
+    condition.kind === 'category'
+        ? condition.values.includes(feature.properties[condition.field])
+        : matchesNumeric(condition, getNumericValue(feature, condition.field));
+
+const matchesGroup = (group: QueryGroup, feature: ZoneFeature): boolean => {
+    const active = group.conditions.filter(isConditionActive);
+    if (active.length === 0) return true;
+    return group.combinator === 'and'
+        ? active.every(condition => matchesCondition(condition, feature))
+        : active.some(condition => matchesCondition(condition, feature));
+};
+
+const getActiveGroups = (query: ZoneQuery) =>
+    query.groups.filter(group => group.conditions.some(isConditionActive));
+
+export const isQueryActive = (query: ZoneQuery): boolean =>
+    !!query.search.trim() || getActiveGroups(query).length > 0;
+
+export const countActiveConditions = (query: ZoneQuery): number =>
+    query.groups.reduce((sum, group) => sum + group.conditions.filter(isConditionActive).length, 0);
+
+/**
+ * Test one feature's attributes and derived values against the query
+ */
+export const matchesZoneQuery = (feature: ZoneFeature, query: ZoneQuery): boolean => {
+    const search = query.search.trim().toLowerCase();
+    if (search && !Object.values(feature.properties).some(value => String(value ?? '').toLowerCase().includes(search))) {
+        return false;
+    }
+
+    const groups = getActiveGroups(query);
+    if (groups.length === 0) return true;
+    return query.combinator === 'and'
+        ? groups.every(group => matchesGroup(group, feature))
+        : groups.some(group => matchesGroup(group, feature));
+};
+
+/**
+ * Filter a collection by the query, keeping its field mapping and other metadata
+ */
+export const applyZoneQuery = (collection: ZoneCollection, query: ZoneQuery): ZoneCollection => {
+    if (!isQueryActive(query)) return collection;
+
+    return {
+        ...collection,
+        features: collection.features.filter(feature => matchesZoneQuery(feature, query)),
+    };
+};
+
+/**
+ * Compact JSON for a shareable link, or '' for an empty query. Condition ids are dropped because they are
+ * only unique within one session.
+ */
+export const serializeZoneQuery = (query: ZoneQuery): string => {
+    if (!query.search && query.groups.length === 0) return '';
+
+    return JSON.stringify({
+        search: query.search,
+        combinator: query.combinator,
+        groups: query.groups.map(group => ({
+            combinator: group.combinator,
+            conditions: group.conditions.map(({ id, ...condition }) => condition),
+        })),
+    });
+};
+
+type SerializedCondition = Partial<Omit<NumericCondition, 'id'>> | Partial<Omit<CategoryCondition, 'id'>>;
+type SerializedQuery = Partial<Omit<ZoneQuery, 'groups'>> & {
+    groups?: { combinator?: QueryCombinator; conditions?: SerializedCondition[] }[];
+};
+
+const isCombinator = (value: unknown): value is QueryCombinator => value === 'and' || value === 'or';
+const toNumberOrNull = (value: unknown): number | null => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+const isStringField = (field: unknown): field is ZoneStringField =>
+    ZONE_STRING_FIELDS.includes(field as ZoneStringField);
+
+// Derived keys are accepted as-is; FilterPanel drops conditions on derived fields that no longer exist
+const isNumericField = (field: unknown): field is NumericFieldKey =>
+    typeof field === 'string' && (ZONE_NUMERIC_FIELDS.includes(field as ZoneNumericField) || isDerivedKey(field));
+
+const parseCondition = (raw: SerializedCondition): QueryCondition | null => {
+    if (!raw || typeof raw !== 'object') return null;
+
+    if (raw.kind === 'category' && isStringField(raw.field) && Array.isArray(raw.values)) {
+        return { ...createCategoryCondition(raw.field), values: raw.values.filter(value => typeof value === 'string') };
+    }
+    if (raw.kind === 'numeric' && isNumericField(raw.field) && NUMERIC_OPERATORS.some(operator => operator.value === raw.operator)) {
+        return { ...createNumericCondition(raw.field), operator: raw.operator, value: toNumberOrNull(raw.value), max: toNumberOrNull(raw.max) };
+    }
+    return null;
+};
+
+/**
+ * Read a query written by serializeZoneQuery, giving every condition a fresh id. Links are hand-editable,
+ * so malformed conditions are dropped instead of failing the whole query.
+ */
+export const parseZoneQuery = (text: string): ZoneQuery => {
+    let raw: SerializedQuery | null = null;
+    try {
+        raw = text ? (JSON.parse(text) as SerializedQuery) : null;
+    } catch (error) {
+        console.error('❌ Error reading filter from URL:', error);
+    }
+    if (!raw || typeof raw !== 'object') return createEmptyQuery();
+
+    const groups: QueryGroup[] = [];
+    (Array.isArray(raw.groups) ? raw.groups : []).forEach(group => {
+        const conditions = (Array.isArray(group?.conditions) ? group.conditions : []).map(parseCondition).filter(Boolean);
+        if (conditions.length === 0) return;
+        groups.push({
+            ...createQueryGroup(conditions[0]),
+            combinator: isCombinator(group.combinator) ? group.combinator : 'and',
+            conditions,
+        });
+    });
+
+    return {
+        search: typeof raw.search === 'string' ? raw.search : '',
+        combinator: isCombinator(raw.combinator) ? raw.combinator : 'and',
+        groups,
+    };
+};
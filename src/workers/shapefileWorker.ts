@@ -0,0 +1,57 @@
+import {
+    normalizeZoneCollection,
+    readAttributeTable,
+    readShapefile,
+    readVectorFile,
+    type GeoJsonCollection,
+    type ProgressCallback,
+} from '@/utils/shapefileLoader';
+import type { ParseStage, WorkerJob, WorkerMessage } from '@/utils/shapefileWorkerClient';
+import type { FieldMapping, ZoneCollection } from '@/types/zones';
+
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+const reportProgress = (stage: ParseStage): ProgressCallback => (processed, total) => {
+    post({ type: 'progress', stage, processed, total });
+};
+
+const normalize = (collection: GeoJsonCollection, mapping?: FieldMapping): ZoneCollection => {
+    const total = collection.features.length;
+    reportProgress('normalizing')(0, total);
+    const normalized = normalizeZoneCollection(collection, mapping);
+    reportProgress('normalizing')(total, total);
+    return normalized;
+};
+
+const finish = (result: GeoJsonCollection | ZoneCollection) => post({ type: 'done', result });
+
+self.onmessage = async (event: MessageEvent<WorkerJob>) => {
+    const job = event.data;
+
+    try {
+        switch (job.type) {
+            case 'read-shapefile': {
+                const collection = await readShapefile(job.data, reportProgress('reading'));
+                finish(job.normalize ? normalize(collection) : collection);
+                break;
+            }
+            case 'read-attributes': {
+                const collection = await readAttributeTable(job.dbf, job.cpg, reportProgress('reading'));
+                finish({ ...normalize(collection), attributeOnly: true });
+                break;
+            }
+            case 'read-vector':
+                finish(await readVectorFile(job.file, reportProgress('reading')));
+                break;
+            case 'normalize':
+                finish(normalize(job.collection, job.mapping));
+                break;
+        }
+    } catch (error) {
+        post({
+            type: 'error',
+            name: error instanceof Error ? error.name : 'Error',
+            message: error instanceof Error ? error.message : String(error),
+        });
+    }
+};